@@ -1,11 +1,45 @@
-import { FumeMappingProviderConfig, UserMapping, UserMappingMetadata, PackageMapping, PackageMappingMetadata, GetPackageMappingOptions, AliasObject, AliasObjectWithMetadata, AliasWithMetadata, ConceptMap, StructureMap, StaticJsonValue, StaticJsonValueMetadata } from './types';
-import { Logger } from '@outburn/types';
+import { FumeMappingProviderConfig, UserMapping, UserMappingMetadata, PackageMapping, PackageMappingMetadata, GetPackageMappingOptions, PackageMappingCandidate, AliasObject, AliasDefinition, AliasDefinitionObject, AliasDetails, AliasObjectWithMetadata, AliasWithMetadata, ConceptMap, StructureMap, FumeRuleExpression, StaticJsonValue, StaticJsonValueMetadata, StaticJsonValidationError, JsonSchemaError, ServerStaticJsonValueMeta, UserMappingHistoryEntry, ChangeTrigger, FhirServerSource, InvalidKey, ShadowedKey, AliasReferenceError, ValidateOptions, ValidationReport, PublishReport, PublishResult, PublishUserMappingsOptions, PublishAliasesOptions, PublishAliasesReport, ExportBundleOptions, ImportMappingsOptions, SupportedFhirRelease, ImportReport, BuildPackageOptions, BuildPackageResult, FumeMappingProviderEventMap, FumeMappingProviderEventName, FumeMappingProviderEventHandler } from './types';
+import type { Bundle, Logger, PackageManifest } from '@outburn/types';
 import { UserMappingProvider, PackageMappingProvider, AliasProvider } from './providers';
-import { conceptMapToAliasObject, aliasObjectToConceptMap, structureMapToExpression, expressionToStructureMap } from './converters';
+import { conceptMapToAliasObject, conceptMapToAliasDefinitions, aliasObjectToConceptMap, structureMapToExpression, structureMapToExpressions, expressionToStructureMap, updateStructureMapExpression, findRuleExpression } from './converters';
 import { builtInAliases } from './builtInAliases';
+import { DependencyGraph } from './dependencyGraph';
+import { findMissingReferences } from './validation';
+import { hasAliasReferences, resolveAliasReferences } from './aliasReferences';
+import { compileJsonSchema, JsonSchemaValidator } from './jsonSchema';
+import { STATIC_VALUE_EXTENSIONS } from './staticValueFormats';
+import { buildStaticJsonIndex } from './staticJsonIndex';
+import { UserMappingHistory } from './mappingHistory';
+import { publishAliasConceptMap, publishMappings } from './publisher';
+import { DEFAULT_ALIAS_CONCEPT_MAP_ID, buildExportBundle } from './bundle';
+import { collectImportSources, importSources } from './importer';
+import { buildPackageFiles, writeTarball } from './packageBuilder';
+import { ResolvedFhirServerSource, getNormalizedBaseUrl, resolveFhirServerSources } from './fhirServers';
+import { detectFhirRelease, fhirReleaseVersion, toFhirRelease } from './fhirVersion';
 import * as fs from 'fs/promises';
-import type { Stats } from 'fs';
+import { watch } from 'fs';
+import type { FSWatcher, Stats } from 'fs';
 import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+
+/**
+ * Per-server state: aliases, conditional-read metadata and polling
+ */
+interface FhirServerState {
+  source: ResolvedFhirServerSource;
+  aliasProvider: AliasProvider;
+  aliases: AliasObject;
+  aliasDefinitions: AliasDefinitionObject;
+  aliasResourceId?: string;
+  aliasResourceMeta?: { versionId?: string; lastUpdated?: string };
+  mappingsMeta: Map<string, { versionId?: string; lastUpdated?: string }>;
+  staticJsonMeta: Map<string, ServerStaticJsonValueMeta>;
+  // Detected from the server CapabilityStatement (unless `fhirVersion` is configured)
+  fhirVersion?: SupportedFhirRelease;
+  lastPollAt?: string;
+  pollingTimer?: NodeJS.Timeout;
+  pollInProgress: boolean;
+}
 
 /**
  * Main orchestrator for FUME mappings from multiple sources
@@ -15,32 +49,56 @@ export class FumeMappingProvider {
   private logger?: Logger;
   private userProvider?: UserMappingProvider;
   private packageProvider?: PackageMappingProvider;
-  private aliasProvider?: AliasProvider;
   private userMappingsCache: Map<string, UserMapping> = new Map();
+  private mappingHistory?: UserMappingHistory;
+  // Pinned keys keep serving the pinned version; `latest` tracks what the sources currently hold
+  private mappingPins: Map<string, { version: number; latest: UserMapping | null }> = new Map();
   private staticJsonValuesCache: Map<string, StaticJsonValue> = new Map();
-  private serverAliases: AliasObject = {};
   private fileAliases: AliasObject = {};
-  private aliasResourceId?: string;
-  private aliasResourceMeta?: { versionId?: string; lastUpdated?: string };
-  private serverMappingsMeta: Map<string, { versionId?: string; lastUpdated?: string }> = new Map();
+  private fileAliasSources: Map<string, string> = new Map();
+  private aliasEnvironment?: string;
+  private environmentAliases: AliasObject = {};
+  private environmentAliasSources: Map<string, string> = new Map();
+  private environmentAliasShadowedSources: Map<string, string[]> = new Map();
+  // Overridden aliases.json paths per alias key, highest precedence first
+  private fileAliasShadowedSources: Map<string, string[]> = new Map();
+  // Invalid alias keys per aliases.json path or server alias source
+  private aliasInvalidKeys: Map<string, InvalidKey[]> = new Map();
+  private lastValidationReport?: string;
+  private mappingsFolders: string[] = [];
+  private fhirServerSources: ResolvedFhirServerSource[] = [];
+  // Lowest precedence first
+  private fhirServers: FhirServerState[] = [];
   private staticJsonRawCache: Map<string, string> = new Map();
+  // Static JSON values rejected by their schema (the last valid value, if any, stays cached)
+  private staticJsonValidationErrors: Map<string, StaticJsonValidationError> = new Map();
+  // Compiled schema per static JSON key, reused while the schema source and text are unchanged
+  private staticJsonSchemaValidators: Map<string, { source: string; text: string; validate?: JsonSchemaValidator; error?: string }> = new Map();
+  // Declared lookup indexes: static JSON key -> index name -> lookup key -> item
+  private staticJsonIndexes: Map<string, Map<string, Map<string, unknown>>> = new Map();
   private filePollingState: Map<string, { mtimeMs: number; size: number; key: string; isJson: boolean; isAliasFile: boolean }>
     = new Map();
   private filePollingTimer?: NodeJS.Timeout;
-  private serverPollingTimer?: NodeJS.Timeout;
+  private fileWatchers: FSWatcher[] = [];
+  private fileWatchDebounceTimer?: NodeJS.Timeout;
+  private fileWatchSyncPending = false;
   private forcedResyncTimer?: NodeJS.Timeout;
   private filePollInProgress = false;
-  private serverPollInProgress = false;
   private resyncInProgress = false;
-  private lastServerPollAt?: string;
 
   private aliasesCacheWithMetadata: Map<string, AliasWithMetadata> = new Map();
+  private eventHandlers: Map<FumeMappingProviderEventName, Set<(event: never) => void>> = new Map();
 
   private static readonly DEFAULT_CANONICAL_BASE_URL = 'http://example.com';
+  private static readonly DEFAULT_FHIR_VERSION: SupportedFhirRelease = 'R4';
   private static readonly ALIASES_FILENAME = 'aliases.json';
+  private static readonly ALIAS_ENVIRONMENT_VARIABLE = 'FUME_ALIAS_ENV';
+  private static readonly ALIAS_ENVIRONMENT_REGEX = /^[A-Za-z0-9_-]+$/;
   private static readonly DEFAULT_FILE_POLLING_INTERVAL_MS = 5000;
+  private static readonly DEFAULT_FILE_WATCH_DEBOUNCE_MS = 100;
   private static readonly DEFAULT_SERVER_POLLING_INTERVAL_MS = 30000;
   private static readonly DEFAULT_FORCED_RESYNC_INTERVAL_MS = 60 * 60 * 1000;
+  private static readonly DEFAULT_MAPPING_HISTORY_MAX_ENTRIES = 20;
   // Alias keys will be bound as JSONata variables; JSONata treats operators/whitespace as syntax.
   // Permit only characters that cannot be parsed as operators: letters, digits, underscore.
   // Allow leading '_' or digits (e.g. $1, $1b, $_private).
@@ -54,22 +112,61 @@ export class FumeMappingProvider {
   }
 
   private validateConfig(): void {
+    const folderEntries = this.config.mappingsFolder === undefined
+      ? []
+      : Array.isArray(this.config.mappingsFolder) ? this.config.mappingsFolder : [this.config.mappingsFolder];
+    this.mappingsFolders = folderEntries
+      .map(entry => (typeof entry === 'string' ? entry : entry.path))
+      .filter(folder => !!folder);
+
+    for (const entry of folderEntries) {
+      if (typeof entry !== 'string' && entry.fileExtension !== undefined) {
+        this.validateFileExtension(entry.fileExtension);
+      }
+    }
+
+    const serverSources: FhirServerSource[] = [];
+    if (this.config.fhirClient) {
+      serverSources.push({ fhirClient: this.config.fhirClient, aliasConceptMapId: this.config.aliasConceptMapId });
+    }
+    serverSources.push(...(this.config.fhirServers ?? []));
+    this.fhirServerSources = resolveFhirServerSources(serverSources);
+
+    for (const [key, indexes] of Object.entries(this.config.staticJsonIndexes ?? {})) {
+      for (const [indexName, indexPath] of Object.entries(indexes)) {
+        if (typeof indexPath !== 'string' || indexPath.split('.').some(segment => !segment)) {
+          throw new Error(`Invalid path '${String(indexPath)}' for index '${indexName}' of static JSON value '${key}'.`);
+        }
+      }
+    }
+
+    const aliasEnvironment = (this.config.aliasEnvironment ?? process.env[FumeMappingProvider.ALIAS_ENVIRONMENT_VARIABLE] ?? '').trim();
+    if (aliasEnvironment && !FumeMappingProvider.ALIAS_ENVIRONMENT_REGEX.test(aliasEnvironment)) {
+      throw new Error(`Invalid aliasEnvironment '${aliasEnvironment}'. Use letters, digits, '_' and '-' only.`);
+    }
+    this.aliasEnvironment = aliasEnvironment || undefined;
+
     if (!this.config.fileExtension) {
       return;
     }
 
-    const trimmed = this.config.fileExtension.trim();
+    this.config.fileExtension = this.validateFileExtension(this.config.fileExtension);
+  }
+
+  private validateFileExtension(fileExtension: string): string {
+    const trimmed = fileExtension.trim();
     if (!trimmed) {
-      throw new Error(`Invalid fileExtension '${this.config.fileExtension}'.`);
+      throw new Error(`Invalid fileExtension '${fileExtension}'.`);
     }
 
     const normalized = trimmed.startsWith('.') ? trimmed.toLowerCase() : `.${trimmed.toLowerCase()}`;
-    this.config.fileExtension = normalized;
-
-    const ext = normalized;
-    if (ext === '.json') {
-      throw new Error(`Invalid fileExtension '${this.config.fileExtension}'. The '.json' extension is reserved (aliases.json).`);
+    if (normalized === '.json') {
+      throw new Error(`Invalid fileExtension '${normalized}'. The '.json' extension is reserved (aliases.json).`);
     }
+    if ((STATIC_VALUE_EXTENSIONS as readonly string[]).includes(normalized)) {
+      throw new Error(`Invalid fileExtension '${normalized}'. The '${normalized}' extension is reserved for static values.`);
+    }
+    return normalized;
   }
 
   /**
@@ -77,13 +174,18 @@ export class FumeMappingProvider {
    */
   private initializeProviders(): void {
     // User mapping provider (file + server)
-    if (this.config.mappingsFolder || this.config.fhirClient) {
+    if (this.mappingsFolders.length > 0 || this.fhirServerSources.length > 0) {
       this.logger?.info?.('Initializing user mapping provider');
       this.userProvider = new UserMappingProvider(
         this.config.mappingsFolder,
-        this.config.fhirClient,
+        this.config.fhirServers ? this.fhirServerSources : this.config.fhirClient,
         this.logger,
-        this.config.fileExtension
+        this.config.fileExtension,
+        {
+          recursive: this.config.recursive === true,
+          namespaceScheme: this.config.namespaceScheme,
+          aliasEnvironment: this.aliasEnvironment
+        }
       );
     }
 
@@ -92,17 +194,37 @@ export class FumeMappingProvider {
       this.logger?.info?.('Initializing package mapping provider');
       this.packageProvider = new PackageMappingProvider(
         this.config.packageExplorer,
-        this.logger
+        this.logger,
+        {
+          index: this.config.packageMappingIndex === true,
+          strict: this.config.strictPackageMappingResolution === true
+        }
       );
     }
 
-    // Alias provider (server only)
-    if (this.config.fhirClient) {
+    // Alias provider per server
+    if (this.fhirServerSources.length > 0) {
       this.logger?.info?.('Initializing alias provider');
-      this.aliasProvider = new AliasProvider(
-        this.config.fhirClient,
+    }
+    this.fhirServers = this.fhirServerSources.map(source => ({
+      source,
+      aliasProvider: new AliasProvider(
+        source.fhirClient,
         this.logger,
-        this.config.aliasConceptMapId
+        source.aliasConceptMapId
+      ),
+      aliases: {},
+      aliasDefinitions: {},
+      mappingsMeta: new Map(),
+      staticJsonMeta: new Map(),
+      pollInProgress: false
+    }));
+
+    if (this.config.mappingHistory) {
+      this.mappingHistory = new UserMappingHistory(
+        Math.max(1, this.config.mappingHistory.maxEntries ?? FumeMappingProvider.DEFAULT_MAPPING_HISTORY_MAX_ENTRIES),
+        this.config.mappingHistory.folder,
+        this.logger
       );
     }
   }
@@ -113,12 +235,25 @@ export class FumeMappingProvider {
   async initialize(): Promise<void> {
     this.logger?.info?.('Initializing FUME Mapping Provider');
     
+    await this.mappingHistory?.load();
+    if (!this.config.fhirVersion) {
+      for (const server of this.fhirServers) {
+        server.fhirVersion = await detectFhirRelease(server.source.fhirClient, server.source.label, this.logger);
+      }
+    }
     await this.refreshUserMappingsFromSources('initialize');
     await this.refreshStaticJsonValuesFromSources('initialize');
     await this.refreshAliasesFromSources('initialize');
     await this.primeFilePollingState();
+    if (this.config.packageMappingIndex) {
+      await this.packageProvider?.buildIndex();
+    }
+    this.validateAfterPoll('initialize');
 
-    this.lastServerPollAt = new Date().toISOString();
+    const pollStart = new Date().toISOString();
+    for (const server of this.fhirServers) {
+      server.lastPollAt = pollStart;
+    }
     this.startAutomaticChangeTracking();
   }
 
@@ -140,60 +275,55 @@ export class FumeMappingProvider {
    * @returns The refreshed mapping or null if not found
    */
   async refreshUserMapping(key: string): Promise<UserMapping | null> {
+    return this.refreshSingleUserMapping(key, 'manual');
+  }
+
+  private async refreshSingleUserMapping(key: string, trigger: ChangeTrigger): Promise<UserMapping | null> {
     /* istanbul ignore if */
     if (!this.userProvider) {
       return null;
     }
 
     // File-based mapping takes precedence over server
-    if (this.config.mappingsFolder) {
+    if (this.mappingsFolders.length > 0) {
       const fileMapping = await this.userProvider.loadFileMapping(key);
       if (fileMapping) {
-        this.applySingleMappingUpdate(key, fileMapping);
+        this.applySingleMappingUpdate(key, fileMapping, trigger);
         return fileMapping;
       }
     }
 
-    if (!this.config.fhirClient) {
-      this.userMappingsCache.delete(key);
-      this.serverMappingsMeta.delete(key);
-      this.logger?.debug?.(`User mapping no longer exists: ${key}`);
-      return null;
-    }
+    // Server-backed sources (conditional read), highest precedence first
+    for (const server of [...this.fhirServers].reverse()) {
+      const cached = this.getLatestUserMapping(key);
+      const ownsCached = cached?.sourceType === 'server' && cached.server === server.source.label;
+      const condition = ownsCached ? server.mappingsMeta.get(key) || {} : {};
+      const response = await this.userProvider.conditionalReadServerMapping(key, condition, server.source.label);
 
-    // Server-backed source (conditional read)
-    if (this.config.fhirClient) {
-      const condition = this.serverMappingsMeta.get(key) || {};
-      const response = await this.userProvider.conditionalReadServerMapping(key, condition);
-
-      if (response.status === 304) {
+      if (response.status === 304 && ownsCached) {
         return this.userMappingsCache.get(key) || null;
       }
 
-      if (response.status === 200) {
-        if (response.mapping) {
-          if (response.meta) {
-            this.serverMappingsMeta.set(key, response.meta);
-          }
-          this.applySingleMappingUpdate(key, response.mapping);
-          return response.mapping;
+      if (response.status === 200 && response.mapping) {
+        if (response.meta) {
+          server.mappingsMeta.set(key, response.meta);
         }
-
-        this.userMappingsCache.delete(key);
-        this.serverMappingsMeta.delete(key);
-        this.logger?.debug?.(`User mapping no longer exists or is not a FUME mapping: ${key}`);
-        return null;
+        this.applySingleMappingUpdate(key, response.mapping, trigger);
+        return response.mapping;
       }
 
-      if (response.status === 404 || response.status === 410) {
-        this.userMappingsCache.delete(key);
-        this.serverMappingsMeta.delete(key);
-        this.logger?.debug?.(`User mapping deleted on server: ${key}`);
-        return null;
+      if (response.status === 200 || response.status === 404 || response.status === 410) {
+        // Not (or no longer) a FUME mapping on this server; fall through to lower-precedence servers
+        server.mappingsMeta.delete(key);
+        continue;
       }
+
+      // Server unavailable: keep what we have
+      return this.userMappingsCache.get(key) || null;
     }
 
-    return this.userMappingsCache.get(key) || null;
+    this.removeUserMapping(key, trigger, `User mapping no longer exists: ${key}`);
+    return null;
   }
 
   // ========== USER MAPPING API ==========
@@ -221,15 +351,145 @@ export class FumeMappingProvider {
       sourceType: m.sourceType,
       source: m.source,
       name: m.name,
-      url: m.url
+      url: m.url,
+      server: m.server
     }));
   }
 
   /**
-   * Get a user mapping by key (lightning-fast - from cache)
+   * Get a user mapping by key (lightning-fast - from cache).
+   * A sub-mapping key `<key>#<group>.<rule>` returns that rule of a multi-rule mapping.
    */
   getUserMapping(key: string): UserMapping | undefined {
-    return this.userMappingsCache.get(key);
+    const mapping = this.userMappingsCache.get(key);
+    if (mapping || !key.includes('#')) {
+      return mapping;
+    }
+
+    const separator = key.lastIndexOf('#');
+    const subMapping = selectRule(this.userMappingsCache.get(key.slice(0, separator)), key.slice(separator + 1));
+    return subMapping && { ...subMapping, key };
+  }
+
+  /**
+   * Get the recorded versions of a user mapping, oldest first.
+   * Empty unless `mappingHistory` is configured.
+   */
+  getUserMappingHistory(key: string): UserMappingHistoryEntry[] {
+    return this.mappingHistory?.get(key) ?? [];
+  }
+
+  /**
+   * Pin a user mapping to a version from its history.
+   * The pinned expression is served until `unpinUserMapping` is called, even if the sources change
+   * (changes are still recorded in the history).
+   * @param key - The mapping key
+   * @param version - A version number from `getUserMappingHistory(key)`
+   * @returns The mapping now being served
+   */
+  pinUserMapping(key: string, version: number): UserMapping {
+    const entry = this.mappingHistory?.getVersion(key, version);
+    if (!entry || entry.removed || entry.expression === undefined) {
+      throw new Error(`Version ${version} of user mapping '${key}' is not in the history.`);
+    }
+
+    const pinned: UserMapping = {
+      key,
+      expression: entry.expression,
+      sourceType: entry.sourceType,
+      source: entry.source,
+      name: entry.name,
+      url: entry.url,
+      server: entry.server
+    };
+    const latest = this.getLatestUserMapping(key) ?? null;
+    this.mappingPins.set(key, { version, latest });
+    this.logger?.info?.(`Pinned user mapping '${key}' to version ${version}`);
+    this.serveUserMapping(key, pinned, 'manual');
+    return pinned;
+  }
+
+  /**
+   * Unpin a user mapping and go back to serving its current version from the sources.
+   * @returns The mapping now being served (undefined if it no longer exists)
+   */
+  unpinUserMapping(key: string): UserMapping | undefined {
+    const pin = this.mappingPins.get(key);
+    if (!pin) {
+      return this.userMappingsCache.get(key);
+    }
+
+    this.mappingPins.delete(key);
+    this.logger?.info?.(`Unpinned user mapping '${key}'`);
+    this.serveUserMapping(key, pin.latest, 'manual');
+    return pin.latest ?? undefined;
+  }
+
+  /**
+   * Get the version a user mapping is pinned to (undefined if not pinned).
+   */
+  getPinnedUserMappingVersion(key: string): number | undefined {
+    return this.mappingPins.get(key)?.version;
+  }
+
+  /**
+   * Publish cached file mappings to a FHIR server as StructureMaps.
+   * Each mapping is compared with the server version and created, updated (with `If-Match`)
+   * or left unchanged. A StructureMap changed on the server since the provider last synced it
+   * (initial load, poll, refresh or publish) is reported as a conflict and not overwritten.
+   * @param options - Keys to publish, dry run and target server
+   * @returns A per-key report
+   */
+  async publishUserMappings(options?: PublishUserMappingsOptions): Promise<PublishReport> {
+    const server = this.getPublishTarget(options?.server);
+    const dryRun = options?.dryRun === true;
+
+    const fileMappings = this.getUserMappings().filter(m => m.sourceType === 'file');
+    const keys = options?.keys ?? fileMappings.map(m => m.key).sort();
+    const skipped: PublishResult[] = [];
+    const selected: UserMapping[] = [];
+    for (const key of keys) {
+      const mapping = this.userMappingsCache.get(key);
+      if (mapping?.sourceType === 'file') {
+        selected.push(mapping);
+      } else {
+        skipped.push({ key, status: 'skipped', message: mapping ? 'Not a file mapping' : 'No such user mapping' });
+      }
+    }
+
+    const syncedVersionIds = new Map(Array.from(server.mappingsMeta.entries()).map(([key, meta]) => [key, meta.versionId]));
+    const published = await publishMappings(
+      server.source.fhirClient,
+      selected,
+      { dryRun, canonicalBaseUrl: this.getCanonicalBaseUrl(), fhirVersion: this.getFhirVersion(server.source.label), syncedVersionIds },
+      this.logger
+    );
+    if (!dryRun) {
+      for (const result of published) {
+        if (result.status === 'created' || result.status === 'updated') {
+          server.mappingsMeta.set(result.key, { versionId: result.versionId });
+        }
+      }
+    }
+    const byKey = new Map([...published, ...skipped].map(result => [result.key, result]));
+
+    return {
+      server: server.source.label,
+      dryRun,
+      results: keys.map(key => byKey.get(key) as PublishResult)
+    };
+  }
+
+  private getPublishTarget(serverLabel: string | undefined): FhirServerState {
+    const server = serverLabel === undefined
+      ? this.fhirServers[this.fhirServers.length - 1]
+      : this.fhirServers.find(candidate => candidate.source.label === serverLabel);
+    if (!server) {
+      throw new Error(serverLabel === undefined
+        ? 'No FHIR server configured to publish to.'
+        : `Unknown FHIR server '${serverLabel}'.`);
+    }
+    return server;
   }
 
   // ========== STATIC JSON VALUE API ==========
@@ -245,19 +505,60 @@ export class FumeMappingProvider {
    * Refresh a specific static JSON value by key.
    */
   async refreshStaticJsonValue(key: string): Promise<StaticJsonValue | null> {
-    if (!this.userProvider || !this.config.mappingsFolder) {
+    return this.refreshSingleStaticJsonValue(key, 'manual');
+  }
+
+  private async refreshSingleStaticJsonValue(key: string, trigger: ChangeTrigger): Promise<StaticJsonValue | null> {
+    if (!this.userProvider || (this.mappingsFolders.length === 0 && this.fhirServers.length === 0)) {
       return null;
     }
 
-    const value = await this.userProvider.loadStaticJsonValue(key);
-    if (value) {
-      const raw = await this.userProvider.readStaticJsonValueRaw(key);
-      this.applySingleStaticJsonValueUpdate(key, value, raw ?? undefined);
-      return value;
+    // File-based value takes precedence over server
+    if (this.mappingsFolders.length > 0) {
+      const value = await this.userProvider.loadStaticJsonValue(key);
+      if (value) {
+        if (!(await this.acceptStaticJsonValue(value))) {
+          return this.staticJsonValuesCache.get(key) ?? null;
+        }
+        const raw = await this.userProvider.readStaticJsonValueRaw(key);
+        this.applySingleStaticJsonValueUpdate(key, value, raw ?? undefined, trigger);
+        return value;
+      }
     }
 
-    this.staticJsonValuesCache.delete(key);
-    this.staticJsonRawCache.delete(key);
+    // Server-backed sources (conditional read), highest precedence first
+    for (const server of [...this.fhirServers].reverse()) {
+      const cached = this.staticJsonValuesCache.get(key);
+      const ownsCached = cached?.sourceType === 'server' && cached.server === server.source.label;
+      const condition = ownsCached ? server.staticJsonMeta.get(key) || {} : {};
+      const response = await this.userProvider.conditionalReadServerStaticJsonValue(key, condition, server.source.label);
+
+      if (response.status === 304 && ownsCached) {
+        return cached;
+      }
+
+      if (response.status === 200 && response.value) {
+        if (response.meta) {
+          server.staticJsonMeta.set(key, response.meta);
+        }
+        if (!(await this.acceptStaticJsonValue(response.value))) {
+          return this.staticJsonValuesCache.get(key) ?? null;
+        }
+        this.applySingleStaticJsonValueUpdate(key, response.value, response.raw, trigger);
+        return response.value;
+      }
+
+      if (response.status === 200 || response.status === 404 || response.status === 410) {
+        // Not (or no longer) a FUME static JSON value on this server; fall through to lower-precedence servers
+        server.staticJsonMeta.delete(key);
+        continue;
+      }
+
+      // Server unavailable: keep what we have
+      return this.staticJsonValuesCache.get(key) ?? null;
+    }
+
+    this.removeStaticJsonValue(key, trigger);
     return null;
   }
 
@@ -282,7 +583,8 @@ export class FumeMappingProvider {
     return this.getStaticJsonValues().map(v => ({
       key: v.key,
       sourceType: v.sourceType,
-      source: v.source
+      source: v.source,
+      server: v.server
     }));
   }
 
@@ -293,11 +595,308 @@ export class FumeMappingProvider {
     return this.staticJsonValuesCache.get(key);
   }
 
+  /**
+   * Look up an item of a static JSON array through an index declared in `staticJsonIndexes`.
+   * Lookup keys are compared in their string form.
+   * @param key - Static JSON value key
+   * @param indexName - Index name declared for the value
+   * @param lookupKey - Value at the index path
+   * @returns The first matching item, or undefined if none matches (or the value is not loaded)
+   * @throws Error if no such index is declared for the value
+   */
+  lookupStaticJsonValue(key: string, indexName: string, lookupKey: string | number | boolean): unknown {
+    if (this.config.staticJsonIndexes?.[key]?.[indexName] === undefined) {
+      throw new Error(`No index '${indexName}' is declared for static JSON value '${key}'.`);
+    }
+    return this.staticJsonIndexes.get(key)?.get(indexName)?.get(String(lookupKey));
+  }
+
+  /**
+   * Rebuild the declared indexes of a cached static JSON value.
+   */
+  private rebuildStaticJsonIndexes(key: string): void {
+    const definitions = this.config.staticJsonIndexes?.[key];
+    const value = this.staticJsonValuesCache.get(key);
+    if (!definitions || !value) {
+      this.staticJsonIndexes.delete(key);
+      return;
+    }
+
+    const indexes = new Map<string, Map<string, unknown>>();
+    for (const [indexName, indexPath] of Object.entries(definitions)) {
+      const index = buildStaticJsonIndex(value.value, indexPath);
+      if (!index) {
+        this.logger?.warn?.(`Static JSON value '${key}' is not an array; index '${indexName}' is empty.`);
+        indexes.set(indexName, new Map());
+        continue;
+      }
+      if (index.duplicates.length > 0) {
+        const shown = index.duplicates.slice(0, 5).map(lookupKey => `'${lookupKey}'`).join(', ');
+        const more = index.duplicates.length > 5 ? ` (and ${index.duplicates.length - 5} more)` : '';
+        this.logger?.warn?.(
+          `Index '${indexName}' of static JSON value '${key}' has duplicate keys ${shown}${more}; the first item wins.`
+        );
+      }
+      indexes.set(indexName, index.entries);
+    }
+    this.staticJsonIndexes.set(key, indexes);
+  }
+
+  /**
+   * Get the static JSON values currently rejected by their schema.
+   */
+  getStaticJsonValidationErrors(): StaticJsonValidationError[] {
+    return Array.from(this.staticJsonValidationErrors.values());
+  }
+
+  /**
+   * Check a loaded static JSON value against its schema. A rejected value is recorded and logged;
+   * the caller keeps serving the last valid value.
+   * @returns True if the value can be applied
+   */
+  private async acceptStaticJsonValue(value: StaticJsonValue): Promise<boolean> {
+    const failure = await this.findStaticJsonSchemaErrors(value);
+    if (!failure) {
+      this.staticJsonValidationErrors.delete(value.key);
+      return true;
+    }
+
+    const keptLastValid = this.staticJsonValuesCache.has(value.key);
+    this.staticJsonValidationErrors.set(value.key, {
+      key: value.key,
+      source: value.source,
+      schema: failure.schema,
+      errors: failure.errors,
+      keptLastValid,
+      rejectedAt: new Date().toISOString()
+    });
+    const shown = failure.errors.slice(0, 5).map(error => `${error.path || '/'}: ${error.message}`).join('; ');
+    const more = failure.errors.length > 5 ? ` (and ${failure.errors.length - 5} more)` : '';
+    this.logger?.warn?.(
+      `Static JSON value '${value.key}' (${value.source}) does not match its schema (${failure.schema}); ` +
+        `${keptLastValid ? 'keeping the last valid value' : 'not loaded'}. ${shown}${more}`
+    );
+    return false;
+  }
+
+  /**
+   * Validate a static JSON value against its schema: `staticJsonSchemas[key]`, or the sidecar
+   * `<key>.schema.json` next to the value file (whatever its format)
+   * @returns The schema used and its violations, or undefined if the value is valid or has no schema
+   */
+  private async findStaticJsonSchemaErrors(value: StaticJsonValue): Promise<{ schema: string; errors: JsonSchemaError[] } | undefined> {
+    let schema: unknown = this.config.staticJsonSchemas?.[value.key];
+    let schemaSource = 'config';
+    let schemaText: string;
+    if (schema !== undefined) {
+      schemaText = JSON.stringify(schema);
+    } else {
+      // Server values have no sidecar
+      if (value.sourceType !== 'file') {
+        this.staticJsonSchemaValidators.delete(value.key);
+        return undefined;
+      }
+      schemaSource = value.source.replace(/\.[^./\\]+$/, '.schema.json');
+      try {
+        schemaText = await fs.readFile(schemaSource, 'utf-8');
+      } catch (_error) {
+        // No sidecar schema
+        this.staticJsonSchemaValidators.delete(value.key);
+        return undefined;
+      }
+    }
+
+    let compiled = this.staticJsonSchemaValidators.get(value.key);
+    if (!compiled || compiled.source !== schemaSource || compiled.text !== schemaText) {
+      if (schemaSource !== 'config') {
+        try {
+          schema = JSON.parse(schemaText);
+        } catch (error) {
+          this.staticJsonSchemaValidators.delete(value.key);
+          return { schema: schemaSource, errors: [{ path: '', message: `Schema is not valid JSON. ${String(error)}` }] };
+        }
+      }
+      try {
+        compiled = { source: schemaSource, text: schemaText, validate: compileJsonSchema(schema) };
+      } catch (error) {
+        compiled = { source: schemaSource, text: schemaText, error: `Invalid schema. ${String(error)}` };
+      }
+      this.staticJsonSchemaValidators.set(value.key, compiled);
+    }
+
+    const errors = compiled.validate ? compiled.validate(value.value) : [{ path: '', message: compiled.error as string }];
+    return errors.length > 0 ? { schema: schemaSource, errors } : undefined;
+  }
+
+  // ========== DEPENDENCY GRAPH ==========
+
+  /**
+   * Build the dependency graph between mappings, aliases and static JSON values
+   * by scanning mapping expressions for `$name` references (best-effort static analysis).
+   * User mappings, aliases and static JSON values come from cache; package mappings from FPE.
+   * @param options - Package filter for the package mappings included in the graph
+   */
+  async getDependencyGraph(options?: GetPackageMappingOptions): Promise<DependencyGraph> {
+    return DependencyGraph.build({
+      mappings: this.getUserMappings(),
+      packageMappings: await this.getPackageMappings(options),
+      aliasKeys: Object.keys(this.getAliases()),
+      staticJsonKeys: this.getStaticJsonValueKeys()
+    });
+  }
+
+  // ========== VALIDATION ==========
+
+  /**
+   * Cross-check every cached user mapping against the current mapping keys, aliases and static JSON values.
+   * Shadowed and invalid keys reflect the last full load (initialize, reload, forced resync)
+   * and incremental updates since then.
+   * @returns A report; `valid` is false when any mapping has a missing reference or an alias reference cannot be resolved
+   */
+  validate(options?: ValidateOptions): ValidationReport {
+    const knownNames = new Set<string>([
+      ...this.userMappingsCache.keys(),
+      ...this.aliasesCacheWithMetadata.keys(),
+      ...this.staticJsonValuesCache.keys(),
+      ...(this.config.validation?.ignoreReferences ?? []),
+      ...(options?.ignoreReferences ?? [])
+    ]);
+    const missingReferences = findMissingReferences(this.getUserMappings(), knownNames);
+
+    const diagnostics = this.userProvider?.getLoadDiagnostics() ?? { shadowedKeys: [], invalidKeys: [] };
+    // Drop shadowing recorded for entries whose winner has changed since
+    const shadowedKeys = diagnostics.shadowedKeys.filter(entry => {
+      const current = entry.type === 'mapping'
+        ? this.getLatestUserMapping(entry.key)
+        : this.staticJsonValuesCache.get(entry.key);
+      return current?.source === entry.source;
+    });
+
+    const aliasReferenceErrors: AliasReferenceError[] = [];
+    for (const [key, entry] of this.aliasesCacheWithMetadata.entries()) {
+      if (entry.referenceError) {
+        aliasReferenceErrors.push({ key, source: entry.source, reason: entry.referenceError });
+      }
+    }
+
+    return {
+      valid: missingReferences.length === 0 && aliasReferenceErrors.length === 0,
+      missingReferences,
+      aliasReferenceErrors,
+      shadowedKeys: [...shadowedKeys, ...this.getShadowedAliasKeys()],
+      invalidKeys: [...diagnostics.invalidKeys, ...Array.from(this.aliasInvalidKeys.values()).flat()]
+    };
+  }
+
+  private validateAfterPoll(trigger: ChangeTrigger): void {
+    if (!this.config.validation?.afterPoll) {
+      return;
+    }
+
+    const report = this.validate();
+    const serialized = JSON.stringify(report);
+    if (serialized === this.lastValidationReport) {
+      return;
+    }
+    this.lastValidationReport = serialized;
+
+    if (report.missingReferences.length > 0) {
+      this.logger?.warn?.(
+        `Validation found ${report.missingReferences.length} missing reference(s): ` +
+          report.missingReferences.map(r => `'${r.mappingKey}' -> $${r.name}`).join(', ')
+      );
+    }
+    if (report.aliasReferenceErrors.length > 0) {
+      this.logger?.warn?.(
+        `Validation found ${report.aliasReferenceErrors.length} unresolved alias reference(s): ` +
+          report.aliasReferenceErrors.map(e => `'${e.key}' (${e.reason})`).join(', ')
+      );
+    }
+    this.emit('validationReport', { trigger, report });
+  }
+
+  private getShadowedAliasKeys(): ShadowedKey[] {
+    const result: ShadowedKey[] = [];
+    for (const [key, entry] of this.aliasesCacheWithMetadata.entries()) {
+      // Lowest precedence first
+      const chain: string[] = [];
+      if (Object.prototype.hasOwnProperty.call(builtInAliases, key)) {
+        chain.push('builtIn');
+      }
+      for (const server of this.fhirServers) {
+        if (Object.prototype.hasOwnProperty.call(server.aliases, key)) {
+          chain.push(this.getServerAliasSourceString(server));
+        }
+      }
+      if (Object.prototype.hasOwnProperty.call(this.environmentAliases, key)) {
+        chain.push(
+          ...[...(this.environmentAliasShadowedSources.get(key) ?? [])].reverse(),
+          this.environmentAliasSources.get(key) as string
+        );
+      }
+      if (entry.sourceType === 'file') {
+        chain.push(...[...(this.fileAliasShadowedSources.get(key) ?? [])].reverse(), entry.source);
+      }
+
+      if (chain.length > 1) {
+        result.push({
+          type: 'alias',
+          key,
+          source: entry.source,
+          shadowedSources: chain.slice(0, -1).reverse()
+        });
+      }
+    }
+    return result;
+  }
+
+  // ========== CHANGE EVENTS ==========
+
+  /**
+   * Subscribe to cache change events.
+   * Events fire only when a real difference is detected (unchanged entries never emit).
+   * @param event - The event name
+   * @param handler - Called synchronously after the cache was updated
+   * @returns A function that removes the subscription
+   */
+  on<E extends FumeMappingProviderEventName>(event: E, handler: FumeMappingProviderEventHandler<E>): () => void {
+    let handlers = this.eventHandlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.eventHandlers.set(event, handlers);
+    }
+    handlers.add(handler as (event: never) => void);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Unsubscribe a handler previously registered with `on()`.
+   */
+  off<E extends FumeMappingProviderEventName>(event: E, handler: FumeMappingProviderEventHandler<E>): void {
+    this.eventHandlers.get(event)?.delete(handler as (event: never) => void);
+  }
+
+  private emit<E extends FumeMappingProviderEventName>(event: E, payload: FumeMappingProviderEventMap[E]): void {
+    const handlers = this.eventHandlers.get(event);
+    if (!handlers || handlers.size === 0) {
+      return;
+    }
+
+    for (const handler of Array.from(handlers)) {
+      try {
+        (handler as FumeMappingProviderEventHandler<E>)(payload);
+      } catch (error) {
+        // A failing subscriber must never break cache maintenance
+        this.logger?.error?.(`Error in '${event}' event handler:`, error);
+      }
+    }
+  }
+
   // ========== PACKAGE MAPPING API ==========
 
   /**
    * Get all package mappings
-   * Always fresh from FPE (packages are immutable, FPE handles caching)
+   * Served from the package mapping index when enabled, otherwise fresh from FPE (FPE handles caching)
    */
   async getPackageMappings(options?: GetPackageMappingOptions): Promise<PackageMapping[]> {
     if (!this.packageProvider) {
@@ -324,6 +923,7 @@ export class FumeMappingProvider {
 
   /**
    * Get a package mapping by identifier (tries url, id, name in order)
+   * @throws AmbiguousPackageMappingError in strict mode when the identifier matches several mappings
    */
   async getPackageMapping(identifier: string, options?: GetPackageMappingOptions): Promise<PackageMapping | null> {
     /* istanbul ignore if */
@@ -331,7 +931,153 @@ export class FumeMappingProvider {
       return null;
     }
     
-    return await this.packageProvider.getMapping(identifier, options);
+    const mapping = await this.packageProvider.getMapping(identifier, options);
+    if (mapping || !identifier.includes('#')) {
+      return mapping;
+    }
+
+    // `<identifier>#<group>.<rule>` addresses one rule of a multi-rule mapping
+    const separator = identifier.lastIndexOf('#');
+    const parent = await this.packageProvider.getMapping(identifier.slice(0, separator), options);
+    return selectRule(parent ?? undefined, identifier.slice(separator + 1)) ?? null;
+  }
+
+  /**
+   * Get every package mapping matching an identifier by url, id or name, with its package and filename.
+   * Use this to inspect identifiers that are ambiguous across packages.
+   */
+  async resolvePackageMappingCandidates(
+    identifier: string,
+    options?: GetPackageMappingOptions
+  ): Promise<PackageMappingCandidate[]> {
+    if (!this.packageProvider) {
+      return [];
+    }
+
+    return await this.packageProvider.resolveCandidates(identifier, options);
+  }
+
+  /**
+   * Drop the package mapping index (rebuilt on next use).
+   * Only needed if packages change without the explorer's context packages changing.
+   */
+  invalidatePackageMappingIndex(): void {
+    this.packageProvider?.invalidateIndex();
+  }
+
+  // ========== EXPORT ==========
+
+  /**
+   * Export the cached user mappings (as StructureMaps), the merged file and server aliases (as a ConceptMap)
+   * and optionally static JSON values (as Binary resources) in one Bundle.
+   * Transaction entries are PUT by id, so the Bundle can be posted to any FHIR server.
+   */
+  exportBundle(options?: ExportBundleOptions): Bundle {
+    return buildExportBundle({
+      type: options?.type ?? 'transaction',
+      mappings: this.getUserMappings(),
+      aliases: options?.includeAliases !== false ? this.getExportableAliases() : undefined,
+      staticJsonValues: options?.includeStaticJson ? this.getStaticJsonValues() : undefined,
+      canonicalBaseUrl: this.getCanonicalBaseUrl(),
+      fhirVersion: options?.fhirVersion ?? this.getFhirVersion()
+    });
+  }
+
+  /**
+   * Build a FHIR NPM package (`.tgz`) with one StructureMap per user mapping and the alias ConceptMap,
+   * loadable by fhir-package-explorer (and so by `getPackageMapping`).
+   */
+  async buildPackage(options: BuildPackageOptions): Promise<BuildPackageResult> {
+    if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(options.name ?? '')) {
+      throw new Error(`Invalid package name '${options.name}'.`);
+    }
+    if (!/^[A-Za-z0-9][A-Za-z0-9.+-]*$/.test(options.version ?? '')) {
+      throw new Error(`Invalid package version '${options.version}'.`);
+    }
+
+    const fhirVersion = options.fhirVersion ?? fhirReleaseVersion(this.getFhirVersion());
+    const release = toFhirRelease(fhirVersion);
+    if (!release) {
+      throw new Error(`Unsupported FHIR version '${fhirVersion}'.`);
+    }
+
+    const canonicalBaseUrl = (options.canonical ?? this.getCanonicalBaseUrl()).replace(/\/+$/, '');
+    const manifest: PackageManifest = {
+      name: options.name,
+      version: options.version,
+      ...(options.description ? { description: options.description } : {}),
+      canonical: canonicalBaseUrl,
+      fhirVersions: [fhirVersion],
+      dependencies: { ...(options.dependencies ?? {}) }
+    };
+
+    const files = buildPackageFiles({
+      manifest,
+      mappings: this.getUserMappings(),
+      aliases: options.includeAliases !== false ? this.getExportableAliases() : undefined,
+      canonicalBaseUrl,
+      fhirVersion: release
+    });
+
+    const outputPath = path.resolve(options.outputPath ?? `${options.name}-${options.version}.tgz`);
+    await writeTarball(outputPath, files);
+    this.logger?.info?.(`Built package ${options.name}#${options.version} with ${files.size} file(s): ${outputPath}`);
+
+    return { path: outputPath, manifest, files: Array.from(files.keys()) };
+  }
+
+  /**
+   * File and server aliases merged (with their definitions and unresolved `${key}` references),
+   * without built-in aliases (they ship with the engine) and without the environment overlay:
+   * an overlaid key falls back to the file or server value it shadows, so artifacts stay environment-neutral
+   */
+  private getExportableAliases(): { aliases: AliasDefinitionObject; resourceId: string } {
+    const merged: AliasDefinitionObject = {};
+    for (const [key, entry] of this.buildAliasesCache(false, false).entries()) {
+      if (entry.sourceType !== 'builtIn') {
+        merged[key] = { value: entry.rawValue ?? entry.value, ...aliasDetailsOf(entry) };
+      }
+    }
+    return { aliases: merged, resourceId: this.getAliasResourceId() ?? DEFAULT_ALIAS_CONCEPT_MAP_ID };
+  }
+
+  /**
+   * Import FUME StructureMaps and alias ConceptMaps into the highest-precedence mappings folder.
+   * Each StructureMap becomes a mapping file named after its id; alias ConceptMaps are merged into `aliases.json`.
+   * Existing keys are handled by `onCollision` (default: 'skip'); 'overwrite' rewrites the file that serves the key.
+   * Caches are reloaded after a real import.
+   * @param source - A Bundle, a JSON file (Bundle or single resource) or a folder of JSON files
+   */
+  async importMappings(source: Bundle | string, options?: ImportMappingsOptions): Promise<ImportReport> {
+    const target = this.userProvider?.getTargetFolder();
+    if (!this.userProvider || !target) {
+      throw new Error('No mappings folder configured to import into.');
+    }
+
+    const userProvider = this.userProvider;
+    const dryRun = options?.dryRun === true;
+    const results = await importSources(
+      await collectImportSources(source, this.logger),
+      {
+        folder: target.path,
+        fileExtension: target.fileExtension,
+        existingFiles: new Map(this.getUserMappings().filter(m => m.sourceType === 'file').map(m => [m.key, m.source])),
+        isValidMappingKey: key => userProvider.isValidFileMappingKeyForPolling(key),
+        isValidAliasKey: key => FumeMappingProvider.ALIAS_KEY_REGEX.test(key)
+      },
+      options ?? {},
+      this.logger
+    );
+
+    const written = results.filter(r => ['created', 'overwritten', 'renamed'].includes(r.status));
+    if (!dryRun && written.length > 0) {
+      this.logger?.info?.(`Imported ${written.length} mapping(s)/alias(es) into ${target.path}`);
+      await this.refreshUserMappingsFromSources('manual');
+      await this.refreshAliasesFromSources('manual');
+      await this.primeFilePollingState();
+    }
+
+    return { targetFolder: target.path, dryRun, results };
   }
 
   // ========== ALIAS API ==========
@@ -362,18 +1108,22 @@ export class FumeMappingProvider {
       FumeMappingProvider.DEFAULT_FORCED_RESYNC_INTERVAL_MS
     );
 
-    if (fileInterval > 0 && this.config.mappingsFolder) {
-      this.filePollingTimer = setInterval(() => {
-        void this.pollFileMappings();
-      }, fileInterval);
-      this.filePollingTimer.unref?.();
+    if (this.mappingsFolders.length > 0) {
+      const fileWatchMode = this.config.fileWatchMode ?? 'poll';
+      const watching = fileWatchMode !== 'poll' && this.startFileWatchers(fileInterval);
+      if (fileWatchMode !== 'watch' || !watching) {
+        this.startFilePollingTimer(fileInterval);
+      }
     }
 
-    if (serverInterval > 0 && this.config.fhirClient) {
-      this.serverPollingTimer = setInterval(() => {
-        void this.pollServerResources();
-      }, serverInterval);
-      this.serverPollingTimer.unref?.();
+    for (const server of this.fhirServers) {
+      const interval = this.resolveInterval(server.source.pollingIntervalMs, serverInterval);
+      if (interval > 0) {
+        server.pollingTimer = setInterval(() => {
+          void this.pollServerResources(server);
+        }, interval);
+        server.pollingTimer.unref?.();
+      }
     }
 
     if (resyncInterval > 0) {
@@ -392,9 +1142,12 @@ export class FumeMappingProvider {
       clearInterval(this.filePollingTimer);
       this.filePollingTimer = undefined;
     }
-    if (this.serverPollingTimer) {
-      clearInterval(this.serverPollingTimer);
-      this.serverPollingTimer = undefined;
+    this.stopFileWatchers();
+    for (const server of this.fhirServers) {
+      if (server.pollingTimer) {
+        clearInterval(server.pollingTimer);
+        server.pollingTimer = undefined;
+      }
     }
     if (this.forcedResyncTimer) {
       clearInterval(this.forcedResyncTimer);
@@ -402,6 +1155,66 @@ export class FumeMappingProvider {
     }
   }
 
+  private startFilePollingTimer(interval: number): void {
+    if (interval <= 0 || this.filePollingTimer) {
+      return;
+    }
+
+    this.filePollingTimer = setInterval(() => {
+      void this.pollFileMappings('filePoll');
+    }, interval);
+    this.filePollingTimer.unref?.();
+  }
+
+  /**
+   * Watch all mappings folders. Events only schedule a (debounced) stat diff,
+   * so the incremental-update guarantees of file polling still hold.
+   * @returns false if a folder cannot be watched (no watchers are left running)
+   */
+  private startFileWatchers(fallbackPollingInterval: number): boolean {
+    for (const folder of this.mappingsFolders) {
+      try {
+        const watcher = watch(folder, { recursive: this.config.recursive === true, persistent: false }, () => {
+          this.scheduleFileWatchSync();
+        });
+        watcher.on('error', error => {
+          this.logger?.warn?.(`File watcher for '${folder}' failed; falling back to stat polling. ${String(error)}`);
+          this.stopFileWatchers();
+          this.startFilePollingTimer(fallbackPollingInterval);
+        });
+        this.fileWatchers.push(watcher);
+      } catch (error) {
+        this.logger?.warn?.(`Cannot watch mappings folder '${folder}'; falling back to stat polling. ${String(error)}`);
+        this.stopFileWatchers();
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private stopFileWatchers(): void {
+    for (const watcher of this.fileWatchers) {
+      watcher.close();
+    }
+    this.fileWatchers = [];
+    if (this.fileWatchDebounceTimer) {
+      clearTimeout(this.fileWatchDebounceTimer);
+      this.fileWatchDebounceTimer = undefined;
+    }
+  }
+
+  private scheduleFileWatchSync(): void {
+    if (this.fileWatchDebounceTimer) {
+      clearTimeout(this.fileWatchDebounceTimer);
+    }
+
+    this.fileWatchDebounceTimer = setTimeout(() => {
+      this.fileWatchDebounceTimer = undefined;
+      void this.pollFileMappings('fileWatch');
+    }, this.resolveInterval(this.config.fileWatchDebounceMs, FumeMappingProvider.DEFAULT_FILE_WATCH_DEBOUNCE_MS));
+    this.fileWatchDebounceTimer.unref?.();
+  }
+
   private resolveInterval(value: number | undefined, defaultValue: number): number {
     if (value === undefined || value === null) {
       return defaultValue;
@@ -409,7 +1222,7 @@ export class FumeMappingProvider {
     return value;
   }
 
-  private async refreshUserMappingsFromSources(trigger: 'initialize' | 'manual' | 'resync'): Promise<void> {
+  private async refreshUserMappingsFromSources(trigger: ChangeTrigger): Promise<void> {
     /* istanbul ignore if */
     if (!this.userProvider) {
       return;
@@ -420,60 +1233,113 @@ export class FumeMappingProvider {
     );
 
     const mappings = await this.userProvider.loadMappings();
-    this.applyMappingsIncrementally(mappings);
+    for (const server of this.fhirServers) {
+      server.mappingsMeta = this.userProvider.getServerMappingsMeta(server.source.label);
+    }
+    this.applyMappingsIncrementally(mappings, trigger);
 
     this.logger?.debug?.(`Loaded ${this.userMappingsCache.size} user mapping(s)`);
   }
 
-  private async refreshStaticJsonValuesFromSources(trigger: 'initialize' | 'manual' | 'resync'): Promise<void> {
-    if (!this.userProvider || !this.config.mappingsFolder) {
+  private async refreshStaticJsonValuesFromSources(trigger: ChangeTrigger): Promise<void> {
+    if (!this.userProvider || (this.mappingsFolders.length === 0 && this.fhirServers.length === 0)) {
       this.staticJsonValuesCache.clear();
       this.staticJsonRawCache.clear();
+      this.staticJsonIndexes.clear();
       return;
     }
 
     this.logger?.debug?.(
-      `${trigger === 'initialize' ? 'Loading' : 'Reloading'} static JSON values from file sources`
+      `${trigger === 'initialize' ? 'Loading' : 'Reloading'} static JSON values from sources`
     );
 
     const { values, rawByKey } = await this.userProvider.loadStaticJsonValuesWithRaw();
-    this.applyStaticJsonValuesIncrementally(values, rawByKey);
+    for (const key of Array.from(this.staticJsonValidationErrors.keys())) {
+      if (!values.has(key)) {
+        this.staticJsonValidationErrors.delete(key);
+      }
+    }
+    for (const key of Array.from(this.staticJsonSchemaValidators.keys())) {
+      if (!values.has(key)) {
+        this.staticJsonSchemaValidators.delete(key);
+      }
+    }
+    // Rejected values keep their last valid value (or stay out of the cache)
+    for (const [key, value] of Array.from(values.entries())) {
+      if (await this.acceptStaticJsonValue(value)) {
+        continue;
+      }
+      const lastValid = this.staticJsonValuesCache.get(key);
+      const lastValidRaw = this.staticJsonRawCache.get(key);
+      if (lastValid) {
+        values.set(key, lastValid);
+        if (lastValidRaw !== undefined) {
+          rawByKey.set(key, lastValidRaw);
+        } else {
+          rawByKey.delete(key);
+        }
+      } else {
+        values.delete(key);
+        rawByKey.delete(key);
+      }
+    }
+    this.applyStaticJsonValuesIncrementally(values, rawByKey, trigger);
 
     this.logger?.debug?.(`Loaded ${this.staticJsonValuesCache.size} static JSON value(s)`);
   }
 
-  private async refreshAliasesFromSources(trigger: 'initialize' | 'manual' | 'resync'): Promise<void> {
+  private async refreshAliasesFromSources(trigger: ChangeTrigger): Promise<void> {
     this.logger?.debug?.(
       `${trigger === 'initialize' ? 'Loading' : 'Reloading'} aliases from sources`
     );
 
-    if (this.aliasProvider) {
-      const { aliases, resourceId, meta } = await this.aliasProvider.loadAliasesWithMetadata();
-      this.serverAliases = this.filterInvalidAliases(aliases, 'server');
-      this.aliasResourceId = resourceId;
-      this.aliasResourceMeta = meta;
-
-      this.logger?.debug?.(
-        `Loaded ${Object.keys(this.serverAliases).length} server alias(es)` +
-          (this.aliasResourceId ? ` (ConceptMap id: ${this.aliasResourceId})` : '')
-      );
+    for (const server of this.fhirServers) {
+      await this.loadServerAliases(server);
     }
 
-    if (this.config.mappingsFolder) {
-      this.fileAliases = await this.loadFileAliases();
+    if (this.mappingsFolders.length > 0) {
+      const { aliases, sources, shadowedSources } = await this.loadFileAliases();
+      this.fileAliases = aliases;
+      this.fileAliasSources = sources;
+      this.fileAliasShadowedSources = shadowedSources;
       this.logger?.debug?.(`Loaded ${Object.keys(this.fileAliases).length} file alias(es)`);
+
+      if (this.aliasEnvironment) {
+        const overlay = await this.loadFileAliases(`aliases.${this.aliasEnvironment}.json`);
+        this.environmentAliases = overlay.aliases;
+        this.environmentAliasSources = overlay.sources;
+        this.environmentAliasShadowedSources = overlay.shadowedSources;
+        this.logger?.debug?.(
+          `Loaded ${Object.keys(this.environmentAliases).length} '${this.aliasEnvironment}' environment alias(es)`
+        );
+      }
     }
 
-    this.rebuildAliasesCacheIfChanged();
+    this.rebuildAliasesCacheIfChanged(trigger);
+  }
+
+  private async loadServerAliases(server: FhirServerState): Promise<void> {
+    const { aliases, definitions, resourceId, meta } = await server.aliasProvider.loadAliasesWithMetadata();
+    server.aliasResourceId = resourceId;
+    server.aliasResourceMeta = meta;
+    server.aliasDefinitions = definitions ?? {};
+    server.aliases = this.filterInvalidAliases(aliases, 'server', this.getServerAliasSourceString(server));
+
+    this.logger?.debug?.(
+      `Loaded ${Object.keys(server.aliases).length} server alias(es) from '${server.source.label}'` +
+        (server.aliasResourceId ? ` (ConceptMap id: ${server.aliasResourceId})` : '')
+    );
   }
 
-  private rebuildAliasesCacheIfChanged(): void {
+  private rebuildAliasesCacheIfChanged(trigger: ChangeTrigger): void {
     const nextCache = this.buildAliasesCache(false);
     if (this.areAliasCachesEqual(this.aliasesCacheWithMetadata, nextCache)) {
       return;
     }
 
+    const before = this.getAliasesWithMetadata();
     this.aliasesCacheWithMetadata = this.buildAliasesCache(true);
+    this.emit('aliasesChanged', { trigger, before, after: this.getAliasesWithMetadata() });
   }
 
   private areAliasCachesEqual(
@@ -488,7 +1354,7 @@ export class FumeMappingProvider {
       if (!other) {
         return false;
       }
-      if (entry.value !== other.value) {
+      if (entry.value !== other.value || entry.rawValue !== other.rawValue || entry.referenceError !== other.referenceError) {
         return false;
       }
       if (entry.sourceType !== other.sourceType) {
@@ -497,6 +1363,9 @@ export class FumeMappingProvider {
       if (entry.source !== other.source) {
         return false;
       }
+      if (entry.description !== other.description || entry.deprecated !== other.deprecated || entry.group !== other.group) {
+        return false;
+      }
     }
     return true;
   }
@@ -517,30 +1386,114 @@ export class FumeMappingProvider {
     if (existing.url !== incoming.url) {
       return false;
     }
+    if (existing.server !== incoming.server) {
+      return false;
+    }
 
-    return existing.expression === incoming.expression;
+    return existing.expression === incoming.expression && isDeepStrictEqual(existing.rules, incoming.rules);
   }
 
-  private applySingleMappingUpdate(key: string, mapping: UserMapping): void {
+  private applySingleMappingUpdate(key: string, mapping: UserMapping, trigger: ChangeTrigger): void {
+    const existing = this.getLatestUserMapping(key);
+    if (existing && this.mappingsEquivalent(existing, mapping)) {
+      return;
+    }
+
+    this.recordMappingHistory(key, mapping, existing, trigger);
+
+    const pin = this.mappingPins.get(key);
+    if (pin) {
+      pin.latest = mapping;
+      this.logger?.debug?.(`User mapping '${key}' changed but is pinned to version ${pin.version}`);
+      return;
+    }
+
+    this.serveUserMapping(key, mapping, trigger);
+  }
+
+  private removeUserMapping(key: string, trigger: ChangeTrigger, logMessage: string): void {
+    const existing = this.getLatestUserMapping(key);
+    if (existing) {
+      this.recordMappingHistory(key, null, existing, trigger);
+    }
+    for (const server of this.fhirServers) {
+      server.mappingsMeta.delete(key);
+    }
+    this.logger?.debug?.(logMessage);
+
+    const pin = this.mappingPins.get(key);
+    if (pin) {
+      pin.latest = null;
+      return;
+    }
+
+    this.serveUserMapping(key, null, trigger);
+  }
+
+  /**
+   * Put a mapping in the cache (or remove it, when null) and emit the matching change event
+   */
+  private serveUserMapping(key: string, mapping: UserMapping | null, trigger: ChangeTrigger): void {
     const existing = this.userMappingsCache.get(key);
-    const shouldUpdate = !existing || !this.mappingsEquivalent(existing, mapping);
 
-    if (shouldUpdate) {
-      this.userMappingsCache.set(key, mapping);
-      this.logger?.debug?.(`Updated user mapping: ${key}`);
+    if (!mapping) {
+      this.userMappingsCache.delete(key);
+      if (existing) {
+        this.emit('mappingRemoved', {
+          key,
+          sourceType: existing.sourceType,
+          trigger,
+          before: existing
+        });
+      }
+      return;
     }
+
+    if (existing && this.mappingsEquivalent(existing, mapping)) {
+      return;
+    }
+
+    this.userMappingsCache.set(key, mapping);
+    this.logger?.debug?.(`Updated user mapping: ${key}`);
+    this.emit(existing ? 'mappingUpdated' : 'mappingAdded', {
+      key,
+      sourceType: mapping.sourceType,
+      trigger,
+      before: existing,
+      after: mapping
+    });
+  }
+
+  private getLatestUserMapping(key: string): UserMapping | undefined {
+    const pin = this.mappingPins.get(key);
+    return pin ? pin.latest ?? undefined : this.userMappingsCache.get(key);
+  }
+
+  private recordMappingHistory(
+    key: string,
+    mapping: UserMapping | null,
+    previous: UserMapping | undefined,
+    trigger: ChangeTrigger
+  ): void {
+    if (!this.mappingHistory) {
+      return;
+    }
+
+    const versionId = mapping?.sourceType === 'server'
+      ? this.fhirServers.find(server => server.source.label === mapping.server)?.mappingsMeta.get(key)?.versionId
+      : undefined;
+    this.mappingHistory.record(key, mapping, previous, trigger, versionId);
   }
 
-  private applyMappingsIncrementally(mappings: Map<string, UserMapping>): void {
+  private applyMappingsIncrementally(mappings: Map<string, UserMapping>, trigger: ChangeTrigger): void {
     for (const [key, mapping] of mappings.entries()) {
-      this.applySingleMappingUpdate(key, mapping);
+      this.applySingleMappingUpdate(key, mapping, trigger);
     }
 
-    for (const key of Array.from(this.userMappingsCache.keys())) {
-      if (!mappings.has(key)) {
-        this.userMappingsCache.delete(key);
-        this.serverMappingsMeta.delete(key);
-        this.logger?.debug?.(`Removed user mapping from cache: ${key}`);
+    const keys = new Set([...this.userMappingsCache.keys(), ...this.mappingPins.keys()]);
+    for (const key of keys) {
+      if (!mappings.has(key) && this.getLatestUserMapping(key)) {
+        this.removeUserMapping(key, trigger, `Removed user mapping from cache: ${key}`);
       }
     }
   }
@@ -564,84 +1517,101 @@ export class FumeMappingProvider {
     return existingRaw === incomingRaw;
   }
 
-  private applySingleStaticJsonValueUpdate(key: string, value: StaticJsonValue, raw?: string): void {
+  private applySingleStaticJsonValueUpdate(
+    key: string,
+    value: StaticJsonValue,
+    raw: string | undefined,
+    trigger: ChangeTrigger
+  ): void {
     const existing = this.staticJsonValuesCache.get(key);
     const shouldUpdate = !existing || !this.staticJsonValuesEquivalent(existing, value, raw);
 
     if (shouldUpdate) {
       this.staticJsonValuesCache.set(key, value);
+      this.rebuildStaticJsonIndexes(key);
       this.logger?.debug?.(`Updated static JSON value: ${key}`);
     }
 
     if (raw !== undefined) {
       this.staticJsonRawCache.set(key, raw);
     }
+
+    if (shouldUpdate) {
+      this.emit('staticJsonValueChanged', {
+        key,
+        sourceType: value.sourceType,
+        trigger,
+        before: existing,
+        after: value
+      });
+    }
+  }
+
+  private removeStaticJsonValue(key: string, trigger: ChangeTrigger): void {
+    const existing = this.staticJsonValuesCache.get(key);
+    this.staticJsonValuesCache.delete(key);
+    this.staticJsonRawCache.delete(key);
+    this.staticJsonValidationErrors.delete(key);
+    this.staticJsonSchemaValidators.delete(key);
+    this.staticJsonIndexes.delete(key);
+    for (const server of this.fhirServers) {
+      server.staticJsonMeta.delete(key);
+    }
+
+    if (existing) {
+      this.logger?.debug?.(`Removed static JSON value from cache: ${key}`);
+      this.emit('staticJsonValueChanged', {
+        key,
+        sourceType: existing.sourceType,
+        trigger,
+        before: existing
+      });
+    }
   }
 
   private applyStaticJsonValuesIncrementally(
     values: Map<string, StaticJsonValue>,
-    rawByKey: Map<string, string>
+    rawByKey: Map<string, string>,
+    trigger: ChangeTrigger
   ): void {
     for (const [key, value] of values.entries()) {
       const raw = rawByKey.get(key);
-      this.applySingleStaticJsonValueUpdate(key, value, raw);
+      this.applySingleStaticJsonValueUpdate(key, value, raw, trigger);
     }
 
     for (const key of Array.from(this.staticJsonValuesCache.keys())) {
       if (!values.has(key)) {
-        this.staticJsonValuesCache.delete(key);
-        this.staticJsonRawCache.delete(key);
-        this.logger?.debug?.(`Removed static JSON value from cache: ${key}`);
+        this.removeStaticJsonValue(key, trigger);
       }
     }
   }
 
-
-
   private async primeFilePollingState(): Promise<void> {
-    if (!this.config.mappingsFolder || !this.userProvider) {
+    if (this.mappingsFolders.length === 0 || !this.userProvider) {
       return;
     }
 
     try {
-      const entries = await fs.readdir(this.config.mappingsFolder);
+      const files = await this.userProvider.listSourceFiles();
       this.filePollingState.clear();
 
-      for (const file of entries) {
-        const filePath = path.join(this.config.mappingsFolder, file);
-        const isAliasFile = file.toLowerCase() === FumeMappingProvider.ALIASES_FILENAME;
-        const isJson = file.toLowerCase().endsWith('.json') && !isAliasFile;
-        const isMappingFile = file.endsWith(this.config.fileExtension || '.fume');
+      for (const file of files) {
+        const isAliasFile = file.kind === 'aliases';
+        const isJson = file.kind === 'staticJson';
 
-        if (!isAliasFile && !isJson && !isMappingFile) {
-          continue;
-        }
-
-        const key = isAliasFile
-          ? 'aliases'
-          : path.basename(file, isJson ? '.json' : (this.config.fileExtension || '.fume'));
-
-        if (isJson && !this.userProvider.isValidStaticJsonValueKey(key)) {
-          continue;
-        }
-
-        if (isMappingFile && !this.userProvider.isValidFileMappingKeyForPolling(key)) {
-          continue;
-        }
-
-        const stat = await fs.stat(filePath);
-        this.filePollingState.set(filePath, {
+        const stat = await fs.stat(file.filePath);
+        this.filePollingState.set(file.filePath, {
           mtimeMs: stat.mtimeMs,
           size: stat.size,
-          key,
+          key: file.key,
           isJson,
           isAliasFile
         });
 
-        if (isJson && key) {
-          const raw = await this.userProvider.readStaticJsonValueRaw(key);
+        if (isJson && file.key) {
+          const raw = await this.userProvider.readStaticJsonValueRaw(file.key);
           if (raw !== null) {
-            this.staticJsonRawCache.set(key, raw);
+            this.staticJsonRawCache.set(file.key, raw);
           }
         }
       }
@@ -650,37 +1620,29 @@ export class FumeMappingProvider {
     }
   }
 
-  private async pollFileMappings(): Promise<void> {
-    if (this.filePollInProgress || !this.config.mappingsFolder || !this.userProvider) {
+  private async pollFileMappings(trigger: ChangeTrigger = 'filePoll'): Promise<void> {
+    if (this.mappingsFolders.length === 0 || !this.userProvider) {
+      return;
+    }
+
+    if (this.filePollInProgress) {
+      // Watch events must not be lost while a diff is running; rerun once it is done
+      if (trigger === 'fileWatch') {
+        this.fileWatchSyncPending = true;
+      }
       return;
     }
 
     this.filePollInProgress = true;
     try {
-      const entries = await fs.readdir(this.config.mappingsFolder);
+      const files = await this.userProvider.listSourceFiles();
       const currentFiles = new Map<string, { key: string; isJson: boolean; isAliasFile: boolean }>();
 
-      for (const file of entries) {
-        const filePath = path.join(this.config.mappingsFolder, file);
-        const isAliasFile = file.toLowerCase() === FumeMappingProvider.ALIASES_FILENAME;
-        const isJson = file.toLowerCase().endsWith('.json') && !isAliasFile;
-        const isMappingFile = file.endsWith(this.config.fileExtension || '.fume');
-
-        if (!isAliasFile && !isJson && !isMappingFile) {
-          continue;
-        }
-
-        const key = isAliasFile
-          ? 'aliases'
-          : path.basename(file, isJson ? '.json' : (this.config.fileExtension || '.fume'));
-
-        if (isJson && !this.userProvider.isValidStaticJsonValueKey(key)) {
-          continue;
-        }
-
-        if (isMappingFile && !this.userProvider.isValidFileMappingKeyForPolling(key)) {
-          continue;
-        }
+      for (const file of files) {
+        const { filePath, key } = file;
+        const isAliasFile = file.kind === 'aliases';
+        const isJson = file.kind === 'staticJson';
+        const isMappingFile = file.kind === 'mapping';
 
         currentFiles.set(filePath, { key, isJson, isAliasFile });
 
@@ -694,23 +1656,21 @@ export class FumeMappingProvider {
         const prev = this.filePollingState.get(filePath);
         if (!prev || prev.mtimeMs !== stat.mtimeMs || prev.size !== stat.size) {
           if (isAliasFile) {
-            await this.refreshAliasesFromSources('manual');
+            await this.refreshAliasesFromSources(trigger);
           } else if (isJson) {
             const raw = await this.userProvider.readStaticJsonValueRaw(key);
             const prevRaw = this.staticJsonRawCache.get(key);
-            if (raw !== null && raw !== prevRaw) {
-              this.staticJsonRawCache.set(key, raw);
-              await this.refreshStaticJsonValue(key);
+            // A rejected value is rechecked even when the file reverts to the cached content
+            if (raw !== null && (raw !== prevRaw || this.staticJsonValidationErrors.has(key))) {
+              // The raw cache is updated by the refresh itself, so the equivalence check sees the change
+              await this.refreshSingleStaticJsonValue(key, trigger);
             }
           } else if (isMappingFile) {
             const fileMapping = await this.userProvider.loadFileMapping(key);
             if (fileMapping) {
-              const existing = this.userMappingsCache.get(key);
-              if (!existing || !this.mappingsEquivalent(existing, fileMapping)) {
-                this.applySingleMappingUpdate(key, fileMapping);
-              }
+              this.applySingleMappingUpdate(key, fileMapping, trigger);
             } else {
-              await this.refreshUserMapping(key);
+              await this.refreshSingleUserMapping(key, trigger);
             }
           }
 
@@ -724,74 +1684,108 @@ export class FumeMappingProvider {
         }
       }
 
-      // Detect deletions
+      // Detect deletions (and files that moved to another path or were shadowed)
       for (const [filePath, prev] of Array.from(this.filePollingState.entries())) {
         if (!currentFiles.has(filePath)) {
           this.filePollingState.delete(filePath);
           if (prev.isAliasFile) {
-            await this.refreshAliasesFromSources('manual');
+            await this.refreshAliasesFromSources(trigger);
           } else if (prev.isJson) {
-            this.staticJsonValuesCache.delete(prev.key);
-            this.staticJsonRawCache.delete(prev.key);
+            await this.refreshSingleStaticJsonValue(prev.key, trigger);
           } else {
-            await this.refreshUserMapping(prev.key);
+            await this.refreshSingleUserMapping(prev.key, trigger);
           }
         }
       }
+
+      this.validateAfterPoll(trigger);
     } finally {
       this.filePollInProgress = false;
+      if (this.fileWatchSyncPending) {
+        this.fileWatchSyncPending = false;
+        this.scheduleFileWatchSync();
+      }
     }
   }
 
-  private async pollServerResources(): Promise<void> {
-    if (this.serverPollInProgress) {
+  private async pollServerResources(server: FhirServerState): Promise<void> {
+    if (server.pollInProgress) {
       return;
     }
 
-    this.serverPollInProgress = true;
+    server.pollInProgress = true;
     const pollStart = new Date().toISOString();
     try {
-      if (this.aliasProvider) {
-        if (this.aliasResourceId) {
-          const response = await this.aliasProvider.conditionalReadAliases(
-            this.aliasResourceId,
-            this.aliasResourceMeta || {}
-          );
-
-          if (response.status === 200 && response.aliases) {
-            this.serverAliases = this.filterInvalidAliases(response.aliases, 'server');
-            this.aliasResourceId = response.resourceId || this.aliasResourceId;
-            this.aliasResourceMeta = response.meta;
-            this.rebuildAliasesCacheIfChanged();
-          } else if (response.status === 404 || response.status === 410) {
-            if (!this.config.aliasConceptMapId) {
-              this.aliasResourceId = undefined;
-              this.aliasResourceMeta = undefined;
-            }
-            await this.refreshAliasesFromSources('manual');
+      if (server.aliasResourceId) {
+        const response = await server.aliasProvider.conditionalReadAliases(
+          server.aliasResourceId,
+          server.aliasResourceMeta || {}
+        );
+
+        if (response.status === 200 && response.aliases) {
+          server.aliasResourceId = response.resourceId || server.aliasResourceId;
+          server.aliasResourceMeta = response.meta;
+          server.aliasDefinitions = response.definitions ?? {};
+          server.aliases = this.filterInvalidAliases(response.aliases, 'server', this.getServerAliasSourceString(server));
+          this.rebuildAliasesCacheIfChanged('serverPoll');
+        } else if (response.status === 404 || response.status === 410) {
+          if (!server.source.aliasConceptMapId) {
+            server.aliasResourceId = undefined;
+            server.aliasResourceMeta = undefined;
           }
-        } else {
-          await this.refreshAliasesFromSources('manual');
+          await this.loadServerAliases(server);
+          this.rebuildAliasesCacheIfChanged('serverPoll');
         }
+      } else {
+        await this.loadServerAliases(server);
+        this.rebuildAliasesCacheIfChanged('serverPoll');
       }
 
-      if (this.userProvider && this.config.fhirClient) {
-        const { mappings, metaByKey } = await this.userProvider.searchServerMappings(this.lastServerPollAt);
+      if (this.userProvider) {
+        const { mappings, metaByKey } = await this.userProvider.searchServerMappings(server.lastPollAt, server.source.label);
+        const rank = this.fhirServers.indexOf(server);
         for (const [key, mapping] of mappings.entries()) {
           const meta = metaByKey.get(key);
           if (meta) {
-            this.serverMappingsMeta.set(key, meta);
+            server.mappingsMeta.set(key, meta);
+          }
+
+          // Files and higher-precedence servers keep winning
+          const existing = this.getLatestUserMapping(key);
+          if (existing?.sourceType === 'file' || (existing && this.getServerRank(existing.server) > rank)) {
+            continue;
+          }
+          this.applySingleMappingUpdate(key, mapping, 'serverPoll');
+        }
+
+        const staticJson = await this.userProvider.searchServerStaticJsonValues(server.lastPollAt, server.source.label);
+        for (const [key, value] of staticJson.values.entries()) {
+          const meta = staticJson.metaByKey.get(key);
+          if (meta) {
+            server.staticJsonMeta.set(key, meta);
+          }
+
+          const existing = this.staticJsonValuesCache.get(key);
+          if (existing?.sourceType === 'file' || (existing && this.getServerRank(existing.server) > rank)) {
+            continue;
+          }
+          if (await this.acceptStaticJsonValue(value)) {
+            this.applySingleStaticJsonValueUpdate(key, value, staticJson.rawByKey.get(key), 'serverPoll');
           }
-          this.applySingleMappingUpdate(key, mapping);
         }
       }
 
-      this.lastServerPollAt = pollStart;
+      server.lastPollAt = pollStart;
+      this.validateAfterPoll('serverPoll');
     } finally {
-      this.serverPollInProgress = false;
+      server.pollInProgress = false;
     }
   }
 
+  private getServerRank(label: string | undefined): number {
+    return this.fhirServers.findIndex(server => server.source.label === label);
+  }
+
   private async forcedResync(): Promise<void> {
     if (this.resyncInProgress) {
       return;
@@ -803,17 +1797,94 @@ export class FumeMappingProvider {
       await this.refreshStaticJsonValuesFromSources('resync');
       await this.refreshAliasesFromSources('resync');
       await this.primeFilePollingState();
+      this.validateAfterPoll('resync');
     } finally {
       this.resyncInProgress = false;
     }
   }
 
+  /**
+   * Publish aliases to the server alias ConceptMap.
+   * The ConceptMap is rebuilt from the chosen layers only (file > builtIn), so aliases that exist only on
+   * the server are removed unless `keepServerAliases` merges the layers over them (file > server > builtIn).
+   * It is written to the existing ConceptMap, which is created with the FUME useContext if missing.
+   * If the ConceptMap changed since it was last synced, the publish is reported as a conflict.
+   * @param options - Alias layers to include, whether to keep server aliases, dry run and target server
+   */
+  async publishAliases(options?: PublishAliasesOptions): Promise<PublishAliasesReport> {
+    const server = this.getPublishTarget(options?.server);
+    const dryRun = options?.dryRun === true;
+    const include = options?.include ?? ['file'];
+
+    const loaded = await server.aliasProvider.loadAliasesWithMetadata();
+    const aliases: AliasObject = {
+      ...(include.includes('builtIn') ? builtInAliases : {}),
+      ...(options?.keepServerAliases === true ? loaded.aliases : {}),
+      ...(include.includes('file') ? this.fileAliases : {})
+    };
+
+    const result = await publishAliasConceptMap(
+      server.source.fhirClient,
+      aliases,
+      loaded.resource,
+      {
+        dryRun,
+        canonicalBaseUrl: this.getCanonicalBaseUrl(),
+        fhirVersion: this.getFhirVersion(server.source.label),
+        expectedVersionId: server.aliasResourceId && server.aliasResourceId === loaded.resourceId
+          ? server.aliasResourceMeta?.versionId
+          : undefined,
+        resourceId: server.source.aliasConceptMapId
+      },
+      this.logger
+    );
+
+    if (!dryRun && result.resource && (result.status === 'created' || result.status === 'updated')) {
+      server.aliasResourceId = result.resource.id;
+      server.aliasResourceMeta = {
+        versionId: result.resource.meta?.versionId,
+        lastUpdated: result.resource.meta?.lastUpdated
+      };
+      server.aliasDefinitions = conceptMapToAliasDefinitions(result.resource, this.logger);
+      server.aliases = this.filterInvalidAliases(aliases, 'server', this.getServerAliasSourceString(server));
+      this.rebuildAliasesCacheIfChanged('manual');
+    }
+
+    return {
+      server: server.source.label,
+      dryRun,
+      status: result.status,
+      resourceId: result.resourceId,
+      versionId: result.versionId,
+      message: result.message,
+      aliases
+    };
+  }
+
   /**
    * Get the ConceptMap resource id used for server aliases (if loaded).
    * Downstream consumers can use this id to update the alias ConceptMap.
+   * @param serverLabel - The FHIR server label (default: the highest-precedence server with an alias ConceptMap)
+   */
+  getAliasResourceId(serverLabel?: string): string | undefined {
+    if (serverLabel !== undefined) {
+      return this.fhirServers.find(server => server.source.label === serverLabel)?.aliasResourceId;
+    }
+    return [...this.fhirServers].reverse().find(server => server.aliasResourceId)?.aliasResourceId;
+  }
+
+  /**
+   * Get the environment whose alias overlay (`aliases.<env>.json`) is loaded, if any.
    */
-  getAliasResourceId(): string | undefined {
-    return this.aliasResourceId;
+  getAliasEnvironment(): string | undefined {
+    return this.aliasEnvironment;
+  }
+
+  /**
+   * Get the labels of the configured FHIR servers, lowest precedence first.
+   */
+  getFhirServerLabels(): string[] {
+    return this.fhirServerSources.map(source => source.label);
   }
 
   
@@ -841,10 +1912,9 @@ export class FumeMappingProvider {
     return out;
   }
 
-  private getServerAliasSourceString(): string {
-    const baseUrl = this.config.fhirClient?.getBaseUrl?.();
-    const normalizedBase = (typeof baseUrl === 'string' ? baseUrl : '').replace(/\/$/, '');
-    const id = this.aliasResourceId;
+  private getServerAliasSourceString(server: FhirServerState): string {
+    const normalizedBase = getNormalizedBaseUrl(server.source.fhirClient);
+    const id = server.aliasResourceId;
     if (normalizedBase && id) {
       return `${normalizedBase}/ConceptMap/${id}`;
     }
@@ -854,13 +1924,36 @@ export class FumeMappingProvider {
     return 'server';
   }
 
-  private async loadFileAliases(): Promise<AliasObject> {
-    if (!this.config.mappingsFolder) {
-      return {};
+  /**
+   * Load aliases.json (or an alias overlay) from every mappings folder; later folders override earlier ones key-by-key.
+   */
+  private async loadFileAliases(filename: string = FumeMappingProvider.ALIASES_FILENAME): Promise<{
+    aliases: AliasObject;
+    sources: Map<string, string>;
+    shadowedSources: Map<string, string[]>;
+  }> {
+    const aliases: AliasObject = {};
+    const sources = new Map<string, string>();
+    const shadowedSources = new Map<string, string[]>();
+
+    for (const folder of this.mappingsFolders) {
+      // Requirement: absolute path
+      const aliasesPath = path.resolve(folder, filename);
+      for (const [key, value] of Object.entries(await this.loadAliasesFile(aliasesPath))) {
+        const overridden = sources.get(key);
+        if (overridden) {
+          shadowedSources.set(key, [overridden, ...(shadowedSources.get(key) ?? [])]);
+        }
+        aliases[key] = value;
+        sources.set(key, aliasesPath);
+      }
     }
 
-    const aliasesPath = path.resolve(this.config.mappingsFolder, FumeMappingProvider.ALIASES_FILENAME);
+    return { aliases, sources, shadowedSources };
+  }
 
+  private async loadAliasesFile(aliasesPath: string): Promise<AliasObject> {
+    this.aliasInvalidKeys.delete(aliasesPath);
     try {
       await fs.stat(aliasesPath);
     } catch (_error) {
@@ -890,11 +1983,18 @@ export class FumeMappingProvider {
     }
 
     const result: AliasObject = {};
+    const invalidKeys: InvalidKey[] = [];
     for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
       if (!FumeMappingProvider.ALIAS_KEY_REGEX.test(key)) {
         this.logger?.warn?.(
           `Invalid ${aliasesPath}: alias key '${key}' is invalid (must match ${FumeMappingProvider.ALIAS_KEY_REGEX}); skipping.`
         );
+        invalidKeys.push({
+          type: 'alias',
+          key,
+          source: aliasesPath,
+          reason: `Alias keys must match ${FumeMappingProvider.ALIAS_KEY_REGEX}.`
+        });
         continue;
       }
       if (typeof value !== 'string') {
@@ -904,14 +2004,24 @@ export class FumeMappingProvider {
       result[key] = value;
     }
 
+    if (invalidKeys.length > 0) {
+      this.aliasInvalidKeys.set(aliasesPath, invalidKeys);
+    }
     return result;
   }
 
-  private filterInvalidAliases(aliases: AliasObject, sourceLabel: 'server' | 'file'): AliasObject {
+  private filterInvalidAliases(aliases: AliasObject, sourceLabel: 'server' | 'file', source: string): AliasObject {
     const result: AliasObject = {};
+    const invalidKeys: InvalidKey[] = [];
     for (const [key, value] of Object.entries(aliases)) {
       if (!FumeMappingProvider.ALIAS_KEY_REGEX.test(key)) {
         this.logger?.warn?.(`Invalid ${sourceLabel} alias key '${key}' ignored (must match ${FumeMappingProvider.ALIAS_KEY_REGEX}).`);
+        invalidKeys.push({
+          type: 'alias',
+          key,
+          source,
+          reason: `Alias keys must match ${FumeMappingProvider.ALIAS_KEY_REGEX}.`
+        });
         continue;
       }
       if (typeof value !== 'string') {
@@ -920,22 +2030,25 @@ export class FumeMappingProvider {
       }
       result[key] = value;
     }
-    return result;
-  }
 
-  private getFileAliasSourceString(): string {
-    if (!this.config.mappingsFolder) {
-      return 'file';
+    if (invalidKeys.length > 0) {
+      this.aliasInvalidKeys.set(source, invalidKeys);
+    } else {
+      this.aliasInvalidKeys.delete(source);
     }
-    // Requirement: absolute path
-    return path.resolve(this.config.mappingsFolder, FumeMappingProvider.ALIASES_FILENAME);
+    return result;
   }
 
   private rebuildAliasesCache(): void {
     this.aliasesCacheWithMetadata = this.buildAliasesCache(true);
   }
 
-  private buildAliasesCache(logCollisions: boolean): Map<string, AliasWithMetadata> {
+  /**
+   * Merge the alias layers (file > environment > server > builtIn) and resolve `${key}` references.
+   * @param logCollisions - Warn about overrides and reference errors
+   * @param includeEnvironment - Include the `aliases.<env>.json` overlay (default: true)
+   */
+  private buildAliasesCache(logCollisions: boolean, includeEnvironment = true): Map<string, AliasWithMetadata> {
     const merged = new Map<string, AliasWithMetadata>();
 
     // Built-in
@@ -947,18 +2060,33 @@ export class FumeMappingProvider {
       });
     }
 
-    // Server (overrides built-in)
-    const serverSource = this.getServerAliasSourceString();
-    for (const [key, value] of Object.entries(this.serverAliases)) {
+    // Servers (override built-in; higher precedence overrides lower)
+    for (const server of this.fhirServers) {
+      const serverSource = this.getServerAliasSourceString(server);
+      for (const [key, value] of Object.entries(server.aliases)) {
+        const existing = merged.get(key);
+        if (existing?.sourceType === 'server' && logCollisions) {
+          this.logger?.warn?.(`Server alias '${key}' from '${server.source.label}' overrides server alias from ${existing.source}`);
+        }
+        merged.set(key, {
+          value,
+          sourceType: 'server',
+          source: serverSource,
+          ...aliasDetailsOf(server.aliasDefinitions[key])
+        });
+      }
+    }
+
+    // Environment overlay (overrides server)
+    for (const [key, value] of Object.entries(includeEnvironment ? this.environmentAliases : {})) {
       merged.set(key, {
         value,
-        sourceType: 'server',
-        source: serverSource
+        sourceType: 'environment',
+        source: this.environmentAliasSources.get(key) ?? 'environment'
       });
     }
 
-    // File (overrides server; warn on collision)
-    const fileSource = this.getFileAliasSourceString();
+    // File (overrides environment and server; warn on collision with server)
     for (const [key, value] of Object.entries(this.fileAliases)) {
       const existing = merged.get(key);
       if (existing?.sourceType === 'server') {
@@ -969,7 +2097,25 @@ export class FumeMappingProvider {
       merged.set(key, {
         value,
         sourceType: 'file',
-        source: fileSource
+        source: this.fileAliasSources.get(key) ?? 'file'
+      });
+    }
+
+    // `${key}` references resolve against the merged aliases, so an override also applies to referencing aliases
+    const { resolved, errors } = resolveAliasReferences(new Map(Array.from(merged, ([key, entry]) => [key, entry.value])));
+    for (const [key, entry] of merged) {
+      if (!hasAliasReferences(entry.value)) {
+        continue;
+      }
+      const referenceError = errors.get(key);
+      if (referenceError && logCollisions) {
+        this.logger?.warn?.(`Alias '${key}' from ${entry.source}: ${referenceError}`);
+      }
+      merged.set(key, {
+        ...entry,
+        value: resolved.get(key) ?? entry.value,
+        rawValue: entry.value,
+        ...(referenceError ? { referenceError } : {})
       });
     }
 
@@ -984,6 +2130,21 @@ export class FumeMappingProvider {
     return this.config.canonicalBaseUrl || FumeMappingProvider.DEFAULT_CANONICAL_BASE_URL;
   }
 
+  /**
+   * Get the FHIR release of generated StructureMaps and ConceptMaps: the configured `fhirVersion`,
+   * otherwise the release detected on a server (default: the highest-precedence one), otherwise 'R4'.
+   * @param server - Label of the FHIR server
+   */
+  getFhirVersion(server?: string): SupportedFhirRelease {
+    if (this.config.fhirVersion) {
+      return this.config.fhirVersion;
+    }
+    if (server === undefined && this.fhirServers.length === 0) {
+      return FumeMappingProvider.DEFAULT_FHIR_VERSION;
+    }
+    return this.getPublishTarget(server).fhirVersion ?? FumeMappingProvider.DEFAULT_FHIR_VERSION;
+  }
+
   // ========== CONVERTERS ==========
 
   /**
@@ -996,16 +2157,25 @@ export class FumeMappingProvider {
   }
 
   /**
-   * Transform an alias object into a ConceptMap resource
-   * @param aliases - The alias object
-   * @param existingConceptMap - Optional existing ConceptMap to update
+   * Transform a ConceptMap resource into alias definitions (value, description, deprecation flag, group)
+   * @param conceptMap - The ConceptMap resource
+   * @returns Alias definitions by key
+   */
+  conceptMapToAliasDefinitions(conceptMap: ConceptMap): AliasDefinitionObject {
+    return conceptMapToAliasDefinitions(conceptMap, this.logger);
+  }
+
+  /**
+   * Transform an alias object (or alias definitions) into a ConceptMap resource (in the layout of `getFhirVersion()`)
+   * @param aliases - The alias object or alias definitions (values may mix both)
+   * @param existingConceptMap - Optional existing ConceptMap to update in place (its documentation is kept)
    * @returns A ConceptMap resource
    */
   aliasObjectToConceptMap(
-    aliases: AliasObject,
+    aliases: Record<string, string | AliasDefinition>,
     existingConceptMap?: ConceptMap
   ): ConceptMap {
-    return aliasObjectToConceptMap(aliases, this.getCanonicalBaseUrl(), existingConceptMap);
+    return aliasObjectToConceptMap(aliases, this.getCanonicalBaseUrl(), existingConceptMap, this.getFhirVersion());
   }
 
   /**
@@ -1018,15 +2188,67 @@ export class FumeMappingProvider {
   }
 
   /**
-   * Create a StructureMap resource from a FUME expression
+   * Extract every FUME expression from a StructureMap resource, with group and rule names
+   * @param structureMap - The StructureMap resource
+   * @returns One entry per FUME rule
+   */
+  structureMapToExpressions(structureMap: StructureMap): FumeRuleExpression[] {
+    return structureMapToExpressions(structureMap);
+  }
+
+  /**
+   * Create a StructureMap resource from a FUME expression, or from named expressions ('rule' or 'group.rule'),
+   * in the layout of `getFhirVersion()`
    * @param mappingId - The mapping identifier
-   * @param expression - The FUME expression
+   * @param expression - The FUME expression, or a map of rule names to expressions
    * @returns A StructureMap resource
    */
   expressionToStructureMap(
     mappingId: string,
-    expression: string
+    expression: string | Record<string, string>
   ): StructureMap {
-    return expressionToStructureMap(mappingId, expression, this.getCanonicalBaseUrl());
+    return expressionToStructureMap(mappingId, expression, this.getCanonicalBaseUrl(), this.getFhirVersion());
   }
+
+  /**
+   * Update the FUME expression(s) of an existing StructureMap, leaving every other element untouched
+   * @param structureMap - The existing StructureMap resource (not modified)
+   * @param expression - The new expression of the first FUME rule, or new expressions by rule ('group.rule')
+   * @param options - `updateDate`: also set `date` when an expression changed (default: false)
+   * @returns The updated copy
+   */
+  updateStructureMapExpression(
+    structureMap: StructureMap,
+    expression: string | Record<string, string>,
+    options?: { updateDate?: boolean }
+  ): StructureMap {
+    return updateStructureMapExpression(structureMap, expression, options);
+  }
+}
+
+/**
+ * One rule of a multi-rule mapping, served as a mapping of its own
+ */
+function selectRule<T extends { expression: string; rules?: FumeRuleExpression[] }>(
+  parent: T | undefined,
+  ruleRef: string
+): T | undefined {
+  const rule = parent?.rules ? findRuleExpression(parent.rules, ruleRef) : undefined;
+  if (!parent || !rule) {
+    return undefined;
+  }
+  const subMapping = { ...parent, expression: rule.expression };
+  delete subMapping.rules;
+  return subMapping;
+}
+
+/**
+ * The description, deprecation flag and group of an alias (only those that are set)
+ */
+function aliasDetailsOf(definition: AliasDetails | undefined): AliasDetails {
+  return {
+    ...(definition?.description !== undefined ? { description: definition.description } : {}),
+    ...(definition?.deprecated !== undefined ? { deprecated: definition.deprecated } : {}),
+    ...(definition?.group !== undefined ? { group: definition.group } : {})
+  };
 }
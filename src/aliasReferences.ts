@@ -0,0 +1,74 @@
+/**
+ * An alias value reference: `${key}` (alias keys are letters, digits and underscores)
+ */
+const ALIAS_REFERENCE_REGEX = /\$\{([A-Za-z0-9_]+)\}/g;
+
+/**
+ * True if the alias value references other aliases
+ */
+export function hasAliasReferences(value: string): boolean {
+  return new RegExp(ALIAS_REFERENCE_REGEX.source).test(value);
+}
+
+/**
+ * Resolve `${key}` references between alias values.
+ * Values are resolved recursively; an alias that references an unknown alias, is part of a cycle
+ * or references an alias that cannot be resolved gets an error instead of a resolved value.
+ * @param values - Raw alias values by key (after precedence is applied)
+ * @returns Resolved values of aliases with references, and errors by key
+ */
+export function resolveAliasReferences(values: Map<string, string>): { resolved: Map<string, string>; errors: Map<string, string> } {
+  const resolved = new Map<string, string>();
+  const errors = new Map<string, string>();
+
+  const resolve = (key: string, path: string[]): string | undefined => {
+    if (resolved.has(key) || errors.has(key)) {
+      return resolved.get(key);
+    }
+
+    const cycleStart = path.indexOf(key);
+    if (cycleStart >= 0) {
+      const cycle = [...path.slice(cycleStart), key];
+      for (const member of path.slice(cycleStart)) {
+        errors.set(member, `Circular alias reference: ${cycle.join(' -> ')}`);
+      }
+      return undefined;
+    }
+
+    let failed = false;
+    const value = (values.get(key) as string).replace(ALIAS_REFERENCE_REGEX, (reference, name: string) => {
+      if (failed) {
+        return reference;
+      }
+      if (!values.has(name)) {
+        errors.set(key, `Unknown alias '${name}' referenced`);
+        failed = true;
+        return reference;
+      }
+      const referenced = resolve(name, [...path, key]);
+      if (referenced === undefined) {
+        // Members of a cycle already carry the cycle error
+        if (!errors.has(key)) {
+          errors.set(key, `Referenced alias '${name}' cannot be resolved`);
+        }
+        failed = true;
+        return reference;
+      }
+      return referenced;
+    });
+
+    if (failed || errors.has(key)) {
+      return undefined;
+    }
+    resolved.set(key, value);
+    return value;
+  };
+
+  for (const [key, value] of values) {
+    if (hasAliasReferences(value)) {
+      resolve(key, []);
+    }
+  }
+
+  return { resolved, errors };
+}
@@ -0,0 +1,56 @@
+import type { Bundle, Resource } from '@outburn/types';
+import { AliasDefinitionObject, AliasObject, StaticJsonValue, SupportedFhirRelease, UserMapping } from './types';
+import { aliasObjectToConceptMap, expressionToStructureMap, mappingToExpressions } from './converters';
+
+/**
+ * Default id of the alias ConceptMap in exported bundles (matches its canonical URL)
+ */
+export const DEFAULT_ALIAS_CONCEPT_MAP_ID = 'fume-global-aliases';
+
+/**
+ * Build a Bundle of StructureMaps (one per mapping), an alias ConceptMap and Binary resources
+ * for static JSON values. Transaction entries are PUT by id so the Bundle can be posted to any server.
+ */
+export function buildExportBundle(sources: {
+  type: 'transaction' | 'collection';
+  mappings: UserMapping[];
+  aliases?: { aliases: AliasObject | AliasDefinitionObject; resourceId: string };
+  staticJsonValues?: StaticJsonValue[];
+  canonicalBaseUrl: string;
+  fhirVersion: SupportedFhirRelease;
+}): Bundle {
+  const resources: Resource[] = [];
+
+  for (const mapping of [...sources.mappings].sort((a, b) => a.key.localeCompare(b.key))) {
+    resources.push(expressionToStructureMap(mapping.key, mappingToExpressions(mapping), sources.canonicalBaseUrl, sources.fhirVersion));
+  }
+
+  if (sources.aliases) {
+    resources.push({
+      ...aliasObjectToConceptMap(sources.aliases.aliases, sources.canonicalBaseUrl, undefined, sources.fhirVersion),
+      id: sources.aliases.resourceId
+    });
+  }
+
+  for (const value of [...(sources.staticJsonValues ?? [])].sort((a, b) => a.key.localeCompare(b.key))) {
+    resources.push({
+      resourceType: 'Binary',
+      id: value.key,
+      // Tagged so that servers the Bundle is posted to serve it back as a static JSON value
+      meta: { tag: [{ system: 'http://codes.fume.health', code: 'fume' }] },
+      contentType: 'application/json',
+      data: Buffer.from(JSON.stringify(value.value), 'utf-8').toString('base64')
+    });
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: sources.type,
+    entry: resources.map(resource => ({
+      resource,
+      ...(sources.type === 'transaction'
+        ? { request: { method: 'PUT', url: `${resource.resourceType}/${resource.id}` } }
+        : {})
+    }))
+  };
+}
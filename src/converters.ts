@@ -1,8 +1,33 @@
-import { StructureMap, ConceptMap, AliasObject } from './types';
+import { StructureMap, ConceptMap, AliasObject, AliasDefinition, AliasDefinitionObject, FumeRuleExpression, SupportedFhirRelease } from './types';
 import { Logger } from '@outburn/types';
 
 const DEFAULT_CANONICAL_BASE = 'http://example.com';
 const FUME_EXPRESSION_EXTENSION_URL = 'http://fhir.fume.health/StructureDefinition/mapping-expression';
+const ALIAS_DEPRECATED_EXTENSION_URL = 'http://fhir.fume.health/StructureDefinition/alias-deprecated';
+const DEFAULT_GROUP_NAME = 'fumeMapping';
+const DEFAULT_RULE_NAME = 'evaluate';
+const DEFAULT_FHIR_RELEASE: SupportedFhirRelease = 'R4';
+
+// R4 ConceptMap equivalence -> R5 relationship, and back
+const EQUIVALENCE_TO_RELATIONSHIP: Record<string, string> = {
+  equivalent: 'equivalent',
+  equal: 'equivalent',
+  wider: 'source-is-narrower-than-target',
+  subsumes: 'source-is-narrower-than-target',
+  narrower: 'source-is-broader-than-target',
+  specializes: 'source-is-broader-than-target',
+  relatedto: 'related-to',
+  inexact: 'related-to',
+  unmatched: 'not-related-to',
+  disjoint: 'not-related-to'
+};
+const RELATIONSHIP_TO_EQUIVALENCE: Record<string, string> = {
+  equivalent: 'equivalent',
+  'source-is-narrower-than-target': 'wider',
+  'source-is-broader-than-target': 'narrower',
+  'related-to': 'relatedto',
+  'not-related-to': 'disjoint'
+};
 
 /**
  * Extracts the FUME expression from a StructureMap resource
@@ -36,16 +61,107 @@ export function structureMapToExpression(structureMap: StructureMap): string | n
 }
 
 /**
- * Creates a StructureMap resource from a FUME expression
+ * Extracts every FUME expression from a StructureMap resource, in group and rule order
+ * @param structureMap - The StructureMap resource
+ * @returns One entry per FUME rule, with its sub-mapping key `<id>#<group>.<rule>`
+ * (unnamed groups and rules are addressed by their position)
+ */
+export function structureMapToExpressions(structureMap: StructureMap): FumeRuleExpression[] {
+  return findFumeRules(structureMap).map(({ ruleRef, group, rule, extension }) => ({
+    key: `${structureMap.id}#${ruleRef}`,
+    group: group.name,
+    rule: rule.name,
+    expression: extension.valueExpression?.expression as string
+  }));
+}
+
+/**
+ * Updates the FUME expression(s) of an existing StructureMap, leaving every other element untouched
+ * (description, publisher, identifiers, version, extensions, meta...). The input is not modified.
+ * @param structureMap - The existing StructureMap resource
+ * @param expression - The new expression of the first FUME rule, or new expressions by rule ('group.rule')
+ * @param options - `updateDate`: also set `date` to now when an expression changed (default: false)
+ * @returns A copy of the StructureMap with the new expression(s)
+ */
+export function updateStructureMapExpression(
+  structureMap: StructureMap,
+  expression: string | Record<string, string>,
+  options?: { updateDate?: boolean }
+): StructureMap {
+  const updated = structuredClone(structureMap);
+  const rules = findFumeRules(updated);
+  if (rules.length === 0) {
+    throw new Error(`StructureMap/${structureMap.id} has no FUME rule to update`);
+  }
+
+  const changes = typeof expression === 'string' ? { [rules[0].ruleRef]: expression } : expression;
+  let changed = false;
+  for (const [ruleRef, newExpression] of Object.entries(changes)) {
+    const target = rules.find(rule => rule.ruleRef === ruleRef);
+    if (!target) {
+      throw new Error(`StructureMap/${structureMap.id} has no FUME rule '${ruleRef}'`);
+    }
+    const valueExpression = target.extension.valueExpression as { expression?: string };
+    if (valueExpression.expression !== newExpression) {
+      valueExpression.expression = newExpression;
+      changed = true;
+    }
+  }
+
+  if (changed && options?.updateDate) {
+    updated.date = new Date().toISOString();
+  }
+  return updated;
+}
+
+/**
+ * The FUME rules of a StructureMap with their rule reference ('group.rule', positions when unnamed)
+ */
+function findFumeRules(structureMap: StructureMap) {
+  const rules = [];
+  for (const [groupIndex, group] of (structureMap.group ?? []).entries()) {
+    for (const [ruleIndex, rule] of (group.rule ?? []).entries()) {
+      const extension = rule.extension?.find(e => e.url === FUME_EXPRESSION_EXTENSION_URL && e.valueExpression?.expression);
+      if (extension) {
+        rules.push({ ruleRef: `${group.name ?? groupIndex}.${rule.name ?? ruleIndex}`, group, rule, extension });
+      }
+    }
+  }
+  return rules;
+}
+
+/**
+ * Find a rule expression by the part of its sub-mapping key after `#` (e.g. 'group.rule')
+ */
+export function findRuleExpression(rules: FumeRuleExpression[], ruleRef: string): FumeRuleExpression | undefined {
+  return rules.find(rule => rule.key.slice(rule.key.indexOf('#') + 1) === ruleRef);
+}
+
+/**
+ * The expression(s) of a mapping in the shape accepted by `expressionToStructureMap`:
+ * the single expression, or the named rule expressions when the mapping has several rules
+ */
+export function mappingToExpressions(mapping: { expression: string; rules?: FumeRuleExpression[] }): string | Record<string, string> {
+  if (!mapping.rules || mapping.rules.length < 2) {
+    return mapping.expression;
+  }
+  return Object.fromEntries(mapping.rules.map(rule => [rule.key.slice(rule.key.indexOf('#') + 1), rule.expression]));
+}
+
+/**
+ * Creates a StructureMap resource from a FUME expression, or from named expressions.
+ * Names are 'rule' (in the default group) or 'group.rule'; each becomes one rule.
  * @param mappingId - The mapping identifier
- * @param expression - The FUME expression
+ * @param expression - The FUME expression, or a map of rule names to expressions
  * @param canonicalBaseUrl - Base URL for canonical references (defaults to example.com)
+ * @param fhirVersion - FHIR release of the resource (default: 'R4'); R5 groups have no `typeMode`
  * @returns A StructureMap resource
  */
 export function expressionToStructureMap(
   mappingId: string,
-  expression: string,
-  canonicalBaseUrl: string = DEFAULT_CANONICAL_BASE
+  expression: string | Record<string, string>,
+  canonicalBaseUrl: string = DEFAULT_CANONICAL_BASE,
+  fhirVersion: SupportedFhirRelease = DEFAULT_FHIR_RELEASE
 ): StructureMap {
   const canonical = `${canonicalBaseUrl}/StructureMap/${mappingId}`;
   const date = new Date().toISOString();
@@ -87,38 +203,49 @@ export function expressionToStructureMap(
         }
       }
     ],
-    group: [
-      {
-        name: 'fumeMapping',
-        typeMode: 'none',
-        input: [
-          {
-            name: 'input',
-            mode: 'source'
-          }
-        ],
-        rule: [
-          {
-            extension: [
-              {
-                url: FUME_EXPRESSION_EXTENSION_URL,
-                valueExpression: {
-                  language: 'application/vnd.outburn.fume',
-                  expression
-                }
-              }
-            ],
-            name: 'evaluate',
-            source: [
-              {
-                context: 'input'
-              }
-            ]
+    group: toGroups(typeof expression === 'string' ? { [DEFAULT_RULE_NAME]: expression } : expression, fhirVersion)
+  };
+}
+
+function toGroups(expressions: Record<string, string>, fhirVersion: SupportedFhirRelease): NonNullable<StructureMap['group']> {
+  const groups = new Map<string, NonNullable<NonNullable<StructureMap['group']>[number]['rule']>>();
+
+  for (const [ruleRef, expression] of Object.entries(expressions)) {
+    const dot = ruleRef.lastIndexOf('.');
+    const groupName = dot > 0 ? ruleRef.slice(0, dot) : DEFAULT_GROUP_NAME;
+    const rules = groups.get(groupName) ?? [];
+    rules.push({
+      extension: [
+        {
+          url: FUME_EXPRESSION_EXTENSION_URL,
+          valueExpression: {
+            language: 'application/vnd.outburn.fume',
+            expression
           }
-        ]
+        }
+      ],
+      name: dot > 0 ? ruleRef.slice(dot + 1) : ruleRef,
+      source: [
+        {
+          context: 'input'
+        }
+      ]
+    });
+    groups.set(groupName, rules);
+  }
+
+  // 'none' is not a typeMode code in R5 (the element is optional there)
+  return Array.from(groups, ([name, rule]) => ({
+    name,
+    ...(fhirVersion === 'R5' ? {} : { typeMode: 'none' }),
+    input: [
+      {
+        name: 'input',
+        mode: 'source'
       }
-    ]
-  };
+    ],
+    rule
+  }));
 }
 
 /**
@@ -129,9 +256,24 @@ export function expressionToStructureMap(
  */
 export function conceptMapToAliasObject(conceptMap: ConceptMap, logger?: Logger): AliasObject {
   const aliases: AliasObject = {};
+  for (const [key, definition] of Object.entries(conceptMapToAliasDefinitions(conceptMap, logger))) {
+    aliases[key] = definition.value;
+  }
+  return aliases;
+}
+
+/**
+ * Transforms a ConceptMap resource into alias definitions: the value (first target code) with the
+ * element `display` as description, the deprecation flag and the source system of non-default groups
+ * @param conceptMap - The ConceptMap resource
+ * @param logger - Optional logger for warnings
+ * @returns Alias definitions by key
+ */
+export function conceptMapToAliasDefinitions(conceptMap: ConceptMap, logger?: Logger): AliasDefinitionObject {
+  const definitions: AliasDefinitionObject = {};
   
   if (!conceptMap.group) {
-    return aliases;
+    return definitions;
   }
   
   for (const group of conceptMap.group) {
@@ -144,44 +286,51 @@ export function conceptMapToAliasObject(conceptMap: ConceptMap, logger?: Logger)
       const value = element.target?.[0]?.code;
       
       if (key && value) {
-        if (aliases[key]) {
+        if (definitions[key]) {
           logger?.warn?.(`Duplicate alias key found: ${key}`);
         }
-        aliases[key] = value;
+        const deprecated = element.extension?.some(ext => ext.url === ALIAS_DEPRECATED_EXTENSION_URL && ext.valueBoolean === true);
+        definitions[key] = {
+          value,
+          ...(element.display ? { description: element.display } : {}),
+          ...(deprecated ? { deprecated } : {}),
+          ...(group.source && !isDefaultAliasGroup(group.source) ? { group: group.source } : {})
+        };
       }
     }
   }
   
-  return aliases;
+  return definitions;
 }
 
 /**
- * Transforms an alias object into a ConceptMap resource
- * @param aliases - The alias object
+ * Transforms an alias object (or alias definitions) into a ConceptMap resource.
+ * An existing ConceptMap is updated in place: elements of kept aliases only get their value (and any
+ * given description, deprecation flag) updated, so displays, comments, extra targets, equivalences and
+ * groups stored on it survive. Removed aliases are dropped and new ones are added to their group.
+ * Targets are written in the layout of `fhirVersion`: R4/R4B `equivalence` or R5 `relationship`
+ * (kept targets of an existing ConceptMap of the other layout are converted).
+ * @param aliases - The alias object or alias definitions (values may mix both)
  * @param canonicalBaseUrl - Base URL for canonical references
  * @param existingConceptMap - Optional existing ConceptMap to update
+ * @param fhirVersion - FHIR release of the resource (default: 'R4')
  * @returns A ConceptMap resource
  */
 export function aliasObjectToConceptMap(
-  aliases: AliasObject,
+  aliases: Record<string, string | AliasDefinition>,
   canonicalBaseUrl: string = DEFAULT_CANONICAL_BASE,
-  existingConceptMap?: ConceptMap
+  existingConceptMap?: ConceptMap,
+  fhirVersion: SupportedFhirRelease = DEFAULT_FHIR_RELEASE
 ): ConceptMap {
-  const elements = Object.entries(aliases).map(([key, value]) => ({
-    code: key,
-    target: [
-      {
-        code: value,
-        equivalence: 'equivalent' as const
-      }
-    ]
-  }));
+  const definitions = new Map(
+    Object.entries(aliases).map(([key, alias]): [string, AliasDefinition] => [key, typeof alias === 'string' ? { value: alias } : alias])
+  );
   
   const date = new Date().toISOString();
   const canonical = `${canonicalBaseUrl}/ConceptMap/fume-global-aliases`;
   
   // Update existing ConceptMap or create new one
-  const conceptMap: ConceptMap = existingConceptMap || {
+  const conceptMap: ConceptMap = existingConceptMap ?? {
     resourceType: 'ConceptMap',
     url: canonical,
     name: 'FumeAliases',
@@ -209,15 +358,91 @@ export function aliasObjectToConceptMap(
     ]
   };
   
+  type Group = NonNullable<ConceptMap['group']>[number];
+  type Element = NonNullable<Group['element']>[number];
+
+  const groups: Group[] = [];
+  for (const group of conceptMap.group ?? []) {
+    const element: Element[] = [];
+    for (const existing of group.element ?? []) {
+      const definition = existing.code ? definitions.get(existing.code) : undefined;
+      // Each alias keeps only its first element
+      if (definition && existing.code) {
+        definitions.delete(existing.code);
+        element.push(applyAliasDefinition(existing, definition, fhirVersion));
+      }
+    }
+    if (element.length > 0) {
+      groups.push({ ...group, element });
+    }
+  }
+
+  const defaultSource = `${canonicalBaseUrl}/CodeSystem/fume-global-alias-name`;
+  const defaultTarget = `${canonicalBaseUrl}/CodeSystem/fume-global-alias-value`;
+  for (const [key, definition] of definitions) {
+    // Aliases without a group go to the default group, never to another source system's group
+    let group = definition.group
+      ? groups.find(g => g.source === definition.group)
+      : groups.find(g => !g.source || isDefaultAliasGroup(g.source));
+    if (!group) {
+      group = { source: definition.group ?? defaultSource, target: defaultTarget, element: [] };
+      groups.push(group);
+    }
+    group.element?.push(applyAliasDefinition({ code: key, target: [{ code: definition.value }] }, definition, fhirVersion));
+  }
+  
   // Update mutable fields
   conceptMap.date = date;
-  conceptMap.group = [
-    {
-      source: `${canonicalBaseUrl}/CodeSystem/fume-global-alias-name`,
-      target: `${canonicalBaseUrl}/CodeSystem/fume-global-alias-value`,
-      element: elements
-    }
-  ];
+  conceptMap.group = groups.length > 0 ? groups : [{ source: defaultSource, target: defaultTarget, element: [] }];
   
   return conceptMap;
 }
+
+/**
+ * Set the value, and the description and deprecation flag when given, on an alias ConceptMap element
+ */
+function applyAliasDefinition<T extends NonNullable<NonNullable<ConceptMap['group']>[number]['element']>[number]>(
+  element: T,
+  definition: AliasDefinition,
+  fhirVersion: SupportedFhirRelease
+): T {
+  const [first, ...otherTargets] = element.target ?? [];
+  const updated: T = {
+    ...element,
+    target: [{ ...first, code: definition.value }, ...otherTargets].map(target => toReleaseTarget(target, fhirVersion))
+  };
+  if (definition.description !== undefined) {
+    updated.display = definition.description;
+  }
+  if (definition.deprecated !== undefined) {
+    const extension = (element.extension ?? []).filter(ext => ext.url !== ALIAS_DEPRECATED_EXTENSION_URL);
+    if (definition.deprecated) {
+      extension.push({ url: ALIAS_DEPRECATED_EXTENSION_URL, valueBoolean: true });
+    }
+    if (extension.length > 0) {
+      updated.extension = extension;
+    } else {
+      delete updated.extension;
+    }
+  }
+  return updated;
+}
+
+/**
+ * Write the mapping kind of a ConceptMap target as R4/R4B `equivalence` or R5 `relationship`
+ * (defaulting to equivalent)
+ */
+function toReleaseTarget<T extends { equivalence?: string; relationship?: string }>(target: T, fhirVersion: SupportedFhirRelease): T {
+  const { equivalence, relationship, ...rest } = target;
+  if (fhirVersion === 'R5') {
+    return { ...rest, relationship: relationship ?? EQUIVALENCE_TO_RELATIONSHIP[equivalence ?? ''] ?? 'equivalent' } as T;
+  }
+  return { ...rest, equivalence: equivalence ?? RELATIONSHIP_TO_EQUIVALENCE[relationship ?? ''] ?? 'equivalent' } as T;
+}
+
+/**
+ * Default alias groups use the `fume-global-alias-name` code system (under any canonical base)
+ */
+function isDefaultAliasGroup(source: string): boolean {
+  return source.endsWith('/CodeSystem/fume-global-alias-name');
+}
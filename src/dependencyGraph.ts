@@ -0,0 +1,169 @@
+import { DependencyEdge, DependencyLookupOptions, DependencyNode } from './types';
+
+const REFERENCE_NAME_REGEX = /[A-Za-z0-9_]/;
+
+/**
+ * Extract the names referenced as `$name` in a FUME expression (best-effort static analysis).
+ * String literals, backtick-quoted names and block comments are skipped, and so are names
+ * bound inside the expression itself (`$name := ...`, lambda parameters, `@$name` / `#$name`),
+ * since those shadow outer bindings.
+ * @param expression - The FUME expression
+ * @returns Referenced names without the leading `$`, in order of first appearance
+ */
+export function extractExpressionReferences(expression: string): string[] {
+  const referenced: string[] = [];
+  const assigned = new Set<string>();
+  let i = 0;
+
+  for (const match of expression.matchAll(/(?:function|λ)\s*\(([^)]*)\)/g)) {
+    for (const param of match[1].matchAll(/\$([A-Za-z0-9_]+)/g)) {
+      assigned.add(param[1]);
+    }
+  }
+
+  while (i < expression.length) {
+    const ch = expression[i];
+
+    if (ch === '"' || ch === '\'' || ch === '`') {
+      i++;
+      while (i < expression.length && expression[i] !== ch) {
+        i += expression[i] === '\\' && ch !== '`' ? 2 : 1;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '/' && expression[i + 1] === '*') {
+      const end = expression.indexOf('*/', i + 2);
+      i = end === -1 ? expression.length : end + 2;
+      continue;
+    }
+
+    if (ch === '$') {
+      let end = i + 1;
+      while (end < expression.length && REFERENCE_NAME_REGEX.test(expression[end])) {
+        end++;
+      }
+
+      const name = expression.slice(i + 1, end);
+      if (name) {
+        if (/^\s*:=/.test(expression.slice(end)) || expression[i - 1] === '@' || expression[i - 1] === '#') {
+          assigned.add(name);
+        } else if (!referenced.includes(name)) {
+          referenced.push(name);
+        }
+      }
+      i = Math.max(end, i + 1);
+      continue;
+    }
+
+    i++;
+  }
+
+  return referenced.filter(name => !assigned.has(name));
+}
+
+/**
+ * Dependency graph between mappings, aliases and static JSON values
+ */
+export class DependencyGraph {
+  constructor(
+    readonly nodes: DependencyNode[],
+    readonly edges: DependencyEdge[]
+  ) {}
+
+  /**
+   * Build a graph from mapping expressions and the names that can be referenced.
+   * A name that matches several kinds (e.g. an alias and a static JSON value) gets an edge to each.
+   */
+  static build(sources: {
+    mappings: Array<{ key: string; expression: string; rules?: Array<{ expression: string }> }>;
+    packageMappings?: Array<{ id: string; expression: string; rules?: Array<{ expression: string }> }>;
+    aliasKeys: string[];
+    staticJsonKeys: string[];
+  }): DependencyGraph {
+    const nodes: DependencyNode[] = [
+      ...sources.mappings.map(m => ({ type: 'mapping' as const, key: m.key })),
+      ...(sources.packageMappings ?? []).map(m => ({ type: 'packageMapping' as const, key: m.id })),
+      ...sources.aliasKeys.map(key => ({ type: 'alias' as const, key })),
+      ...sources.staticJsonKeys.map(key => ({ type: 'staticJson' as const, key }))
+    ];
+
+    const targetsByName = new Map<string, DependencyNode[]>();
+    for (const node of nodes) {
+      if (node.type === 'packageMapping') {
+        continue;
+      }
+      const targets = targetsByName.get(node.key) ?? [];
+      targets.push(node);
+      targetsByName.set(node.key, targets);
+    }
+
+    const edges: DependencyEdge[] = [];
+    // Multi-rule mappings depend on what any of their rules references
+    const addEdges = (from: DependencyNode, mapping: { expression: string; rules?: Array<{ expression: string }> }) => {
+      const names = new Set((mapping.rules ?? [mapping]).flatMap(rule => extractExpressionReferences(rule.expression)));
+      for (const name of names) {
+        for (const to of targetsByName.get(name) ?? []) {
+          edges.push({ from, to });
+        }
+      }
+    };
+
+    for (const mapping of sources.mappings) {
+      addEdges({ type: 'mapping', key: mapping.key }, mapping);
+    }
+    for (const mapping of sources.packageMappings ?? []) {
+      addEdges({ type: 'packageMapping', key: mapping.id }, mapping);
+    }
+
+    return new DependencyGraph(nodes, edges);
+  }
+
+  /**
+   * Get what the given mapping references (mappings, aliases, static JSON values).
+   */
+  getDependencies(key: string, options?: DependencyLookupOptions): DependencyNode[] {
+    return this.walk(key, options, edge => edge.from, edge => edge.to);
+  }
+
+  /**
+   * Get the mappings that reference the given mapping, alias or static JSON value.
+   * With `transitive: true` this is everything that may break when the node is removed.
+   */
+  getDependents(key: string, options?: DependencyLookupOptions): DependencyNode[] {
+    return this.walk(key, options, edge => edge.to, edge => edge.from);
+  }
+
+  private walk(
+    key: string,
+    options: DependencyLookupOptions | undefined,
+    near: (edge: DependencyEdge) => DependencyNode,
+    far: (edge: DependencyEdge) => DependencyNode
+  ): DependencyNode[] {
+    const id = (node: DependencyNode) => `${node.type}:${node.key}`;
+    const matchesStart = (node: DependencyNode) =>
+      node.key === key && (options?.type === undefined || node.type === options.type);
+
+    const result = new Map<string, DependencyNode>();
+    const visited = new Set<string>();
+    let frontier = this.edges.filter(edge => matchesStart(near(edge))).map(far);
+
+    while (frontier.length > 0) {
+      const next: DependencyNode[] = [];
+      for (const node of frontier) {
+        if (visited.has(id(node))) {
+          continue;
+        }
+        visited.add(id(node));
+        result.set(id(node), node);
+        if (options?.transitive) {
+          next.push(...this.edges.filter(edge => id(near(edge)) === id(node)).map(far));
+        }
+      }
+      frontier = next;
+    }
+
+    return Array.from(result.values());
+  }
+}
@@ -0,0 +1,16 @@
+import { PackageMappingCandidate, PackageMappingMatchField } from './types';
+
+/**
+ * Thrown in strict resolution mode when a package mapping identifier matches several StructureMaps
+ */
+export class AmbiguousPackageMappingError extends Error {
+  constructor(
+    readonly identifier: string,
+    readonly matchedBy: PackageMappingMatchField,
+    readonly candidates: PackageMappingCandidate[]
+  ) {
+    const list = candidates.map(c => `${c.packageId}@${c.packageVersion}/${c.filename}`).join(', ');
+    super(`Package mapping '${identifier}' is ambiguous: ${candidates.length} StructureMaps match by ${matchedBy} (${list})`);
+    this.name = 'AmbiguousPackageMappingError';
+  }
+}
@@ -0,0 +1,40 @@
+import { FhirServerSource } from './types';
+
+/**
+ * A FHIR server source with its label and precedence resolved
+ */
+export interface ResolvedFhirServerSource extends FhirServerSource {
+  label: string;
+  precedence: number;
+}
+
+/**
+ * Get the base URL of a FHIR client without a trailing slash ('' if unavailable)
+ */
+export function getNormalizedBaseUrl(fhirClient: unknown): string {
+  const baseUrl = (fhirClient as { getBaseUrl?: () => unknown } | undefined)?.getBaseUrl?.();
+  return (typeof baseUrl === 'string' ? baseUrl : '').replace(/\/$/, '');
+}
+
+/**
+ * Resolve labels and precedence of FHIR server sources.
+ * Returned in ascending precedence order (lowest first), so later entries override earlier ones.
+ * Ties keep their list order.
+ */
+export function resolveFhirServerSources(sources: FhirServerSource[]): ResolvedFhirServerSource[] {
+  const resolved = sources.map((source, index) => ({
+    ...source,
+    label: source.label || getNormalizedBaseUrl(source.fhirClient) || `server${index + 1}`,
+    precedence: source.precedence ?? index
+  }));
+
+  const labels = new Set<string>();
+  for (const source of resolved) {
+    if (labels.has(source.label)) {
+      throw new Error(`Duplicate FHIR server label '${source.label}'. Set a unique 'label' for each FHIR server.`);
+    }
+    labels.add(source.label);
+  }
+
+  return resolved.sort((a, b) => a.precedence - b.precedence);
+}
@@ -0,0 +1,58 @@
+import type { Logger } from '@outburn/types';
+import { SupportedFhirRelease } from './types';
+
+const RELEASE_VERSIONS: Record<SupportedFhirRelease, string> = {
+  R4: '4.0.1',
+  R4B: '4.3.0',
+  R5: '5.0.0'
+};
+
+/**
+ * The FHIR release of a version string ('4.0.1', '4.3', '5.0.0-ballot', 'R4B'...), undefined if unsupported
+ */
+export function toFhirRelease(version: string | undefined): SupportedFhirRelease | undefined {
+  const normalized = (version ?? '').trim().toUpperCase();
+  if (normalized === 'R4' || normalized === 'R4B' || normalized === 'R5') {
+    return normalized;
+  }
+  if (/^4\.0(\.|$)/.test(normalized)) {
+    return 'R4';
+  }
+  if (/^4\.3(\.|$)/.test(normalized)) {
+    return 'R4B';
+  }
+  if (/^5\.0(\.|$)/.test(normalized)) {
+    return 'R5';
+  }
+  return undefined;
+}
+
+/**
+ * The published version of a FHIR release (e.g. 'R4' -> '4.0.1')
+ */
+export function fhirReleaseVersion(release: SupportedFhirRelease): string {
+  return RELEASE_VERSIONS[release];
+}
+
+/**
+ * Detect the FHIR release of a server from its CapabilityStatement.
+ * Returns undefined (with a warning) when it cannot be read or the version is not supported.
+ */
+export async function detectFhirRelease(fhirClient: unknown, label: string, logger?: Logger): Promise<SupportedFhirRelease | undefined> {
+  const client = fhirClient as { getCapabilities?: () => Promise<{ fhirVersion?: string } | undefined> };
+  if (typeof client.getCapabilities !== 'function') {
+    return undefined;
+  }
+
+  try {
+    const fhirVersion = (await client.getCapabilities())?.fhirVersion;
+    const release = toFhirRelease(fhirVersion);
+    if (!release) {
+      logger?.warn?.(`Unsupported FHIR version '${fhirVersion}' on FHIR server ${label}; using R4 resource shapes`);
+    }
+    return release;
+  } catch (error) {
+    logger?.warn?.(`Failed to read the CapabilityStatement of FHIR server ${label}; using R4 resource shapes`, error);
+    return undefined;
+  }
+}
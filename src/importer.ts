@@ -0,0 +1,224 @@
+import type { Bundle, Logger, Resource } from '@outburn/types';
+import { AliasObject, ConceptMap, ImportCollisionPolicy, ImportMappingsOptions, ImportResult, StructureMap } from './types';
+import { conceptMapToAliasObject, structureMapToExpression, structureMapToExpressions } from './converters';
+import { isFumeAliasResource, isFumeMapping } from './providers';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * A resource to import and where it came from
+ */
+interface ImportSource {
+  resource: Resource;
+  origin: string;
+}
+
+/**
+ * Collect resources from a Bundle, a JSON file (Bundle or single resource) or a folder of JSON files.
+ */
+export async function collectImportSources(source: Bundle | string, logger?: Logger): Promise<ImportSource[]> {
+  if (typeof source !== 'string') {
+    return fromJson(source, 'Bundle');
+  }
+
+  const stat = await fs.stat(source);
+  const files = stat.isDirectory()
+    ? (await fs.readdir(source)).filter(file => file.toLowerCase().endsWith('.json')).sort().map(file => path.join(source, file))
+    : [source];
+
+  const sources: ImportSource[] = [];
+  for (const file of files) {
+    try {
+      sources.push(...fromJson(JSON.parse(await fs.readFile(file, 'utf-8')), file));
+    } catch (error) {
+      logger?.warn?.(`Failed to parse ${file}; skipping. ${String(error)}`);
+    }
+  }
+  return sources;
+}
+
+function fromJson(json: Resource, origin: string): ImportSource[] {
+  if (json?.resourceType === 'Bundle') {
+    return ((json as Bundle).entry ?? [])
+      .map((entry, i) => ({ resource: entry.resource as Resource, origin: `${origin} entry[${i}]` }))
+      .filter(item => !!item.resource);
+  }
+  return json?.resourceType ? [{ resource: json, origin }] : [];
+}
+
+/**
+ * Write FUME StructureMaps as mapping files and merge FUME alias ConceptMaps into `aliases.json`.
+ * New mapping files go to `folder`; an overwritten key is written to the file that currently holds it,
+ * which may be in a lower-precedence folder or a subfolder.
+ * @param target - Folder, mapping file extension, the files holding the existing keys and the key rules
+ */
+export async function importSources(
+  sources: ImportSource[],
+  target: {
+    folder: string;
+    fileExtension: string;
+    existingFiles: Map<string, string>;
+    isValidMappingKey: (key: string) => boolean;
+    isValidAliasKey: (key: string) => boolean;
+  },
+  options: ImportMappingsOptions,
+  logger?: Logger
+): Promise<ImportResult[]> {
+  const policy = options.onCollision ?? 'skip';
+  const dryRun = options.dryRun === true;
+  const results: ImportResult[] = [];
+  // Key -> file holding it, including the files written by this import
+  const taken = new Map(target.existingFiles);
+  const aliasSources: Array<{ aliases: AliasObject; origin: string }> = [];
+
+  // Read aliases.json before writing anything, so a broken file cannot leave a partial import behind
+  const aliasesFile = await readAliasesFile(path.join(target.folder, 'aliases.json'));
+
+  const fileFor = (key: string) => path.join(target.folder, `${key}${target.fileExtension}`);
+  const fileExists = (file: string) => fs.access(file).then(() => true, () => false);
+
+  for (const { resource, origin } of sources) {
+    if (resource.resourceType === 'ConceptMap') {
+      const conceptMap = resource as unknown as ConceptMap;
+      if (isFumeAliasResource(conceptMap)) {
+        aliasSources.push({ aliases: conceptMapToAliasObject(conceptMap, logger), origin });
+      } else {
+        logger?.debug?.(`Ignoring ConceptMap/${conceptMap.id} from ${origin}: not a FUME alias ConceptMap`);
+      }
+      continue;
+    }
+
+    if (resource.resourceType !== 'StructureMap') {
+      logger?.debug?.(`Ignoring ${resource.resourceType}/${resource.id} from ${origin}`);
+      continue;
+    }
+
+    const structureMap = resource as unknown as StructureMap;
+    const sourceId = structureMap.id ?? '';
+    const invalid = (message: string) => results.push({ type: 'mapping', sourceId, key: sourceId, status: 'invalid', origin, message });
+
+    const expression = isFumeMapping(structureMap) ? structureMapToExpression(structureMap) : null;
+    if (!expression) {
+      invalid('Not a FUME mapping');
+      continue;
+    }
+    const ruleCount = structureMapToExpressions(structureMap).length;
+    if (ruleCount > 1) {
+      invalid(`StructureMap has ${ruleCount} FUME rules; a mapping file holds a single expression`);
+      continue;
+    }
+    if (!target.isValidMappingKey(sourceId)) {
+      invalid(`Invalid mapping key '${sourceId}' (must start with a letter, alphanumeric only, max 64 characters)`);
+      continue;
+    }
+
+    let key = sourceId;
+    let file = taken.get(key) ?? fileFor(key);
+    let status: ImportResult['status'] = 'created';
+    if (taken.has(key) || await fileExists(file)) {
+      if (await fileExists(file) && await fs.readFile(file, 'utf-8') === expression) {
+        results.push({ type: 'mapping', sourceId, key, status: 'unchanged', file, origin });
+        taken.set(key, file);
+        continue;
+      }
+      if (policy === 'skip') {
+        results.push({ type: 'mapping', sourceId, key, status: 'skipped', origin, message: `Mapping '${key}' already exists` });
+        continue;
+      }
+      if (policy === 'rename') {
+        let n = 2;
+        while (taken.has(`${sourceId}${n}`) || await fileExists(fileFor(`${sourceId}${n}`))) {
+          n++;
+        }
+        key = `${sourceId}${n}`;
+        file = fileFor(key);
+        status = 'renamed';
+        if (!target.isValidMappingKey(key)) {
+          invalid(`Cannot rename '${sourceId}': '${key}' is not a valid mapping key`);
+          continue;
+        }
+      } else {
+        status = 'overwritten';
+      }
+    }
+
+    if (!dryRun) {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, expression, 'utf-8');
+    }
+    taken.set(key, file);
+    results.push({ type: 'mapping', sourceId, key, status, file, origin });
+  }
+
+  if (aliasSources.length > 0) {
+    results.push(...await importAliases(aliasSources, aliasesFile, target, policy, dryRun));
+  }
+
+  return results;
+}
+
+/**
+ * Read the aliases.json to merge into: empty when missing, an error when it is not a JSON object
+ */
+async function readAliasesFile(file: string): Promise<{ file: string; aliases: AliasObject; error?: string }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { file, aliases: {} };
+    }
+    return { file, aliases: {}, error: `Cannot merge aliases into ${file}: ${String(error)}` };
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { file, aliases: {}, error: `Cannot merge aliases into ${file}: it does not hold a JSON object` };
+  }
+  return { file, aliases: parsed as AliasObject };
+}
+
+async function importAliases(
+  sources: Array<{ aliases: AliasObject; origin: string }>,
+  existing: { file: string; aliases: AliasObject; error?: string },
+  target: { folder: string; isValidAliasKey: (key: string) => boolean },
+  policy: ImportCollisionPolicy,
+  dryRun: boolean
+): Promise<ImportResult[]> {
+  const file = existing.file;
+  if (existing.error) {
+    return sources.flatMap(({ aliases, origin }) => Object.keys(aliases).map(key => (
+      { type: 'alias' as const, sourceId: key, key, status: 'invalid' as const, origin, message: existing.error }
+    )));
+  }
+  let merged: AliasObject = existing.aliases;
+
+  const exists = (key: string) => Object.prototype.hasOwnProperty.call(merged, key);
+  const results: ImportResult[] = [];
+  let changed = false;
+  for (const { aliases, origin } of sources) {
+    for (const [key, value] of Object.entries(aliases)) {
+      const result = { type: 'alias' as const, sourceId: key, key, file, origin };
+      if (!target.isValidAliasKey(key)) {
+        results.push({ ...result, status: 'invalid', file: undefined, message: `Invalid alias key '${key}'` });
+      } else if (exists(key) && merged[key] === value) {
+        results.push({ ...result, status: 'unchanged' });
+      } else if (exists(key) && policy !== 'overwrite') {
+        results.push({
+          ...result,
+          status: 'skipped',
+          file: undefined,
+          message: policy === 'rename' ? `Alias '${key}' already exists (aliases cannot be renamed)` : `Alias '${key}' already exists`
+        });
+      } else {
+        results.push({ ...result, status: exists(key) ? 'overwritten' : 'created' });
+        merged = { ...merged, [key]: value };
+        changed = true;
+      }
+    }
+  }
+
+  if (changed && !dryRun) {
+    await fs.mkdir(target.folder, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(merged, null, 2), 'utf-8');
+  }
+  return results;
+}
@@ -5,28 +5,92 @@ export { FumeMappingProvider } from './FumeMappingProvider';
 export {
   UserMapping,
   UserMappingMetadata,
+  FumeRuleExpression,
   StaticJsonValue,
   StaticJsonValueMetadata,
+  ServerStaticJsonResourceType,
+  ServerStaticJsonValueMeta,
+  JsonSchemaError,
+  StaticJsonValidationError,
   PackageMapping,
   PackageMappingMetadata,
   StructureMap,
   ConceptMap,
   AliasObject,
+  AliasDetails,
+  AliasDefinition,
+  AliasDefinitionObject,
   AliasWithMetadata,
   AliasObjectWithMetadata,
   AliasSourceType,
   FumeMappingProviderConfig,
-  GetPackageMappingOptions
+  GetPackageMappingOptions,
+  PackageMappingMatchField,
+  PackageMappingCandidate,
+  NamespaceScheme,
+  MappingsFolderOptions,
+  MappingsFolderFile,
+  MappingsFolderConfig,
+  FhirServerSource,
+  SupportedFhirRelease,
+  FileWatchMode,
+  DependencyNodeType,
+  DependencyNode,
+  DependencyEdge,
+  DependencyLookupOptions,
+  ValidationEntryType,
+  MissingReference,
+  ShadowedKey,
+  InvalidKey,
+  AliasReferenceError,
+  LoadDiagnostics,
+  ValidationReport,
+  ValidateOptions,
+  ValidationConfig,
+  ValidationReportEvent,
+  UserMappingHistoryEntry,
+  MappingHistoryConfig,
+  PublishStatus,
+  PublishResult,
+  PublishReport,
+  PublishUserMappingsOptions,
+  PublishAliasLayer,
+  PublishAliasesOptions,
+  PublishAliasesReport,
+  ExportBundleOptions,
+  ImportCollisionPolicy,
+  ImportStatus,
+  ImportResult,
+  ImportReport,
+  ImportMappingsOptions,
+  BuildPackageOptions,
+  BuildPackageResult,
+  ChangeTrigger,
+  MappingChangeEvent,
+  AliasesChangeEvent,
+  StaticJsonValueChangeEvent,
+  FumeMappingProviderEventMap,
+  FumeMappingProviderEventName,
+  FumeMappingProviderEventHandler
 } from './types';
 
 // Export converters
 export {
   structureMapToExpression,
+  structureMapToExpressions,
   expressionToStructureMap,
+  updateStructureMapExpression,
   conceptMapToAliasObject,
+  conceptMapToAliasDefinitions,
   aliasObjectToConceptMap
 } from './converters';
 
+// Export errors
+export { AmbiguousPackageMappingError } from './errors';
+
+// Export dependency analysis
+export { DependencyGraph, extractExpressionReferences } from './dependencyGraph';
+
 // Export providers (for advanced usage)
 export {
   UserMappingProvider,
@@ -0,0 +1,173 @@
+import { JsonSchemaError } from './types';
+import { requireOptional } from './optionalModules';
+import type AjvModule from 'ajv';
+import type { AnySchema, ErrorObject } from 'ajv';
+import type Ajv2020Module from 'ajv/dist/2020';
+import type AjvFormatsModule from 'ajv-formats';
+
+const DRAFT_07 = /^https?:\/\/json-schema\.org\/draft-07\/schema#?$/;
+
+/** Keywords whose subschemas apply to the same instance (a `$ref` cycle through them never ends) */
+const IN_PLACE_APPLICATORS = ['allOf', 'anyOf', 'oneOf', 'not', 'if', 'then', 'else', 'dependentSchemas'];
+
+/** Keywords holding instance data rather than subschemas */
+const DATA_KEYWORDS = ['const', 'enum', 'default', 'examples'];
+
+/**
+ * A compiled JSON Schema: returns the validation errors of a value (empty when valid), with JSON Pointer paths
+ */
+export type JsonSchemaValidator = (value: unknown) => JsonSchemaError[];
+
+/**
+ * Compile a JSON Schema with Ajv. Compiling is expensive, so keep the validator while the schema is unchanged.
+ *
+ * Schemas follow draft 2020-12, or draft-07 when they declare it in `$schema`. `format` is checked with
+ * ajv-formats. The schema is compiled in strict mode, so unknown keywords and formats, unresolvable
+ * `$ref`s and `$ref` cycles that never descend into the value make the schema invalid.
+ * @param schema - The JSON Schema
+ * @throws Error if the schema is invalid
+ */
+export function compileJsonSchema(schema: unknown): JsonSchemaValidator {
+  const cycle = findRefCycle(schema);
+  if (cycle) {
+    throw new Error(`$ref cycle ${cycle.join(' -> ')}`);
+  }
+
+  const options = { allErrors: true, strictSchema: true, strictTypes: false, strictTuples: false, strictRequired: false };
+  const declaresDraft07 = isObject(schema) && typeof schema.$schema === 'string' && DRAFT_07.test(schema.$schema);
+  const feature = 'static JSON value schemas';
+  const ajv = declaresDraft07
+    ? new (requireOptional<{ default: typeof AjvModule }>('ajv', feature).default)(options)
+    : new (requireOptional<{ default: typeof Ajv2020Module }>('ajv/dist/2020', feature).default)(options);
+  requireOptional<{ default: typeof AjvFormatsModule }>('ajv-formats', feature).default(ajv);
+
+  const validate = ajv.compile(schema as AnySchema);
+  return value => (validate(value) ? [] : (validate.errors ?? []).map(toJsonSchemaError));
+}
+
+/**
+ * Validate a value against a JSON Schema (compiled on every call; see `compileJsonSchema`).
+ * @param value - The value to validate
+ * @param schema - The JSON Schema
+ * @returns The validation errors (empty when valid), with JSON Pointer paths
+ * @throws Error if the schema is invalid
+ */
+export function validateJsonSchema(value: unknown, schema: unknown): JsonSchemaError[] {
+  return compileJsonSchema(schema)(value);
+}
+
+function toJsonSchemaError(error: ErrorObject): JsonSchemaError {
+  const message = error.message ?? `must pass "${error.keyword}"`;
+  if (error.keyword === 'additionalProperties' || error.keyword === 'unevaluatedProperties') {
+    const name = String(error.params.additionalProperty ?? error.params.unevaluatedProperty);
+    return { path: `${error.instancePath}/${escapePointer(name)}`, message: `${message} ('${name}')` };
+  }
+  return { path: error.instancePath, message };
+}
+
+/**
+ * Find a chain of local `$ref`s that leads back to itself without descending into the value
+ * (directly or through in-place applicators such as `allOf`). Such a cycle never terminates.
+ * @returns The JSON Pointers of the cycle, or undefined if there is none
+ */
+function findRefCycle(root: unknown): string[] | undefined {
+  const visiting: string[] = [];
+  const done = new Set<string>();
+
+  const visit = (schema: unknown, pointer: string): string[] | undefined => {
+    const start = visiting.indexOf(pointer);
+    if (start >= 0) {
+      return [...visiting.slice(start), pointer];
+    }
+    if (done.has(pointer) || !isObject(schema)) {
+      return undefined;
+    }
+
+    visiting.push(pointer);
+    const next: Array<[unknown, string]> = [];
+    if (typeof schema.$ref === 'string' && schema.$ref.startsWith('#')) {
+      const target = resolvePointer(root, schema.$ref.slice(1));
+      if (target) {
+        next.push([target.schema, target.pointer]);
+      }
+    }
+    for (const keyword of IN_PLACE_APPLICATORS) {
+      const subschemas = schema[keyword];
+      if (Array.isArray(subschemas)) {
+        subschemas.forEach((subschema, index) => next.push([subschema, `${pointer}/${keyword}/${index}`]));
+      } else if (keyword === 'dependentSchemas' && isObject(subschemas)) {
+        Object.entries(subschemas).forEach(([name, subschema]) => next.push([subschema, `${pointer}/${keyword}/${escapePointer(name)}`]));
+      } else if (subschemas !== undefined) {
+        next.push([subschemas, `${pointer}/${keyword}`]);
+      }
+    }
+    for (const [subschema, subpointer] of next) {
+      const cycle = visit(subschema, subpointer);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    visiting.pop();
+    done.add(pointer);
+    return undefined;
+  };
+
+  // Any subschema can start a cycle, so walk every node of the schema document
+  const walk = (node: unknown, pointer: string): string[] | undefined => {
+    if (Array.isArray(node)) {
+      for (const [index, item] of node.entries()) {
+        const cycle = walk(item, `${pointer}/${index}`);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      return undefined;
+    }
+    if (!isObject(node)) {
+      return undefined;
+    }
+    const cycle = visit(node, pointer);
+    if (cycle) {
+      return cycle;
+    }
+    for (const [name, child] of Object.entries(node)) {
+      if (DATA_KEYWORDS.includes(name)) {
+        continue;
+      }
+      const childCycle = walk(child, `${pointer}/${escapePointer(name)}`);
+      if (childCycle) {
+        return childCycle;
+      }
+    }
+    return undefined;
+  };
+
+  return walk(root, '#');
+}
+
+/**
+ * Resolve a URI fragment JSON Pointer inside the schema document
+ * @returns The subschema and its pointer in the canonical form used by `findRefCycle`
+ */
+function resolvePointer(root: unknown, fragment: string): { schema: unknown; pointer: string } | undefined {
+  if (fragment !== '' && !fragment.startsWith('/')) {
+    // Anchors are left to Ajv
+    return undefined;
+  }
+  let schema: unknown = root;
+  let pointer = '#';
+  for (const segment of fragment.split('/').slice(1)) {
+    const name = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    schema = isObject(schema) || Array.isArray(schema) ? (schema as Record<string, unknown>)[name] : undefined;
+    pointer += `/${escapePointer(name)}`;
+  }
+  return schema === undefined ? undefined : { schema, pointer };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,134 @@
+import { ChangeTrigger, UserMapping, UserMappingHistoryEntry } from './types';
+import { Logger } from '@outburn/types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Bounded per-key history of user mappings, optionally persisted to a folder
+ */
+export class UserMappingHistory {
+  private entries: Map<string, UserMappingHistoryEntry[]> = new Map();
+  private pendingWrites: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    private maxEntries: number,
+    private folder?: string,
+    private logger?: Logger
+  ) {}
+
+  /**
+   * Load persisted history from the history folder (if configured).
+   */
+  async load(): Promise<void> {
+    if (!this.folder) {
+      return;
+    }
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.folder);
+    } catch (_error) {
+      // No history persisted yet
+      return;
+    }
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+
+      const filePath = path.join(this.folder, file);
+      try {
+        const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        if (!Array.isArray(parsed)) {
+          throw new Error('expected a JSON array');
+        }
+        this.entries.set(path.basename(file, '.json'), (parsed as UserMappingHistoryEntry[]).slice(-this.maxEntries));
+      } catch (error) {
+        this.logger?.warn?.(`Invalid mapping history file ${filePath}; ignoring. ${String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Record a new version of a mapping (or its removal, when `mapping` is null).
+   * @param previous - The last known mapping, used as source of a removal entry
+   */
+  record(
+    key: string,
+    mapping: UserMapping | null,
+    previous: UserMapping | undefined,
+    trigger: ChangeTrigger,
+    versionId?: string
+  ): UserMappingHistoryEntry | undefined {
+    const origin = mapping ?? previous;
+    /* istanbul ignore if */
+    if (!origin) {
+      return undefined;
+    }
+
+    const history = this.entries.get(key) ?? [];
+    const entry: UserMappingHistoryEntry = {
+      version: (history[history.length - 1]?.version ?? 0) + 1,
+      recordedAt: new Date().toISOString(),
+      trigger,
+      ...(mapping ? { expression: mapping.expression } : { removed: true }),
+      sourceType: origin.sourceType,
+      source: origin.source,
+      name: origin.name,
+      url: origin.url,
+      server: origin.server,
+      versionId
+    };
+
+    history.push(entry);
+    this.entries.set(key, history.slice(-this.maxEntries));
+    this.persist(key);
+    return entry;
+  }
+
+  /**
+   * Get the history of a key, oldest first.
+   */
+  get(key: string): UserMappingHistoryEntry[] {
+    return (this.entries.get(key) ?? []).map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Get a specific version of a key (undefined if unknown or trimmed from the history).
+   */
+  getVersion(key: string, version: number): UserMappingHistoryEntry | undefined {
+    return this.entries.get(key)?.find(entry => entry.version === version);
+  }
+
+  /**
+   * Wait for pending history writes to finish.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pendingWrites.values()));
+  }
+
+  private persist(key: string): void {
+    const folder = this.folder;
+    if (!folder) {
+      return;
+    }
+
+    // Chain writes per key so they never interleave
+    const previous = this.pendingWrites.get(key) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      try {
+        await fs.mkdir(folder, { recursive: true });
+        await fs.writeFile(path.join(folder, `${key}.json`), JSON.stringify(this.entries.get(key) ?? [], null, 2), 'utf-8');
+      } catch (error) {
+        this.logger?.warn?.(`Failed to persist mapping history for '${key}'. ${String(error)}`);
+      }
+    });
+    this.pendingWrites.set(key, write);
+    void write.then(() => {
+      if (this.pendingWrites.get(key) === write) {
+        this.pendingWrites.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Load an optional peer dependency when the feature that needs it is first used.
+ * @param name - The module name (a package or a path inside one, e.g. 'ajv/dist/2020')
+ * @param feature - What needs the package, for the error message (e.g. 'YAML static values')
+ * @throws Error naming the package to install when it is missing
+ */
+export function requireOptional<T>(name: string, feature: string): T {
+  try {
+    return require(name) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'MODULE_NOT_FOUND' && String(error).includes(`'${name}'`)) {
+      const packageName = name.split('/')[0];
+      throw new Error(`Install the optional package '${packageName}' to use ${feature} (npm install ${packageName})`);
+    }
+    throw error;
+  }
+}
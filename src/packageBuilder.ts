@@ -0,0 +1,106 @@
+import type { PackageIndex, PackageManifest, Resource } from '@outburn/types';
+import { AliasDefinitionObject, AliasObject, SupportedFhirRelease, UserMapping } from './types';
+import { aliasObjectToConceptMap, expressionToStructureMap, mappingToExpressions } from './converters';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+
+const gzipAsync = promisify(gzip);
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Build the files of a FHIR NPM package: `package/package.json`, `package/.index.json`,
+ * one StructureMap per mapping and (optionally) the alias ConceptMap.
+ * Every resource carries the package version so it can be resolved by url, id and name.
+ */
+export function buildPackageFiles(sources: {
+  manifest: PackageManifest;
+  mappings: UserMapping[];
+  aliases?: { aliases: AliasObject | AliasDefinitionObject; resourceId: string };
+  canonicalBaseUrl: string;
+  fhirVersion: SupportedFhirRelease;
+}): Map<string, string> {
+  const version = sources.manifest.version;
+  const resources: Resource[] = [...sources.mappings]
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map(mapping => ({ ...expressionToStructureMap(mapping.key, mappingToExpressions(mapping), sources.canonicalBaseUrl, sources.fhirVersion), version }));
+
+  if (sources.aliases) {
+    resources.push({
+      ...aliasObjectToConceptMap(sources.aliases.aliases, sources.canonicalBaseUrl, undefined, sources.fhirVersion),
+      id: sources.aliases.resourceId,
+      version
+    });
+  }
+
+  const index: PackageIndex = { 'index-version': 1, files: [] };
+  const files = new Map<string, string>([['package/package.json', JSON.stringify(sources.manifest, null, 2)]]);
+  for (const resource of resources) {
+    const filename = `${resource.resourceType}-${resource.id}.json`;
+    index.files.push({
+      filename,
+      resourceType: resource.resourceType,
+      id: resource.id as string,
+      url: resource.url as string,
+      name: resource.name as string,
+      version
+    });
+    files.set(`package/${filename}`, JSON.stringify(resource, null, 2));
+  }
+  files.set('package/.index.json', JSON.stringify(index, null, 2));
+
+  return files;
+}
+
+/**
+ * Write files as a gzipped tarball (ustar format, the format of FHIR and npm packages)
+ */
+export async function writeTarball(outputPath: string, files: Map<string, string>): Promise<void> {
+  const mtime = Math.floor(Date.now() / 1000);
+  const blocks: Buffer[] = [];
+
+  for (const [name, content] of files) {
+    const data = Buffer.from(content, 'utf-8');
+    blocks.push(tarHeader(name, data.length, mtime), data);
+    const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, await gzipAsync(Buffer.concat(blocks)));
+}
+
+function tarHeader(name: string, size: number, mtime: number): Buffer {
+  if (Buffer.byteLength(name) > 100) {
+    throw new Error(`Package file name too long: ${name}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const write = (value: string, offset: number, length: number) => header.write(value, offset, length, 'utf-8');
+  const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0') + '\0';
+
+  write(name, 0, 100);
+  write(octal(0o644, 8), 100, 8);
+  write(octal(0, 8), 108, 8);
+  write(octal(0, 8), 116, 8);
+  write(octal(size, 12), 124, 12);
+  write(octal(mtime, 12), 136, 12);
+  write(' '.repeat(8), 148, 8);
+  write('0', 156, 1);
+  write('ustar\0', 257, 6);
+  write('00', 263, 2);
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8);
+
+  return header;
+}
@@ -1,9 +1,27 @@
-import { UserMapping, PackageMapping, StructureMap, GetPackageMappingOptions, ConceptMap, AliasObject, StaticJsonValue } from './types';
+import { UserMapping, PackageMapping, FhirServerSource, StructureMap, GetPackageMappingOptions, PackageMappingCandidate, PackageMappingMatchField, ConceptMap, AliasObject, AliasDefinitionObject, StaticJsonValue, MappingsFolderOptions, MappingsFolderFile, MappingsFolderConfig, NamespaceScheme, LoadDiagnostics, ServerStaticJsonResourceType, ServerStaticJsonValueMeta } from './types';
 import { Logger } from '@outburn/types';
-import { structureMapToExpression, conceptMapToAliasObject } from './converters';
+import { structureMapToExpression, structureMapToExpressions, conceptMapToAliasDefinitions } from './converters';
+import { ResolvedFhirServerSource, getNormalizedBaseUrl, resolveFhirServerSources } from './fhirServers';
+import { AmbiguousPackageMappingError } from './errors';
+import { parseStaticValue, staticValueExtension, STATIC_VALUE_EXTENSIONS } from './staticValueFormats';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+/**
+ * Tag marking Binary and Basic resources that hold FUME static JSON values
+ */
+const FUME_STATIC_JSON_TAG = { system: 'http://codes.fume.health', code: 'fume' };
+
+/**
+ * Extension holding the JSON text of a static JSON value in a Basic resource
+ */
+const STATIC_JSON_VALUE_EXTENSION_URL = 'http://fhir.fume.health/StructureDefinition/static-json-value';
+
+/**
+ * Resource types that can hold static JSON values on a FHIR server, highest precedence first
+ */
+const STATIC_JSON_RESOURCE_TYPES: ServerStaticJsonResourceType[] = ['Binary', 'Basic'];
+
 /**
  * Validate that a StructureMap is a FUME mapping
  * Must have the correct useContext and fume expression extension
@@ -53,12 +71,33 @@ export function isFumeMapping(structureMap: StructureMap): boolean {
   return false;
 }
 
+/**
+ * A configured mappings folder with normalized settings and its scan indexes.
+ */
+interface ResolvedMappingsFolder {
+  path: string;
+  fileExtension: string;
+  label?: string;
+  // key -> absolute path, refreshed on every scan (recursive mode only)
+  mappingFileIndex: Map<string, string>;
+  staticJsonFileIndex: Map<string, string>;
+}
+
 /**
  * Provider for user mappings (file + server)
- * Handles collision resolution: file overrides server
+ * Handles collision resolution: file overrides server, later folders override earlier ones,
+ * higher-precedence servers override lower ones
  */
 export class UserMappingProvider {
-  private fileExtension: string;
+  private folders: ResolvedMappingsFolder[];
+  private servers: ResolvedFhirServerSource[];
+  private mappingDiagnostics: LoadDiagnostics = { shadowedKeys: [], invalidKeys: [] };
+  private staticJsonDiagnostics: LoadDiagnostics = { shadowedKeys: [], invalidKeys: [] };
+  // Server label -> mapping key -> StructureMap meta, recorded by the last loadMappings()
+  private serverMappingsMeta = new Map<string, Map<string, { versionId?: string; lastUpdated?: string }>>();
+  private recursive: boolean;
+  private namespaceScheme: NamespaceScheme;
+  private aliasEnvironment?: string;
 
   // Generic key validation used across aliases/mappings (safe for JSONata variable binding)
   private static readonly KEY_REGEX = /^[A-Za-z0-9_]+$/;
@@ -71,27 +110,56 @@ export class UserMappingProvider {
   private static readonly FILE_MAPPING_KEY_MAX_LENGTH = 64;
   private static readonly JSON_EXTENSION = '.json';
   private static readonly RESERVED_ALIASES_JSON = 'aliases.json';
+  // Alias overlays of every environment (aliases.<env>.json) are never static JSON values
+  private static readonly ALIAS_OVERLAY_REGEX = /^aliases\.[A-Za-z0-9_-]+\.json$/i;
+  // Nor are JSON Schema sidecars of static JSON values (<key>.schema.json)
+  private static readonly SCHEMA_SIDECAR_SUFFIX = '.schema.json';
   
   constructor(
-    private mappingsFolder: string | undefined,
+    mappingsFolder: string | Array<string | MappingsFolderConfig> | undefined,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    private fhirClient: any | undefined,
+    fhirClient: any | FhirServerSource[] | undefined,
     private logger?: Logger,
-    fileExtension?: string
+    fileExtension?: string,
+    folderOptions?: MappingsFolderOptions
   ) {
-    const rawExt = fileExtension ?? '.fume';
+    this.servers = Array.isArray(fhirClient)
+      ? resolveFhirServerSources(fhirClient)
+      : fhirClient ? resolveFhirServerSources([{ fhirClient }]) : [];
+    this.recursive = folderOptions?.recursive === true;
+    this.namespaceScheme = folderOptions?.namespaceScheme ?? 'camelCase';
+    this.aliasEnvironment = folderOptions?.aliasEnvironment;
+
+    const defaultExtension = UserMappingProvider.normalizeFileExtension(fileExtension ?? '.fume');
+    const entries = mappingsFolder === undefined ? [] : Array.isArray(mappingsFolder) ? mappingsFolder : [mappingsFolder];
+    this.folders = entries
+      .map(entry => (typeof entry === 'string' ? { path: entry } : entry))
+      .filter(entry => !!entry.path)
+      .map(entry => ({
+        path: entry.path,
+        fileExtension: entry.fileExtension === undefined
+          ? defaultExtension
+          : UserMappingProvider.normalizeFileExtension(entry.fileExtension),
+        label: entry.label,
+        mappingFileIndex: new Map<string, string>(),
+        staticJsonFileIndex: new Map<string, string>()
+      }));
+  }
+
+  private static normalizeFileExtension(rawExt: string): string {
     const trimmed = rawExt.trim();
     if (!trimmed) {
       throw new Error(`Invalid fileExtension '${rawExt}'.`);
     }
 
     const normalized = trimmed.startsWith('.') ? trimmed.toLowerCase() : `.${trimmed.toLowerCase()}`;
-    this.fileExtension = normalized;
-
-    const ext = normalized;
-    if (ext === UserMappingProvider.JSON_EXTENSION) {
-      throw new Error(`Invalid fileExtension '${this.fileExtension}'. The '.json' extension is reserved (aliases.json).`);
+    if (normalized === UserMappingProvider.JSON_EXTENSION) {
+      throw new Error(`Invalid fileExtension '${normalized}'. The '.json' extension is reserved (aliases.json).`);
     }
+    if ((STATIC_VALUE_EXTENSIONS as readonly string[]).includes(normalized)) {
+      throw new Error(`Invalid fileExtension '${normalized}'. The '${normalized}' extension is reserved for static values.`);
+    }
+    return normalized;
   }
 
   private isValidKey(key: string): boolean {
@@ -120,32 +188,372 @@ export class UserMappingProvider {
     return this.isValidFileMappingKey(key);
   }
 
+  /**
+   * Get the highest-precedence mappings folder and its mapping file extension (used as write target).
+   */
+  getTargetFolder(): { path: string; fileExtension: string } | undefined {
+    const folder = this.folders[this.folders.length - 1];
+    return folder ? { path: folder.path, fileExtension: folder.fileExtension } : undefined;
+  }
+
+  /**
+   * Get the shadowed and invalid keys recorded by the last `loadMappings()` and `loadStaticJsonValuesWithRaw()`.
+   */
+  getLoadDiagnostics(): LoadDiagnostics {
+    return {
+      shadowedKeys: [...this.mappingDiagnostics.shadowedKeys, ...this.staticJsonDiagnostics.shadowedKeys],
+      invalidKeys: [...this.mappingDiagnostics.invalidKeys, ...this.staticJsonDiagnostics.invalidKeys]
+    };
+  }
+
+  /**
+   * Get the StructureMap versions of the FUME mappings found on a server by the last `loadMappings()`
+   * (including mappings shadowed by files or other servers).
+   */
+  getServerMappingsMeta(serverLabel: string): Map<string, { versionId?: string; lastUpdated?: string }> {
+    return new Map(this.serverMappingsMeta.get(serverLabel));
+  }
+
+  /**
+   * List all recognized files in the mappings folder(s): mapping files, static JSON values, aliases.json
+   * and the alias overlay of the configured environment.
+   * Only the winning file per key is listed (later folders override earlier ones).
+   * Invalid and shadowed keys are skipped silently; the loaders report them.
+   */
+  async listSourceFiles(): Promise<MappingsFolderFile[]> {
+    const aliasFiles: MappingsFolderFile[] = [];
+    const mappingFiles = new Map<string, MappingsFolderFile>();
+    const staticJsonFiles = new Map<string, MappingsFolderFile>();
+
+    for (const folder of this.folders) {
+      let relativePaths: string[];
+      try {
+        relativePaths = await this.listFolderFiles(folder);
+      } catch (_error) {
+        // Missing folder in a layered setup - nothing to track there
+        continue;
+      }
+
+      // Only the top-level aliases.json holds aliases
+      const aliasesFile = relativePaths.find(p => p.toLowerCase() === UserMappingProvider.RESERVED_ALIASES_JSON);
+      if (aliasesFile) {
+        aliasFiles.push({
+          key: 'aliases',
+          kind: 'aliases',
+          filePath: path.resolve(folder.path, aliasesFile),
+          relativePath: aliasesFile
+        });
+      }
+      const overlayName = `aliases.${this.aliasEnvironment}.json`.toLowerCase();
+      const overlayFile = this.aliasEnvironment ? relativePaths.find(p => p.toLowerCase() === overlayName) : undefined;
+      if (overlayFile) {
+        aliasFiles.push({
+          key: `aliases.${this.aliasEnvironment}`,
+          kind: 'aliases',
+          filePath: path.resolve(folder.path, overlayFile),
+          relativePath: overlayFile
+        });
+      }
+
+      for (const file of this.collectFiles(folder, relativePaths, 'mapping')) {
+        mappingFiles.set(file.key, { ...file, kind: 'mapping' });
+      }
+      for (const file of this.collectFiles(folder, relativePaths, 'staticJson')) {
+        staticJsonFiles.set(file.key, { ...file, kind: 'staticJson' });
+      }
+    }
+
+    return [...aliasFiles, ...mappingFiles.values(), ...staticJsonFiles.values()];
+  }
+
+  /**
+   * List file paths relative to a mappings folder ('/' separated).
+   * In recursive mode, files of a folder come before its subfolders, each in lexical order,
+   * so a shallower file wins when two files resolve to the same key.
+   */
+  private async listFolderFiles(folder: ResolvedMappingsFolder): Promise<string[]> {
+    if (!this.recursive) {
+      return await fs.readdir(folder.path);
+    }
+
+    const result: string[] = [];
+    const walk = async (relativeDir: string): Promise<void> => {
+      const entries = await fs.readdir(path.join(folder.path, relativeDir), { withFileTypes: true });
+      const files = entries.filter(e => !e.isDirectory()).map(e => e.name).sort();
+      // Hidden folders (.git, .vscode, ...) are never scanned
+      const dirs = entries.filter(e => e.isDirectory() && !e.name.startsWith('.')).map(e => e.name).sort();
+
+      for (const file of files) {
+        result.push(relativeDir ? `${relativeDir}/${file}` : file);
+      }
+      for (const dir of dirs) {
+        await walk(relativeDir ? `${relativeDir}/${dir}` : dir);
+      }
+    };
+
+    await walk('');
+    return result;
+  }
+
+  /**
+   * Derive the key of a file from its relative path, applying the namespace scheme to nested files.
+   */
+  private keyFromRelativePath(relativePath: string, extension: string): string {
+    const segments = relativePath.split('/');
+    segments[segments.length - 1] = path.basename(segments[segments.length - 1], extension);
+
+    if (segments.length === 1) {
+      return segments[0];
+    }
+
+    if (typeof this.namespaceScheme === 'function') {
+      return this.namespaceScheme(segments);
+    }
+
+    if (this.namespaceScheme === 'basename') {
+      return segments[segments.length - 1];
+    }
+
+    return segments
+      .map((segment, index) => (index === 0 ? segment : segment.charAt(0).toUpperCase() + segment.slice(1)))
+      .join('');
+  }
+
+  /**
+   * Select the files of one kind in a folder, derive and validate their keys, and drop shadowed duplicates.
+   * Refreshes the folder's key -> path index for that kind.
+   * Invalid and duplicate keys are logged and recorded only when `diagnostics` is passed (full loads).
+   */
+  private collectFiles(
+    folder: ResolvedMappingsFolder,
+    relativePaths: string[],
+    kind: 'mapping' | 'staticJson',
+    diagnostics?: LoadDiagnostics
+  ): Array<{ key: string; filePath: string; relativePath: string }> {
+    const result: Array<{ key: string; filePath: string; relativePath: string }> = [];
+    const byKey = new Map<string, string>();
+
+    for (const relativePath of relativePaths) {
+      const fileName = relativePath.split('/').pop() as string;
+      let key: string;
+
+      if (kind === 'mapping') {
+        if (!fileName.endsWith(folder.fileExtension)) {
+          continue;
+        }
+        key = this.keyFromRelativePath(relativePath, folder.fileExtension);
+        if (!this.isValidFileMappingKey(key)) {
+          if (diagnostics) {
+            const reason = `Mapping names must match ${UserMappingProvider.KEY_REGEX} and also be a valid FHIR id (no underscores, <=64 chars, must not start with a number).`;
+            this.logger?.warn?.(`Ignoring mapping file '${relativePath}' due to invalid mapping name '${key}'. ${reason}`);
+            diagnostics.invalidKeys.push({ type: 'mapping', key, source: path.resolve(folder.path, relativePath), reason });
+          }
+          continue;
+        }
+      } else {
+        const lower = fileName.toLowerCase();
+        const extension = staticValueExtension(fileName);
+        if (
+          !extension ||
+          lower === UserMappingProvider.RESERVED_ALIASES_JSON ||
+          UserMappingProvider.ALIAS_OVERLAY_REGEX.test(lower) ||
+          lower.endsWith(UserMappingProvider.SCHEMA_SIDECAR_SUFFIX)
+        ) {
+          continue;
+        }
+        key = this.keyFromRelativePath(relativePath, fileName.slice(-extension.length));
+        if (!this.isValidStaticJsonValueKey(key)) {
+          if (diagnostics) {
+            this.logger?.warn?.(
+              `Ignoring static JSON value file '${relativePath}' due to invalid key '${key}' (must match ${UserMappingProvider.KEY_REGEX}).`
+            );
+            diagnostics.invalidKeys.push({
+              type: 'staticJson',
+              key,
+              source: path.resolve(folder.path, relativePath),
+              reason: `Keys must match ${UserMappingProvider.KEY_REGEX} and must not be 'aliases'.`
+            });
+          }
+          continue;
+        }
+      }
+
+      const existing = byKey.get(key);
+      if (existing !== undefined) {
+        // A static value provided in several formats in one directory resolves by extension precedence
+        const replace =
+          kind === 'staticJson' &&
+          path.posix.dirname(existing) === path.posix.dirname(relativePath) &&
+          staticValueRank(relativePath) < staticValueRank(existing);
+        const [winner, ignored] = replace ? [relativePath, existing] : [existing, relativePath];
+        if (diagnostics) {
+          this.logger?.warn?.(`Ignoring file '${ignored}': key '${key}' is already provided by '${winner}'.`);
+          diagnostics.shadowedKeys.push({
+            type: kind,
+            key,
+            source: path.resolve(folder.path, ...winner.split('/')),
+            shadowedSources: [path.resolve(folder.path, ...ignored.split('/'))]
+          });
+        }
+        if (replace) {
+          byKey.set(key, relativePath);
+          const entry = result.find(file => file.key === key) as { filePath: string; relativePath: string };
+          entry.filePath = path.resolve(folder.path, ...relativePath.split('/'));
+          entry.relativePath = relativePath;
+        }
+        continue;
+      }
+
+      byKey.set(key, relativePath);
+      result.push({
+        key,
+        filePath: path.resolve(folder.path, ...relativePath.split('/')),
+        relativePath
+      });
+    }
+
+    const index = kind === 'mapping' ? folder.mappingFileIndex : folder.staticJsonFileIndex;
+    index.clear();
+    for (const file of result) {
+      index.set(file.key, file.filePath);
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve the absolute path of the winning mapping or static JSON file for a key.
+   * Folders are checked from highest to lowest precedence. Non-recursive mode derives the path
+   * from the key; recursive mode uses the scan index and rescans when the key is unknown or its
+   * indexed file is gone.
+   */
+  private async resolveFilePath(key: string, kind: 'mapping' | 'staticJson'): Promise<{
+    filePath: string;
+    folder: ResolvedMappingsFolder;
+  } | null> {
+    for (const folder of [...this.folders].reverse()) {
+      const filePath = await this.resolveFilePathInFolder(folder, key, kind);
+      if (filePath) {
+        return { filePath, folder };
+      }
+    }
+    return null;
+  }
+
+  private async resolveFilePathInFolder(
+    folder: ResolvedMappingsFolder,
+    key: string,
+    kind: 'mapping' | 'staticJson'
+  ): Promise<string | null> {
+    const exists = async (filePath: string): Promise<boolean> => {
+      try {
+        await fs.stat(filePath);
+        return true;
+      } catch (_error) {
+        return false;
+      }
+    };
+
+    if (!this.recursive) {
+      const extensions = kind === 'mapping' ? [folder.fileExtension] : STATIC_VALUE_EXTENSIONS;
+      for (const extension of extensions) {
+        const filePath = path.resolve(folder.path, `${key}${extension}`);
+        if (await exists(filePath)) {
+          return filePath;
+        }
+      }
+      return null;
+    }
+
+    const index = kind === 'mapping' ? folder.mappingFileIndex : folder.staticJsonFileIndex;
+    const indexed = index.get(key);
+    if (indexed && await exists(indexed)) {
+      return indexed;
+    }
+
+    // Unknown key, or the indexed file was moved or deleted - rescan
+    try {
+      this.collectFiles(folder, await this.listFolderFiles(folder), kind);
+    } catch (_error) {
+      return null;
+    }
+    return index.get(key) ?? null;
+  }
+
+  private describeFolder(folder: ResolvedMappingsFolder): string {
+    return folder.label ? `'${folder.label}'` : `'${folder.path}'`;
+  }
+
   /**
    * Load all user mappings from file and server
    * File mappings override server mappings on key collision (with warning)
    */
   async loadMappings(): Promise<Map<string, UserMapping>> {
     const mappings = new Map<string, UserMapping>();
+    this.mappingDiagnostics = { shadowedKeys: [], invalidKeys: [] };
+    this.serverMappingsMeta = new Map();
+    // Server candidates per key, highest precedence first
+    let serverCandidates = new Map<string, UserMapping[]>();
     
     // Load from server first
-    if (this.fhirClient) {
-      const serverMappings = await this.loadServerMappings();
-      for (const [key, mapping] of serverMappings) {
-        mappings.set(key, mapping);
+    if (this.servers.length > 0) {
+      serverCandidates = await this.loadServerMappings();
+      for (const [key, [winner]] of serverCandidates) {
+        mappings.set(key, winner);
       }
     }
     
     // Load from file (overrides server)
-    if (this.mappingsFolder) {
+    if (this.folders.length > 0) {
       const fileMappings = await this.loadFileMappings();
-      for (const [key, mapping] of fileMappings) {
-        if (mappings.has(key)) {
-          this.logger?.warn?.(`File mapping '${key}' overrides server mapping with same key`);
+      for (const [key, candidates] of fileMappings) {
+        const [winner, ...shadowedFiles] = candidates;
+        const serverMapping = mappings.get(key);
+
+        if (shadowedFiles.length > 0 || serverMapping) {
+          this.mappingDiagnostics.shadowedKeys.push({
+            type: 'mapping',
+            key,
+            source: winner.mapping.source,
+            shadowedSources: [
+              ...shadowedFiles.map(c => c.mapping.source),
+              ...(serverCandidates.get(key) ?? []).map(m => m.source)
+            ]
+          });
+          serverCandidates.delete(key);
         }
-        mappings.set(key, mapping);
+
+        if (shadowedFiles.length === 0) {
+          if (serverMapping) {
+            this.logger?.warn?.(`File mapping '${key}' overrides server mapping with same key`);
+          }
+        } else {
+          // Report the full shadowing chain, highest precedence first
+          const chain = [...shadowedFiles.map(c => `${this.describeFolder(c.folder)} (${c.mapping.source})`)];
+          if (serverMapping) {
+            chain.push(`server (${serverMapping.source})`);
+          }
+          this.logger?.warn?.(
+            `File mapping '${key}' from ${this.describeFolder(winner.folder)} (${winner.mapping.source}) ` +
+              `overrides mapping(s) with same key: ${chain.join(' > ')}`
+          );
+        }
+
+        mappings.set(key, winner.mapping);
       }
 
     }
+
+    for (const [key, [winner, ...shadowed]] of serverCandidates) {
+      if (shadowed.length > 0) {
+        this.mappingDiagnostics.shadowedKeys.push({
+          type: 'mapping',
+          key,
+          source: winner.source,
+          shadowedSources: shadowed.map(m => m.source)
+        });
+      }
+    }
     
     return mappings;
   }
@@ -156,16 +564,16 @@ export class UserMappingProvider {
    */
   async refreshMapping(key: string): Promise<UserMapping | null> {
     // Check text-based file mapping
-    if (this.mappingsFolder) {
+    if (this.folders.length > 0) {
       const fileMapping = await this.loadFileMapping(key);
       if (fileMapping) {
         return fileMapping;
       }
     }
     
-    // Check server
-    if (this.fhirClient) {
-      const serverMapping = await this.loadServerMapping(key);
+    // Check servers, highest precedence first
+    for (const server of [...this.servers].reverse()) {
+      const serverMapping = await this.loadServerMapping(key, server);
       if (serverMapping) {
         return serverMapping;
       }
@@ -174,73 +582,60 @@ export class UserMappingProvider {
     return null;
   }
 
+  /**
+   * Get the labels of the configured FHIR servers, lowest precedence first.
+   */
+  getServerLabels(): string[] {
+    return this.servers.map(server => server.label);
+  }
+
   /**
    * Poll server mappings, optionally filtered by _lastUpdated.
+   * Polls the server with the given label, or all servers (merged by precedence) if omitted.
    */
-  async searchServerMappings(lastUpdated?: string): Promise<{
+  async searchServerMappings(lastUpdated?: string, serverLabel?: string): Promise<{
     mappings: Map<string, UserMapping>;
     metaByKey: Map<string, { versionId?: string; lastUpdated?: string }>;
   }> {
     const mappings = new Map<string, UserMapping>();
     const metaByKey = new Map<string, { versionId?: string; lastUpdated?: string }>();
 
-    /* istanbul ignore if */
-    if (!this.fhirClient) {
-      return { mappings, metaByKey };
-    }
-
-    try {
-      const serverUrl = this.fhirClient.getBaseUrl();
-      const normalizedServerUrl = (typeof serverUrl === 'string' ? serverUrl : '').replace(/\/$/, '');
-      this.logger?.debug?.(`Polling mappings from FHIR server ${serverUrl}`);
+    const servers = serverLabel === undefined
+      ? this.servers
+      : this.servers.filter(server => server.label === serverLabel);
 
-      const params: Record<string, string> = {};
-      if (lastUpdated) {
-        params._lastUpdated = `ge${lastUpdated}`;
-      }
+    for (const server of servers) {
+      try {
+        const serverUrl = server.fhirClient.getBaseUrl();
+        this.logger?.debug?.(`Polling mappings from FHIR server ${serverUrl}`);
 
-      const resources = await this.fhirClient.search('StructureMap', params, { fetchAll: true, noCache: true });
+        const params: Record<string, string> = {};
+        if (lastUpdated) {
+          params._lastUpdated = `ge${lastUpdated}`;
+        }
 
-      if (resources && Array.isArray(resources)) {
-        for (const structureMap of resources as StructureMap[]) {
-          if (!isFumeMapping(structureMap)) {
-            continue;
-          }
+        const resources = await server.fhirClient.search('StructureMap', params, { fetchAll: true, noCache: true });
 
-          if (!this.isValidKey(structureMap.id)) {
-            this.logger?.warn?.(
-              `Ignoring server mapping '${structureMap.id}' due to invalid mapping name (must match ${UserMappingProvider.KEY_REGEX}).`
-            );
-            continue;
-          }
+        if (resources && Array.isArray(resources)) {
+          for (const structureMap of resources as StructureMap[]) {
+            const mapping = this.toServerMapping(structureMap, server);
+            if (!mapping) {
+              continue;
+            }
 
-          const expression = structureMapToExpression(structureMap);
-          if (!expression) {
-            continue;
+            mappings.set(mapping.key, mapping);
+            metaByKey.set(mapping.key, {
+              versionId: structureMap.meta?.versionId,
+              lastUpdated: structureMap.meta?.lastUpdated
+            });
           }
-
-          mappings.set(structureMap.id, {
-            key: structureMap.id,
-            expression,
-            sourceType: 'server',
-            source: normalizedServerUrl
-              ? `${normalizedServerUrl}/StructureMap/${structureMap.id}`
-              : (structureMap.url || 'server'),
-            name: structureMap.name,
-            url: structureMap.url
-          });
-
-          metaByKey.set(structureMap.id, {
-            versionId: structureMap.meta?.versionId,
-            lastUpdated: structureMap.meta?.lastUpdated
-          });
         }
+      } catch (error) {
+        /* istanbul ignore next */
+        const serverUrl = server.fhirClient.getBaseUrl();
+        /* istanbul ignore next */
+        this.logger?.error?.(`Failed to poll mappings from server ${serverUrl}:`, error);
       }
-    } catch (error) {
-      /* istanbul ignore next */
-      const serverUrl = this.fhirClient.getBaseUrl();
-      /* istanbul ignore next */
-      this.logger?.error?.(`Failed to poll mappings from server ${serverUrl}:`, error);
     }
 
     return { mappings, metaByKey };
@@ -248,13 +643,19 @@ export class UserMappingProvider {
 
   /**
    * Conditional read for a specific StructureMap.
+   * Reads from the server with the given label, or the highest-precedence server if omitted.
    */
   async conditionalReadServerMapping(
     key: string,
-    condition: { versionId?: string; lastUpdated?: string }
+    condition: { versionId?: string; lastUpdated?: string },
+    serverLabel?: string
   ): Promise<{ status: number; mapping?: UserMapping; meta?: { versionId?: string; lastUpdated?: string } }> {
+    const server = serverLabel === undefined
+      ? this.servers[this.servers.length - 1]
+      : this.servers.find(candidate => candidate.label === serverLabel);
+
     /* istanbul ignore if */
-    if (!this.fhirClient) {
+    if (!server) {
       return { status: 0 };
     }
 
@@ -266,38 +667,15 @@ export class UserMappingProvider {
     }
 
     try {
-      const serverUrl = this.fhirClient.getBaseUrl();
-      const normalizedServerUrl = (typeof serverUrl === 'string' ? serverUrl : '').replace(/\/$/, '');
-      const response = await this.fhirClient.conditionalRead('StructureMap', key, condition, { noCache: true });
+      const response = await server.fhirClient.conditionalRead('StructureMap', key, condition, { noCache: true });
 
       if (response.status === 200 && response.resource) {
         const structureMap = response.resource as StructureMap;
-
-        if (!isFumeMapping(structureMap)) {
-          return { status: 200 };
-        }
-
-        if (!this.isValidKey(structureMap.id)) {
-          this.logger?.warn?.(
-            `Ignoring server mapping '${structureMap.id}' due to invalid mapping name (must match ${UserMappingProvider.KEY_REGEX}).`
-          );
-          return { status: 200 };
-        }
-
-        const expression = structureMapToExpression(structureMap);
-        if (expression) {
+        const mapping = this.toServerMapping(structureMap, server);
+        if (mapping) {
           return {
             status: 200,
-            mapping: {
-              key: structureMap.id,
-              expression,
-              sourceType: 'server',
-              source: normalizedServerUrl
-                ? `${normalizedServerUrl}/StructureMap/${structureMap.id}`
-                : (structureMap.url || 'server'),
-              name: structureMap.name,
-              url: structureMap.url
-            },
+            mapping,
             meta: {
               versionId: structureMap.meta?.versionId,
               lastUpdated: structureMap.meta?.lastUpdated
@@ -314,49 +692,86 @@ export class UserMappingProvider {
     }
   }
 
-  private async loadFileMappings(): Promise<Map<string, UserMapping>> {
-    const mappings = new Map<string, UserMapping>();
-    
-    /* istanbul ignore if */
-    if (!this.mappingsFolder) {
-      return mappings;
+  /**
+   * Convert a server StructureMap into a user mapping.
+   * Returns null for non-FUME StructureMaps, invalid mapping names and missing expressions.
+   */
+  private toServerMapping(
+    structureMap: StructureMap,
+    server: ResolvedFhirServerSource,
+    diagnostics?: LoadDiagnostics
+  ): UserMapping | null {
+    // Only process FUME mappings
+    if (!isFumeMapping(structureMap)) {
+      return null;
     }
-    
-    try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      
-      const files = await fs.readdir(this.mappingsFolder);
-      const mappingFiles = files.filter(f => f.endsWith(this.fileExtension));
 
-      for (const file of mappingFiles) {
-        try {
-          const filePath = path.join(this.mappingsFolder, file);
-          const expression = await fs.readFile(filePath, 'utf-8');
-          const key = path.basename(file, this.fileExtension);
+    const normalizedServerUrl = getNormalizedBaseUrl(server.fhirClient);
+    if (!this.isValidKey(structureMap.id)) {
+      this.logger?.warn?.(
+        `Ignoring server mapping '${structureMap.id}' due to invalid mapping name (must match ${UserMappingProvider.KEY_REGEX}).`
+      );
+      diagnostics?.invalidKeys.push({
+        type: 'mapping',
+        key: structureMap.id,
+        source: normalizedServerUrl ? `${normalizedServerUrl}/StructureMap/${structureMap.id}` : server.label,
+        reason: `Mapping names must match ${UserMappingProvider.KEY_REGEX}.`
+      });
+      return null;
+    }
 
-          if (!this.isValidFileMappingKey(key)) {
-            this.logger?.warn?.(
-              `Ignoring mapping file '${file}' due to invalid mapping name '${key}'. ` +
-                `Mapping names must match ${UserMappingProvider.KEY_REGEX} and also be a valid FHIR id (no underscores, <=64 chars, must not start with a number).`
-            );
-            continue;
-          }
+    const expression = structureMapToExpression(structureMap);
+    if (!expression) {
+      return null;
+    }
 
-          mappings.set(key, {
-            key,
-            expression,
-            sourceType: 'file',
-            source: path.resolve(this.mappingsFolder, file)
-          });
-        } catch (error) {
-          /* istanbul ignore next */
-          this.logger?.error?.(`Failed to load mapping from file ${file}:`, error);
+    const rules = structureMapToExpressions(structureMap);
+    return {
+      key: structureMap.id,
+      expression,
+      ...(rules.length > 1 ? { rules } : {}),
+      sourceType: 'server',
+      source: normalizedServerUrl
+        ? `${normalizedServerUrl}/StructureMap/${structureMap.id}`
+        : (structureMap.url || server.label),
+      name: structureMap.name,
+      url: structureMap.url,
+      server: server.label
+    };
+  }
+
+  /**
+   * Load file mappings from all folders.
+   * Each key maps to its candidates, highest precedence (winning) first.
+   */
+  private async loadFileMappings(): Promise<Map<string, Array<{ mapping: UserMapping; folder: ResolvedMappingsFolder }>>> {
+    const mappings = new Map<string, Array<{ mapping: UserMapping; folder: ResolvedMappingsFolder }>>();
+
+    for (const folder of this.folders) {
+      try {
+        const files = this.collectFiles(folder, await this.listFolderFiles(folder), 'mapping', this.mappingDiagnostics);
+
+        for (const file of files) {
+          try {
+            const expression = await fs.readFile(file.filePath, 'utf-8');
+            const mapping: UserMapping = {
+              key: file.key,
+              expression,
+              sourceType: 'file',
+              source: file.filePath
+            };
+
+            // Later folders take precedence
+            mappings.set(file.key, [{ mapping, folder }, ...(mappings.get(file.key) ?? [])]);
+          } catch (error) {
+            /* istanbul ignore next */
+            this.logger?.error?.(`Failed to load mapping from file ${file.relativePath}:`, error);
+          }
         }
+      } catch (error) {
+        /* istanbul ignore next */
+        this.logger?.error?.(`Failed to read mappings folder ${folder.path}:`, error);
       }
-    } catch (error) {
-      /* istanbul ignore next */
-      this.logger?.error?.(`Failed to read mappings folder ${this.mappingsFolder}:`, error);
     }
     
     return mappings;
@@ -364,7 +779,7 @@ export class UserMappingProvider {
 
   async loadFileMapping(key: string): Promise<UserMapping | null> {
     /* istanbul ignore if */
-    if (!this.mappingsFolder) {
+    if (this.folders.length === 0) {
       return null;
     }
 
@@ -377,18 +792,17 @@ export class UserMappingProvider {
     }
     
     try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      
-      const filename = `${key}${this.fileExtension}`;
-      const filePath = path.join(this.mappingsFolder, filename);
-      const expression = await fs.readFile(filePath, 'utf-8');
+      const resolved = await this.resolveFilePath(key, 'mapping');
+      if (!resolved) {
+        return null;
+      }
+      const expression = await fs.readFile(resolved.filePath, 'utf-8');
 
       return {
         key,
         expression,
         sourceType: 'file',
-        source: path.resolve(this.mappingsFolder, filename)
+        source: resolved.filePath
       };
     } catch (_error) {
       /* istanbul ignore next */
@@ -401,8 +815,8 @@ export class UserMappingProvider {
 
   /**
    * Load all static JSON values from the mappings folder.
-   * - Includes `*.json` files
-   * - Excludes reserved `aliases.json`
+   * - Includes `*.json`, `*.yaml` / `*.yml`, `*.ndjson` and `*.csv` files
+   * - Excludes reserved `aliases.json`, alias overlays (`aliases.<env>.json`) and schema sidecars (`<key>.schema.json`)
    */
   async loadStaticJsonValues(): Promise<Map<string, StaticJsonValue>> {
     const { values } = await this.loadStaticJsonValuesWithRaw();
@@ -410,9 +824,11 @@ export class UserMappingProvider {
   }
 
   /**
-   * Load all static JSON values from the mappings folder and retain raw contents.
-   * - Includes `*.json` files
-   * - Excludes reserved `aliases.json`
+   * Load all static JSON values from the mappings folder and the FHIR servers, and retain raw contents.
+   * - Includes `*.json`, `*.yaml` / `*.yml`, `*.ndjson` and `*.csv` files
+   * - Excludes reserved `aliases.json`, alias overlays (`aliases.<env>.json`) and schema sidecars (`<key>.schema.json`)
+   * - Includes FUME-tagged Binary and Basic resources of every server; files override servers,
+   *   higher-precedence servers override lower ones
    */
   async loadStaticJsonValuesWithRaw(): Promise<{
     values: Map<string, StaticJsonValue>;
@@ -420,55 +836,77 @@ export class UserMappingProvider {
   }> {
     const values = new Map<string, StaticJsonValue>();
     const rawByKey = new Map<string, string>();
-
-    /* istanbul ignore if */
-    if (!this.mappingsFolder) {
-      return { values, rawByKey };
-    }
-
-    try {
-      const files = await fs.readdir(this.mappingsFolder);
-      const jsonFiles = files.filter((f: string) => f.toLowerCase().endsWith(UserMappingProvider.JSON_EXTENSION));
-
-      for (const file of jsonFiles) {
-        if (file.toLowerCase() === UserMappingProvider.RESERVED_ALIASES_JSON) {
-          continue;
-        }
-
-        const key = path.basename(file, UserMappingProvider.JSON_EXTENSION);
-        if (!this.isValidStaticJsonValueKey(key)) {
+    // Overridden sources per key, highest precedence first
+    const shadowedByKey = new Map<string, string[]>();
+    this.staticJsonDiagnostics = { shadowedKeys: [], invalidKeys: [] };
+
+    // Lowest precedence first, so higher-precedence servers and then files override
+    for (const server of this.servers) {
+      const loaded = await this.searchStaticJsonResources(server, {}, this.staticJsonDiagnostics);
+      for (const [key, value] of loaded.values) {
+        const overridden = values.get(key);
+        if (overridden) {
           this.logger?.warn?.(
-            `Ignoring static JSON value file '${file}' due to invalid key '${key}' (must match ${UserMappingProvider.KEY_REGEX}).`
+            `Server static JSON value '${key}' from '${server.label}' overrides server static JSON value from '${overridden.server}' with same key`
           );
-          continue;
+          shadowedByKey.set(key, [overridden.source, ...(shadowedByKey.get(key) ?? [])]);
         }
+        values.set(key, value);
+        rawByKey.set(key, loaded.rawByKey.get(key) as string);
+      }
+    }
 
-        try {
-          const filePath = path.join(this.mappingsFolder, file);
-          const raw = await fs.readFile(filePath, 'utf-8');
+    for (const folder of this.folders) {
+      try {
+        const files = this.collectFiles(folder, await this.listFolderFiles(folder), 'staticJson', this.staticJsonDiagnostics);
 
-          let parsed: unknown;
+        for (const file of files) {
           try {
-            parsed = JSON.parse(raw);
+            const raw = await fs.readFile(file.filePath, 'utf-8');
+
+            let parsed: unknown;
+            try {
+              parsed = parseStaticValue(raw, file.filePath);
+            } catch (error) {
+              this.logger?.warn?.(`Invalid static JSON value file '${file.relativePath}'; ignoring. ${String(error)}`);
+              continue;
+            }
+
+            const overridden = values.get(file.key);
+            if (overridden?.sourceType === 'server') {
+              this.logger?.warn?.(`File static JSON value '${file.key}' overrides server static JSON value ${overridden.source}`);
+              shadowedByKey.set(file.key, [overridden.source, ...(shadowedByKey.get(file.key) ?? [])]);
+            } else if (overridden) {
+              this.logger?.debug?.(
+                `Static JSON value '${file.key}' from ${this.describeFolder(folder)} overrides ${overridden.source}`
+              );
+              shadowedByKey.set(file.key, [overridden.source, ...(shadowedByKey.get(file.key) ?? [])]);
+            }
+
+            values.set(file.key, {
+              key: file.key,
+              value: parsed,
+              sourceType: 'file',
+              source: file.filePath
+            });
+            rawByKey.set(file.key, raw);
           } catch (error) {
-            this.logger?.warn?.(`Invalid static JSON value file '${file}'; ignoring. ${String(error)}`);
-            continue;
+            this.logger?.warn?.(`Failed to load static JSON value from file ${file.relativePath}; ignoring. ${String(error)}`);
           }
-
-          values.set(key, {
-            key,
-            value: parsed,
-            sourceType: 'file',
-            source: path.resolve(this.mappingsFolder, file)
-          });
-          rawByKey.set(key, raw);
-        } catch (error) {
-          this.logger?.warn?.(`Failed to load static JSON value from file ${file}; ignoring. ${String(error)}`);
         }
+      } catch (error) {
+        /* istanbul ignore next */
+        this.logger?.error?.(`Failed to read mappings folder ${folder.path}:`, error);
       }
-    } catch (error) {
-      /* istanbul ignore next */
-      this.logger?.error?.(`Failed to read mappings folder ${this.mappingsFolder}:`, error);
+    }
+
+    for (const [key, shadowedSources] of shadowedByKey) {
+      this.staticJsonDiagnostics.shadowedKeys.push({
+        type: 'staticJson',
+        key,
+        source: values.get(key)?.source as string,
+        shadowedSources
+      });
     }
 
     return { values, rawByKey };
@@ -479,7 +917,7 @@ export class UserMappingProvider {
    */
   async loadStaticJsonValue(key: string): Promise<StaticJsonValue | null> {
     /* istanbul ignore if */
-    if (!this.mappingsFolder) {
+    if (this.folders.length === 0) {
       return null;
     }
 
@@ -487,21 +925,23 @@ export class UserMappingProvider {
       return null;
     }
 
-    const filename = `${key}${UserMappingProvider.JSON_EXTENSION}`;
-    const filePath = path.join(this.mappingsFolder, filename);
+    const resolved = await this.resolveFilePath(key, 'staticJson');
+    if (!resolved) {
+      return null;
+    }
 
     try {
-      const raw = await fs.readFile(filePath, 'utf-8');
+      const raw = await fs.readFile(resolved.filePath, 'utf-8');
       try {
-        const parsed = JSON.parse(raw);
+        const parsed = parseStaticValue(raw, resolved.filePath);
         return {
           key,
           value: parsed,
           sourceType: 'file',
-          source: path.resolve(this.mappingsFolder, filename)
+          source: resolved.filePath
         };
       } catch (error) {
-        this.logger?.warn?.(`Invalid static JSON value file '${filename}'; ignoring. ${String(error)}`);
+        this.logger?.warn?.(`Invalid static JSON value file '${path.basename(resolved.filePath)}'; ignoring. ${String(error)}`);
         return null;
       }
     } catch (_error) {
@@ -510,11 +950,11 @@ export class UserMappingProvider {
   }
 
   /**
-   * Read raw JSON value file contents for change detection.
+   * Read raw static value file contents for change detection.
    */
   async readStaticJsonValueRaw(key: string): Promise<string | null> {
     /* istanbul ignore if */
-    if (!this.mappingsFolder) {
+    if (this.folders.length === 0) {
       return null;
     }
 
@@ -522,66 +962,269 @@ export class UserMappingProvider {
       return null;
     }
 
-    const filename = `${key}${UserMappingProvider.JSON_EXTENSION}`;
-    const filePath = path.join(this.mappingsFolder, filename);
+    const resolved = await this.resolveFilePath(key, 'staticJson');
+    if (!resolved) {
+      return null;
+    }
 
     try {
-      return await fs.readFile(filePath, 'utf-8');
+      return await fs.readFile(resolved.filePath, 'utf-8');
     } catch (_error) {
       return null;
     }
   }
 
-  private async loadServerMappings(): Promise<Map<string, UserMapping>> {
-    const mappings = new Map<string, UserMapping>();
+  /**
+   * Poll server static JSON values (FUME-tagged Binary and Basic resources), optionally filtered by _lastUpdated.
+   * Polls the server with the given label, or all servers (merged by precedence) if omitted.
+   */
+  async searchServerStaticJsonValues(lastUpdated?: string, serverLabel?: string): Promise<{
+    values: Map<string, StaticJsonValue>;
+    rawByKey: Map<string, string>;
+    metaByKey: Map<string, ServerStaticJsonValueMeta>;
+  }> {
+    const values = new Map<string, StaticJsonValue>();
+    const rawByKey = new Map<string, string>();
+    const metaByKey = new Map<string, ServerStaticJsonValueMeta>();
+
+    const servers = serverLabel === undefined
+      ? this.servers
+      : this.servers.filter(server => server.label === serverLabel);
+
+    for (const server of servers) {
+      const loaded = await this.searchStaticJsonResources(server, lastUpdated ? { _lastUpdated: `ge${lastUpdated}` } : {});
+      for (const [key, value] of loaded.values) {
+        values.set(key, value);
+        rawByKey.set(key, loaded.rawByKey.get(key) as string);
+        metaByKey.set(key, loaded.metaByKey.get(key) as ServerStaticJsonValueMeta);
+      }
+    }
+
+    return { values, rawByKey, metaByKey };
+  }
+
+  /**
+   * Conditional read for a specific server static JSON value.
+   * Reads the resource type recorded in `condition`, or Binary and then Basic when unknown.
+   * Reads from the server with the given label, or the highest-precedence server if omitted.
+   */
+  async conditionalReadServerStaticJsonValue(
+    key: string,
+    condition: Partial<ServerStaticJsonValueMeta>,
+    serverLabel?: string
+  ): Promise<{ status: number; value?: StaticJsonValue; raw?: string; meta?: ServerStaticJsonValueMeta }> {
+    const server = serverLabel === undefined
+      ? this.servers[this.servers.length - 1]
+      : this.servers.find(candidate => candidate.label === serverLabel);
+
     /* istanbul ignore if */
-    if (!this.fhirClient) {
-      return mappings;
+    if (!server || !this.isValidStaticJsonValueKey(key)) {
+      return { status: 0 };
     }
-    
+
+    const resourceTypes = condition.resourceType ? [condition.resourceType] : STATIC_JSON_RESOURCE_TYPES;
+    let status = 404;
+    for (const resourceType of resourceTypes) {
+      try {
+        const response = await server.fhirClient.conditionalRead(
+          resourceType,
+          key,
+          { versionId: condition.versionId, lastUpdated: condition.lastUpdated },
+          { noCache: true }
+        );
+
+        if (response.status === 200 && response.resource) {
+          const resource = response.resource as StaticJsonResource;
+          const converted = this.toServerStaticJsonValue(resource, server);
+          if (converted) {
+            return {
+              status: 200,
+              value: converted.value,
+              raw: converted.raw,
+              meta: { resourceType, versionId: resource.meta?.versionId, lastUpdated: resource.meta?.lastUpdated }
+            };
+          }
+          status = 200;
+          continue;
+        }
+
+        if (response.status !== 404 && response.status !== 410) {
+          return { status: response.status };
+        }
+        status = status === 200 ? status : response.status;
+      } catch (_error) {
+        /* istanbul ignore next */
+        return { status: 0 };
+      }
+    }
+
+    return { status };
+  }
+
+  /**
+   * Search the FUME-tagged Binary and Basic resources of one server.
+   * A Binary overrides a Basic resource with the same id.
+   */
+  private async searchStaticJsonResources(
+    server: ResolvedFhirServerSource,
+    params: Record<string, string>,
+    diagnostics?: LoadDiagnostics
+  ): Promise<{
+    values: Map<string, StaticJsonValue>;
+    rawByKey: Map<string, string>;
+    metaByKey: Map<string, ServerStaticJsonValueMeta>;
+  }> {
+    const values = new Map<string, StaticJsonValue>();
+    const rawByKey = new Map<string, string>();
+    const metaByKey = new Map<string, ServerStaticJsonValueMeta>();
+
+    // Lowest precedence first
+    for (const resourceType of [...STATIC_JSON_RESOURCE_TYPES].reverse()) {
+      try {
+        this.logger?.debug?.(`Loading static JSON values from ${resourceType} resources of FHIR server ${server.label}`);
+        const resources = await server.fhirClient.search(
+          resourceType,
+          { ...params, _tag: `${FUME_STATIC_JSON_TAG.system}|${FUME_STATIC_JSON_TAG.code}` },
+          { fetchAll: true, noCache: true }
+        );
+
+        if (resources && Array.isArray(resources)) {
+          for (const resource of resources as StaticJsonResource[]) {
+            const converted = this.toServerStaticJsonValue(resource, server, diagnostics);
+            if (!converted) {
+              continue;
+            }
+            const overridden = metaByKey.get(converted.value.key);
+            if (overridden) {
+              this.logger?.warn?.(
+                `Static JSON value '${converted.value.key}' on FHIR server ${server.label} is held by both ` +
+                  `${resourceType} and ${overridden.resourceType} resources; using ${resourceType}`
+              );
+            }
+            values.set(converted.value.key, converted.value);
+            rawByKey.set(converted.value.key, converted.raw);
+            metaByKey.set(converted.value.key, {
+              resourceType,
+              versionId: resource.meta?.versionId,
+              lastUpdated: resource.meta?.lastUpdated
+            });
+          }
+        }
+      } catch (error) {
+        /* istanbul ignore next */
+        this.logger?.error?.(`Failed to load static JSON values from ${resourceType} resources of server ${server.label}:`, error);
+      }
+    }
+
+    return { values, rawByKey, metaByKey };
+  }
+
+  /**
+   * Convert a server Binary (JSON content type) or Basic resource into a static JSON value.
+   * Returns null for resources without the FUME tag, invalid keys and missing or unparseable content.
+   */
+  private toServerStaticJsonValue(
+    resource: StaticJsonResource,
+    server: ResolvedFhirServerSource,
+    diagnostics?: LoadDiagnostics
+  ): { value: StaticJsonValue; raw: string } | null {
+    if (!isFumeStaticJsonResource(resource)) {
+      return null;
+    }
+
+    const normalizedServerUrl = getNormalizedBaseUrl(server.fhirClient);
+    const source = normalizedServerUrl
+      ? `${normalizedServerUrl}/${resource.resourceType}/${resource.id}`
+      : `${server.label}/${resource.resourceType}/${resource.id}`;
+    if (!this.isValidStaticJsonValueKey(resource.id)) {
+      this.logger?.warn?.(
+        `Ignoring server static JSON value '${resource.id}' due to invalid key (must match ${UserMappingProvider.KEY_REGEX}).`
+      );
+      diagnostics?.invalidKeys.push({
+        type: 'staticJson',
+        key: resource.id,
+        source,
+        reason: `Keys must match ${UserMappingProvider.KEY_REGEX} and must not be 'aliases'.`
+      });
+      return null;
+    }
+
+    let raw: string | undefined;
+    if (resource.resourceType === 'Binary') {
+      if (!/^application\/(?:[\w.-]+\+)?json\s*(?:;|$)/i.test(resource.contentType ?? '')) {
+        this.logger?.warn?.(`Ignoring server static JSON value ${source}: content type '${resource.contentType}' is not JSON.`);
+        return null;
+      }
+      raw = Buffer.from(resource.data ?? '', 'base64').toString('utf-8');
+    } else {
+      raw = resource.extension?.find(ext => ext.url === STATIC_JSON_VALUE_EXTENSION_URL)?.valueString;
+      if (raw === undefined) {
+        this.logger?.warn?.(`Ignoring server static JSON value ${source}: no ${STATIC_JSON_VALUE_EXTENSION_URL} extension.`);
+        return null;
+      }
+    }
+
     try {
-      const serverUrl = this.fhirClient.getBaseUrl();
-      const normalizedServerUrl = (typeof serverUrl === 'string' ? serverUrl : '').replace(/\/$/, '');
+      return {
+        value: { key: resource.id, value: JSON.parse(raw), sourceType: 'server', source, server: server.label },
+        raw
+      };
+    } catch (error) {
+      this.logger?.warn?.(`Invalid server static JSON value ${source}; ignoring. ${String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Load server mappings from all servers.
+   * Each key maps to its candidates, highest precedence (winning) first.
+   */
+  private async loadServerMappings(): Promise<Map<string, UserMapping[]>> {
+    const mappings = new Map<string, UserMapping[]>();
+
+    // Lowest precedence first, so higher-precedence servers override
+    for (const server of this.servers) {
+      for (const [key, mapping] of await this.loadServerMappingsFrom(server)) {
+        const previous = mappings.get(key) ?? [];
+        if (previous.length > 0) {
+          this.logger?.warn?.(
+            `Server mapping '${key}' from '${server.label}' overrides server mapping from '${previous[0].server}' with same key`
+          );
+        }
+        mappings.set(key, [mapping, ...previous]);
+      }
+    }
+
+    return mappings;
+  }
+
+  private async loadServerMappingsFrom(server: ResolvedFhirServerSource): Promise<Map<string, UserMapping>> {
+    const mappings = new Map<string, UserMapping>();
+
+    try {
+      const serverUrl = server.fhirClient.getBaseUrl();
       this.logger?.debug?.(`Loading mappings from FHIR server ${serverUrl}`);
       
       // Search for all StructureMap resources using fetchAll for automatic pagination
-      const resources = await this.fhirClient.search('StructureMap', {}, { fetchAll: true, noCache: true });
+      const resources = await server.fhirClient.search('StructureMap', {}, { fetchAll: true, noCache: true });
 
       if (resources && Array.isArray(resources)) {
+        const metaByKey = new Map<string, { versionId?: string; lastUpdated?: string }>();
         for (const structureMap of resources as StructureMap[]) {
-          // Only process FUME mappings
-          const isFume = isFumeMapping(structureMap);
-          /* istanbul ignore if */
-          if (!isFume) {
-            continue;
-          }
-          
-          if (!this.isValidKey(structureMap.id)) {
-            this.logger?.warn?.(
-              `Ignoring server mapping '${structureMap.id}' due to invalid mapping name (must match ${UserMappingProvider.KEY_REGEX}).`
-            );
-            continue;
-          }
-
-          const expression = structureMapToExpression(structureMap);
-
-          if (expression) {
-            mappings.set(structureMap.id, {
-              key: structureMap.id,
-              expression,
-              sourceType: 'server',
-              source: normalizedServerUrl
-                ? `${normalizedServerUrl}/StructureMap/${structureMap.id}`
-                : (structureMap.url || 'server'),
-              name: structureMap.name,
-              url: structureMap.url
+          const mapping = this.toServerMapping(structureMap, server, this.mappingDiagnostics);
+          if (mapping) {
+            mappings.set(mapping.key, mapping);
+            metaByKey.set(mapping.key, {
+              versionId: structureMap.meta?.versionId,
+              lastUpdated: structureMap.meta?.lastUpdated
             });
           }
         }
+        this.serverMappingsMeta.set(server.label, metaByKey);
       }
     } catch (error) {
       /* istanbul ignore next */
-      const serverUrl = this.fhirClient.getBaseUrl();
+      const serverUrl = server.fhirClient.getBaseUrl();
       /* istanbul ignore next */
       this.logger?.error?.(`Failed to load mappings from server ${serverUrl}:`, error);
     }
@@ -589,13 +1232,7 @@ export class UserMappingProvider {
     return mappings;
   }
 
-  private async loadServerMapping(key: string): Promise<UserMapping | null> {
-    
-    /* istanbul ignore if */
-    if (!this.fhirClient) {
-      return null;
-    }
-
+  private async loadServerMapping(key: string, server: ResolvedFhirServerSource): Promise<UserMapping | null> {
     if (!this.isValidKey(key)) {
       this.logger?.warn?.(
         `Ignoring server mapping refresh for invalid mapping name '${key}' (must match ${UserMappingProvider.KEY_REGEX}).`
@@ -604,30 +1241,10 @@ export class UserMappingProvider {
     }
     
     try {
-      const serverUrl = this.fhirClient.getBaseUrl();
-      const normalizedServerUrl = (typeof serverUrl === 'string' ? serverUrl : '').replace(/\/$/, '');
-      const structureMap = await this.fhirClient.read('StructureMap', key, { noCache: true }) as StructureMap;
+      const structureMap = await server.fhirClient.read('StructureMap', key, { noCache: true }) as StructureMap;
 
-      if (structureMap && isFumeMapping(structureMap)) {
-        if (!this.isValidKey(structureMap.id)) {
-          this.logger?.warn?.(
-            `Ignoring server mapping '${structureMap.id}' due to invalid mapping name (must match ${UserMappingProvider.KEY_REGEX}).`
-          );
-          return null;
-        }
-        const expression = structureMapToExpression(structureMap);
-        if (expression) {
-          return {
-            key: structureMap.id,
-            expression,
-            sourceType: 'server',
-            source: normalizedServerUrl
-              ? `${normalizedServerUrl}/StructureMap/${structureMap.id}`
-              : (structureMap.url || 'server'),
-            name: structureMap.name,
-            url: structureMap.url
-          };
-        }
+      if (structureMap) {
+        return this.toServerMapping(structureMap, server);
       }
     } catch (_error) {
       /* istanbul ignore next */
@@ -638,15 +1255,33 @@ export class UserMappingProvider {
   }
 }
 
+/**
+ * In-memory index of the package mappings in one package context
+ */
+interface PackageMappingIndex {
+  mappings: PackageMapping[];
+  // Every StructureMap in the context (null when not a usable FUME mapping), keyed by url/id/name in lookup order
+  byField: Record<PackageMappingMatchField, Map<string, Array<PackageMapping | null>>>;
+}
+
+/**
+ * Identifier fields in resolution order (most specific first)
+ */
+const PACKAGE_MAPPING_MATCH_FIELDS: PackageMappingMatchField[] = ['url', 'id', 'name'];
+
 /**
  * Provider for package mappings
  * No collision handling needed - packages are immutable
  */
 export class PackageMappingProvider {
+  private indexes: Map<string, Promise<PackageMappingIndex>> = new Map();
+  private indexedContext?: string;
+
   constructor(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private packageExplorer: any,
-    private logger?: Logger
+    private logger?: Logger,
+    private options: { index?: boolean; strict?: boolean } = {}
   ) {}
 
   /**
@@ -654,38 +1289,25 @@ export class PackageMappingProvider {
    * Returns array since package mappings don't need key-based lookup
    */
   async loadMappings(options?: GetPackageMappingOptions): Promise<PackageMapping[]> {
+    if (this.options.index) {
+      const index = await this.getIndex(options);
+      if (index) {
+        return [...index.mappings];
+      }
+    }
+
     const mappings: PackageMapping[] = [];
 
     try {
       this.logger?.debug?.('Loading StructureMap resources from package context');
 
-      // Build filter
-      const filter: Record<string, unknown> = { resourceType: 'StructureMap' };
-      if (options?.packageContext) {
-        filter.package = options.packageContext;
-      }
-
       // Load all StructureMap resources from the package context
-      const structureMaps = await this.packageExplorer.lookup(filter);
+      const structureMaps = await this.packageExplorer.lookup(this.buildFilter(options));
 
       for (const structureMap of structureMaps as StructureMap[]) {
-        // Only process FUME mappings
-        if (!isFumeMapping(structureMap)) {
-          continue;
-        }
-        
-        const expression = structureMapToExpression(structureMap);
-
-        if (expression && structureMap.__packageId && structureMap.__packageVersion) {
-          mappings.push({
-            id: structureMap.id,
-            expression,
-            packageId: structureMap.__packageId,
-            packageVersion: structureMap.__packageVersion,
-            filename: structureMap.__filename as string,
-            name: structureMap.name,
-            url: structureMap.url
-          });
+        const mapping = toPackageMapping(structureMap);
+        if (mapping) {
+          mappings.push(mapping);
         }
       }
     } catch (error) {
@@ -698,33 +1320,38 @@ export class PackageMappingProvider {
 
   /**
    * Get a package mapping by identifier (tries url, id, name in order)
-   * Returns first successful resolution
+   * Returns first successful resolution; in strict mode, throws `AmbiguousPackageMappingError`
+   * when the first matching field matches several mappings
    */
   async getMapping(identifier: string, options?: GetPackageMappingOptions): Promise<PackageMapping | null> {
-    // Build base filter
-    const baseFilter: Record<string, unknown> = { resourceType: 'StructureMap' };
-    if (options?.packageContext) {
-      baseFilter.package = options.packageContext;
+    const index = this.options.index ? await this.getIndex(options) : undefined;
+
+    if (options?.strict ?? this.options.strict) {
+      for (const field of PACKAGE_MAPPING_MATCH_FIELDS) {
+        const matches = await this.findMatches(identifier, field, options, index);
+        if (matches.length > 1) {
+          throw new AmbiguousPackageMappingError(identifier, field, matches.map(m => toCandidate(m, field)));
+        }
+        if (matches.length === 1) {
+          return matches[0];
+        }
+      }
+      return null;
+    }
+
+    if (index) {
+      return this.lookupIndex(index, identifier, options);
     }
 
+    // Build base filter
+    const baseFilter = this.buildFilter(options);
+
     // Try URL first (most specific)
     try {
       const filter = { ...baseFilter, url: identifier };
-      const structureMap = await this.packageExplorer.resolve(filter) as StructureMap;
-      
-      if (structureMap && isFumeMapping(structureMap)) {
-        const expression = structureMapToExpression(structureMap);
-        if (expression && structureMap.__packageId && structureMap.__packageVersion) {
-          return {
-            id: structureMap.id,
-            expression,
-            packageId: structureMap.__packageId,
-            packageVersion: structureMap.__packageVersion,
-            filename: structureMap.__filename as string,
-            name: structureMap.name,
-            url: structureMap.url
-          };
-        }
+      const mapping = toPackageMapping(await this.packageExplorer.resolve(filter) as StructureMap);
+      if (mapping) {
+        return mapping;
       }
     } catch (_error) {
       /* istanbul ignore next */
@@ -734,21 +1361,9 @@ export class PackageMappingProvider {
     // Try ID
     try {
       const filter = { ...baseFilter, id: identifier };
-      const structureMap = await this.packageExplorer.resolve(filter) as StructureMap;
-      
-      if (structureMap && isFumeMapping(structureMap)) {
-        const expression = structureMapToExpression(structureMap);
-        if (expression && structureMap.__packageId && structureMap.__packageVersion) {
-          return {
-            id: structureMap.id,
-            expression,
-            packageId: structureMap.__packageId,
-            packageVersion: structureMap.__packageVersion,
-            filename: structureMap.__filename as string,
-            name: structureMap.name,
-            url: structureMap.url
-          };
-        }
+      const mapping = toPackageMapping(await this.packageExplorer.resolve(filter) as StructureMap);
+      if (mapping) {
+        return mapping;
       }
     } catch (_error) {
       /* istanbul ignore next */
@@ -761,22 +1376,7 @@ export class PackageMappingProvider {
       const structureMaps = await this.packageExplorer.lookup(filter);
       
       if (structureMaps && structureMaps.length > 0) {
-        const structureMap = structureMaps[0] as StructureMap;
-        
-        if (isFumeMapping(structureMap)) {
-          const expression = structureMapToExpression(structureMap);
-          if (expression && structureMap.__packageId && structureMap.__packageVersion) {
-            return {
-              id: structureMap.id,
-              expression,
-              packageId: structureMap.__packageId,
-              packageVersion: structureMap.__packageVersion,
-              filename: structureMap.__filename as string,
-              name: structureMap.name,
-              url: structureMap.url
-            };
-          }
-        }
+        return toPackageMapping(structureMaps[0] as StructureMap);
       }
     } catch (_error) {
       /* istanbul ignore next */
@@ -785,13 +1385,220 @@ export class PackageMappingProvider {
 
     return null;
   }
+
+  /**
+   * Get every package mapping matching an identifier by url, id or name (in that order)
+   */
+  async resolveCandidates(identifier: string, options?: GetPackageMappingOptions): Promise<PackageMappingCandidate[]> {
+    const index = this.options.index ? await this.getIndex(options) : undefined;
+    const candidates: PackageMappingCandidate[] = [];
+    for (const field of PACKAGE_MAPPING_MATCH_FIELDS) {
+      const matches = await this.findMatches(identifier, field, options, index);
+      candidates.push(...matches.map(m => toCandidate(m, field)));
+    }
+    return candidates;
+  }
+
+  /**
+   * Build the index for a package context ahead of the first lookup (no-op unless the index is enabled)
+   */
+  async buildIndex(options?: GetPackageMappingOptions): Promise<void> {
+    if (this.options.index) {
+      await this.getIndex(options);
+    }
+  }
+
+  /**
+   * Drop all indexed package contexts (rebuilt on next use)
+   */
+  invalidateIndex(): void {
+    this.indexes.clear();
+  }
+
+  /**
+   * Look up an identifier the way `getMapping` resolves it: url, then id, then the first name match.
+   * A url or id shared by several StructureMaps is left to the explorer's duplicate resolution.
+   */
+  private async lookupIndex(
+    index: PackageMappingIndex,
+    identifier: string,
+    options?: GetPackageMappingOptions
+  ): Promise<PackageMapping | null> {
+    for (const field of ['url', 'id'] as const) {
+      const matches = index.byField[field].get(identifier);
+      if (matches?.length === 1 && matches[0]) {
+        return matches[0];
+      }
+      if (matches && matches.length > 1) {
+        try {
+          const filter = { ...this.buildFilter(options), [field]: identifier };
+          const mapping = toPackageMapping(await this.packageExplorer.resolve(filter) as StructureMap);
+          if (mapping) {
+            return mapping;
+          }
+        } catch (_error) {
+          // Ambiguous, try next
+        }
+      }
+    }
+
+    return index.byField.name.get(identifier)?.[0] ?? null;
+  }
+
+  private async findMatches(
+    identifier: string,
+    field: PackageMappingMatchField,
+    options?: GetPackageMappingOptions,
+    index?: PackageMappingIndex
+  ): Promise<PackageMapping[]> {
+    let matches: Array<PackageMapping | null>;
+    if (index) {
+      matches = index.byField[field].get(identifier) ?? [];
+    } else {
+      try {
+        const structureMaps = await this.packageExplorer.lookup({ ...this.buildFilter(options), [field]: identifier });
+        matches = (structureMaps as StructureMap[] ?? []).map(toPackageMapping);
+      } catch (_error) {
+        /* istanbul ignore next */
+        matches = [];
+      }
+    }
+    return matches.filter((mapping): mapping is PackageMapping => mapping !== null);
+  }
+
+  private buildFilter(options?: GetPackageMappingOptions): Record<string, unknown> {
+    const filter: Record<string, unknown> = { resourceType: 'StructureMap' };
+    if (options?.packageContext) {
+      filter.package = options.packageContext;
+    }
+    return filter;
+  }
+
+  private async getIndex(options?: GetPackageMappingOptions): Promise<PackageMappingIndex | undefined> {
+    // Packages are immutable, but the explorer's context (loaded packages) may change
+    const context = JSON.stringify(this.packageExplorer.getContextPackages?.() ?? null);
+    if (context !== this.indexedContext) {
+      if (this.indexedContext !== undefined) {
+        this.logger?.debug?.('Package explorer context changed; invalidating package mapping index');
+      }
+      this.indexes.clear();
+      this.indexedContext = context;
+    }
+
+    const scope = JSON.stringify(options?.packageContext ?? null);
+    let index = this.indexes.get(scope);
+    if (!index) {
+      index = this.createIndex(options);
+      this.indexes.set(scope, index);
+    }
+
+    try {
+      return await index;
+    } catch (error) {
+      if (this.indexes.get(scope) === index) {
+        this.indexes.delete(scope);
+      }
+      this.logger?.warn?.(`Failed to index package mappings; resolving directly. ${String(error)}`);
+      return undefined;
+    }
+  }
+
+  private async createIndex(options?: GetPackageMappingOptions): Promise<PackageMappingIndex> {
+    this.logger?.debug?.('Indexing StructureMap resources from package context');
+    const index: PackageMappingIndex = { mappings: [], byField: { url: new Map(), id: new Map(), name: new Map() } };
+    const add = (map: Map<string, Array<PackageMapping | null>>, key: string | undefined, mapping: PackageMapping | null) => {
+      if (key) {
+        map.set(key, [...(map.get(key) ?? []), mapping]);
+      }
+    };
+
+    const structureMaps = await this.packageExplorer.lookup(this.buildFilter(options));
+    for (const structureMap of structureMaps as StructureMap[]) {
+      const mapping = toPackageMapping(structureMap);
+      if (mapping) {
+        index.mappings.push(mapping);
+      }
+      add(index.byField.url, structureMap.url, mapping);
+      add(index.byField.id, structureMap.id, mapping);
+      add(index.byField.name, structureMap.name, mapping);
+    }
+
+    this.logger?.debug?.(`Indexed ${index.mappings.length} package mapping(s)`);
+    return index;
+  }
+}
+
+/**
+ * Convert a package StructureMap to a PackageMapping (null if not a usable FUME mapping)
+ */
+function toPackageMapping(structureMap: StructureMap | undefined): PackageMapping | null {
+  if (!structureMap || !isFumeMapping(structureMap)) {
+    return null;
+  }
+
+  const expression = structureMapToExpression(structureMap);
+  if (!expression || !structureMap.__packageId || !structureMap.__packageVersion) {
+    return null;
+  }
+
+  const rules = structureMapToExpressions(structureMap);
+  return {
+    id: structureMap.id,
+    expression,
+    ...(rules.length > 1 ? { rules } : {}),
+    packageId: structureMap.__packageId,
+    packageVersion: structureMap.__packageVersion,
+    filename: structureMap.__filename as string,
+    name: structureMap.name,
+    url: structureMap.url
+  };
+}
+
+/**
+ * Candidate metadata of a package mapping (without the expression)
+ */
+function toCandidate(mapping: PackageMapping, matchedBy: PackageMappingMatchField): PackageMappingCandidate {
+  return {
+    id: mapping.id,
+    packageId: mapping.packageId,
+    packageVersion: mapping.packageVersion,
+    filename: mapping.filename,
+    name: mapping.name,
+    url: mapping.url,
+    matchedBy
+  };
+}
+
+/**
+ * A Binary or Basic resource that may hold a static JSON value
+ */
+interface StaticJsonResource {
+  resourceType: ServerStaticJsonResourceType;
+  id: string;
+  meta?: { versionId?: string; lastUpdated?: string; tag?: Array<{ system?: string; code?: string }> };
+  // Binary
+  contentType?: string;
+  data?: string;
+  // Basic
+  extension?: Array<{ url: string; valueString?: string }>;
+}
+
+/**
+ * Validate that a Binary or Basic resource holds a FUME static JSON value
+ * Must carry the FUME tag
+ */
+export function isFumeStaticJsonResource(resource: { resourceType?: string; meta?: { tag?: Array<{ system?: string; code?: string }> } }): boolean {
+  return (
+    (STATIC_JSON_RESOURCE_TYPES as string[]).includes(resource.resourceType ?? '') &&
+    (resource.meta?.tag ?? []).some(tag => tag.system === FUME_STATIC_JSON_TAG.system && tag.code === FUME_STATIC_JSON_TAG.code)
+  );
 }
 
 /**
  * Validate that a ConceptMap is a FUME alias resource
  * Must have the correct useContext
  */
-function isFumeAliasResource(conceptMap: ConceptMap): boolean {
+export function isFumeAliasResource(conceptMap: ConceptMap): boolean {
   if (!conceptMap.useContext || conceptMap.useContext.length === 0) {
     return false;
   }
@@ -819,10 +1626,16 @@ export class AliasProvider {
 
   /**
    * Result of alias loading with metadata about the source ConceptMap.
-   * @returns {{ aliases: AliasObject, resourceId?: string }} A promise that resolves to an object containing the resolved aliases
-   * and the originating ConceptMap resource id, if available.
+   * @returns {{ aliases: AliasObject, definitions?: AliasDefinitionObject, resourceId?: string, resource?: ConceptMap }} A promise that resolves to an object containing the resolved aliases,
+   * their definitions (description, deprecation, group), the originating ConceptMap resource id and the ConceptMap itself, if available.
    */
-  async loadAliasesWithMetadata(): Promise<{ aliases: AliasObject; resourceId?: string; meta?: { versionId?: string; lastUpdated?: string } }> {
+  async loadAliasesWithMetadata(): Promise<{
+    aliases: AliasObject;
+    definitions?: AliasDefinitionObject;
+    resourceId?: string;
+    meta?: { versionId?: string; lastUpdated?: string };
+    resource?: ConceptMap;
+  }> {
     /* istanbul ignore if */
     if (!this.fhirClient) {
       return { aliases: {}, resourceId: undefined, meta: undefined };
@@ -841,17 +1654,20 @@ export class AliasProvider {
             return { aliases: {}, resourceId: undefined, meta: undefined };
           }
 
-          const aliases = conceptMapToAliasObject(conceptMap, this.logger);
+          const definitions = conceptMapToAliasDefinitions(conceptMap, this.logger);
+          const aliases = toAliasObject(definitions);
           this.logger?.debug?.(
             `Loaded ${Object.keys(aliases).length} alias(es) from server (ConceptMap id: ${conceptMap.id || configuredId})`
           );
           return {
             aliases,
+            definitions,
             resourceId: conceptMap.id || configuredId,
             meta: {
               versionId: conceptMap.meta?.versionId,
               lastUpdated: conceptMap.meta?.lastUpdated
-            }
+            },
+            resource: conceptMap
           };
         } catch (error) {
           this.logger?.error?.(`Failed to load alias ConceptMap '${configuredId}' from server ${serverUrl}:`, error);
@@ -886,7 +1702,8 @@ export class AliasProvider {
       }
       
       const conceptMap = aliasResources[0] as ConceptMap;
-      const aliases = conceptMapToAliasObject(conceptMap, this.logger);
+      const definitions = conceptMapToAliasDefinitions(conceptMap, this.logger);
+      const aliases = toAliasObject(definitions);
 
       // Keep AliasProvider logging lightweight; FumeMappingProvider logs the id on initialize/reload.
       this.logger?.debug?.(
@@ -895,11 +1712,13 @@ export class AliasProvider {
 
       return {
         aliases,
+        definitions,
         resourceId: conceptMap.id,
         meta: {
           versionId: conceptMap.meta?.versionId,
           lastUpdated: conceptMap.meta?.lastUpdated
-        }
+        },
+        resource: conceptMap
       };
       
     } catch (error) {
@@ -918,7 +1737,13 @@ export class AliasProvider {
   async conditionalReadAliases(
     resourceId: string,
     condition: { versionId?: string; lastUpdated?: string }
-  ): Promise<{ status: number; aliases?: AliasObject; resourceId?: string; meta?: { versionId?: string; lastUpdated?: string } }> {
+  ): Promise<{
+    status: number;
+    aliases?: AliasObject;
+    definitions?: AliasDefinitionObject;
+    resourceId?: string;
+    meta?: { versionId?: string; lastUpdated?: string };
+  }> {
     /* istanbul ignore if */
     if (!this.fhirClient) {
       return { status: 0 };
@@ -928,10 +1753,11 @@ export class AliasProvider {
       const response = await this.fhirClient.conditionalRead('ConceptMap', resourceId, condition, { noCache: true });
       if (response.status === 200 && response.resource) {
         const conceptMap = response.resource as ConceptMap;
-        const aliases = conceptMapToAliasObject(conceptMap, this.logger);
+        const definitions = conceptMapToAliasDefinitions(conceptMap, this.logger);
         return {
           status: 200,
-          aliases,
+          aliases: toAliasObject(definitions),
+          definitions,
           resourceId: conceptMap.id || resourceId,
           meta: {
             versionId: conceptMap.meta?.versionId,
@@ -956,3 +1782,21 @@ export class AliasProvider {
     return result.aliases;
   }
 }
+
+/**
+ * Alias values of alias definitions
+ */
+function toAliasObject(definitions: AliasDefinitionObject): AliasObject {
+  const aliases: AliasObject = {};
+  for (const [key, definition] of Object.entries(definitions)) {
+    aliases[key] = definition.value;
+  }
+  return aliases;
+}
+
+/**
+ * Precedence of a static value file by extension (lower wins).
+ */
+function staticValueRank(relativePath: string): number {
+  return STATIC_VALUE_EXTENSIONS.indexOf(staticValueExtension(relativePath) as typeof STATIC_VALUE_EXTENSIONS[number]);
+}
@@ -0,0 +1,170 @@
+import { FhirClient } from '@outburn/fhir-client';
+import { Logger } from '@outburn/types';
+import { AliasObject, ConceptMap, PublishResult, PublishStatus, StructureMap, SupportedFhirRelease, UserMapping } from './types';
+import { aliasObjectToConceptMap, conceptMapToAliasObject, expressionToStructureMap, structureMapToExpression, structureMapToExpressions, updateStructureMapExpression } from './converters';
+import { isDeepStrictEqual } from 'util';
+
+/**
+ * Publish mappings to a FHIR server as StructureMaps (resource id = mapping key).
+ * Existing resources are compared by expression and updated in place (only the expression and date change)
+ * with `If-Match` on their `meta.versionId`; new ones are created with `If-None-Match: *`.
+ * An existing resource whose version is not the last synced one in `syncedVersionIds` (or that was never synced)
+ * is reported as a conflict without writing, and so is a rejected precondition (409/412).
+ * An existing resource without `meta.versionId` is not written blind: it is reported as failed.
+ */
+export async function publishMappings(
+  fhirClient: FhirClient,
+  mappings: UserMapping[],
+  options: { dryRun: boolean; canonicalBaseUrl: string; fhirVersion: SupportedFhirRelease; syncedVersionIds: Map<string, string | undefined> },
+  logger?: Logger
+): Promise<PublishResult[]> {
+  const results: PublishResult[] = [];
+
+  for (const mapping of mappings) {
+    const key = mapping.key;
+
+    let existing: StructureMap | undefined;
+    try {
+      const response = await fhirClient.conditionalRead<StructureMap>('StructureMap', key, {}, { noCache: true });
+      if (response.status === 200 && response.resource) {
+        existing = response.resource;
+      } else if (response.status !== 404 && response.status !== 410) {
+        results.push({ key, status: 'failed', message: `Unexpected status ${response.status} reading StructureMap/${key}` });
+        continue;
+      }
+    } catch (error) {
+      results.push({ key, status: 'failed', message: errorMessage(error) });
+      continue;
+    }
+
+    const versionId = existing?.meta?.versionId;
+    if (existing) {
+      const currentExpression = structureMapToExpression(existing);
+      if (currentExpression === null) {
+        results.push({ key, status: 'conflict', resourceId: key, versionId, message: `StructureMap/${key} exists but is not a FUME mapping` });
+        continue;
+      }
+      if (!options.syncedVersionIds.has(key)) {
+        results.push({ key, status: 'conflict', resourceId: key, versionId, message: `StructureMap/${key} was created on the server since the last sync` });
+        continue;
+      }
+      const syncedVersionId = options.syncedVersionIds.get(key);
+      if (versionId !== syncedVersionId) {
+        results.push({
+          key,
+          status: 'conflict',
+          resourceId: key,
+          versionId,
+          message: `StructureMap/${key} is at version ${versionId}, not the last synced version ${syncedVersionId}`
+        });
+        continue;
+      }
+      if (currentExpression === mapping.expression && structureMapToExpressions(existing).length === 1) {
+        results.push({ key, status: 'unchanged', resourceId: key, versionId });
+        continue;
+      }
+      if (structureMapToExpressions(existing).length > 1) {
+        results.push({ key, status: 'conflict', resourceId: key, versionId, message: `StructureMap/${key} holds several FUME rules` });
+        continue;
+      }
+      if (!versionId) {
+        results.push({ key, status: 'failed', resourceId: key, message: `StructureMap/${key} has no meta.versionId, so it cannot be updated with If-Match` });
+        continue;
+      }
+    }
+
+    const status = existing ? 'updated' : 'created';
+    if (options.dryRun) {
+      results.push({ key, status, resourceId: key, versionId });
+      continue;
+    }
+
+    try {
+      // Existing resources keep everything but the expression (and date)
+      const resource = existing
+        ? updateStructureMapExpression(existing, mapping.expression, { updateDate: true })
+        : expressionToStructureMap(key, mapping.expression, options.canonicalBaseUrl, options.fhirVersion);
+      // Creates must not replace a StructureMap that appeared since the read
+      const saved = await fhirClient.update<StructureMap>(
+        resource,
+        { headers: existing ? { 'If-Match': `W/"${versionId}"` } : { 'If-None-Match': '*' } }
+      );
+      logger?.info?.(`Published user mapping '${key}' (${status})`);
+      results.push({ key, status, resourceId: saved?.id ?? key, versionId: saved?.meta?.versionId });
+    } catch (error) {
+      const httpStatus = (error as { status?: number }).status;
+      if (httpStatus === 409 || httpStatus === 412) {
+        const change = existing ? 'changed' : 'created';
+        results.push({ key, status: 'conflict', resourceId: key, versionId, message: `StructureMap/${key} was ${change} on the server since it was read` });
+      } else {
+        results.push({ key, status: 'failed', resourceId: key, message: errorMessage(error) });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Write the alias ConceptMap, updating `existing` in place when there is one.
+ * The update is only sent if the server still has `expectedVersionId` (and then with `If-Match` on it);
+ * without an existing resource a new FUME alias ConceptMap is created (PUT when `resourceId` is known).
+ */
+export async function publishAliasConceptMap(
+  fhirClient: FhirClient,
+  aliases: AliasObject,
+  existing: ConceptMap | undefined,
+  options: { dryRun: boolean; canonicalBaseUrl: string; fhirVersion: SupportedFhirRelease; expectedVersionId?: string; resourceId?: string },
+  logger?: Logger
+): Promise<{ status: Exclude<PublishStatus, 'skipped'>; resource?: ConceptMap; resourceId?: string; versionId?: string; message?: string }> {
+  const resourceId = existing?.id ?? options.resourceId;
+  const versionId = existing?.meta?.versionId;
+
+  if (existing) {
+    if (options.expectedVersionId !== undefined && versionId !== options.expectedVersionId) {
+      return {
+        status: 'conflict',
+        resourceId,
+        versionId,
+        message: `ConceptMap/${resourceId} is at version ${versionId}, not the last synced version ${options.expectedVersionId}`
+      };
+    }
+    if (isDeepStrictEqual(conceptMapToAliasObject(existing, logger), aliases)) {
+      return { status: 'unchanged', resource: existing, resourceId, versionId };
+    }
+  }
+
+  const status = existing ? 'updated' : 'created';
+  if (options.dryRun) {
+    return { status, resourceId, versionId };
+  }
+
+  const conceptMap = aliasObjectToConceptMap(
+    aliases,
+    options.canonicalBaseUrl,
+    existing ? structuredClone(existing) : undefined,
+    options.fhirVersion
+  );
+  try {
+    let saved: ConceptMap;
+    if (existing) {
+      saved = await fhirClient.update<ConceptMap>(conceptMap, versionId ? { headers: { 'If-Match': `W/"${versionId}"` } } : undefined);
+    } else if (resourceId) {
+      saved = await fhirClient.update<ConceptMap>({ ...conceptMap, id: resourceId });
+    } else {
+      saved = await fhirClient.create<ConceptMap>('ConceptMap', conceptMap);
+    }
+    logger?.info?.(`Published ${Object.keys(aliases).length} alias(es) to ConceptMap/${saved?.id ?? resourceId} (${status})`);
+    return { status, resource: saved, resourceId: saved?.id ?? resourceId, versionId: saved?.meta?.versionId };
+  } catch (error) {
+    const httpStatus = (error as { status?: number }).status;
+    if (httpStatus === 409 || httpStatus === 412) {
+      return { status: 'conflict', resourceId, versionId, message: `ConceptMap/${resourceId} was changed on the server since it was read` };
+    }
+    return { status: 'failed', resourceId, message: errorMessage(error) };
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
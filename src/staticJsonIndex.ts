@@ -0,0 +1,51 @@
+/**
+ * Index the items of a static JSON array by the value at a dot-separated path (e.g. `source.code`).
+ *
+ * Arrays met along the path are flattened, so an item is indexed under every value found there.
+ * Lookup keys are the string form of string, number and boolean values; items without such a value
+ * are not indexed. When several items share a lookup key, the first one wins.
+ * @param value - The static JSON value
+ * @param path - Dot-separated property path inside each item
+ * @returns The index and its duplicate lookup keys, or undefined when the value is not an array
+ */
+export function buildStaticJsonIndex(
+  value: unknown,
+  path: string
+): { entries: Map<string, unknown>; duplicates: string[] } | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const segments = path.split('.');
+  const entries = new Map<string, unknown>();
+  const duplicates = new Set<string>();
+  for (const item of value) {
+    for (const found of collectPathValues(item, segments)) {
+      if (typeof found !== 'string' && typeof found !== 'number' && typeof found !== 'boolean') {
+        continue;
+      }
+      const lookupKey = String(found);
+      if (entries.has(lookupKey)) {
+        if (entries.get(lookupKey) !== item) {
+          duplicates.add(lookupKey);
+        }
+        continue;
+      }
+      entries.set(lookupKey, item);
+    }
+  }
+  return { entries, duplicates: Array.from(duplicates) };
+}
+
+function collectPathValues(value: unknown, segments: string[]): unknown[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => collectPathValues(item, segments));
+  }
+  if (segments.length === 0) {
+    return [value];
+  }
+  if (typeof value !== 'object' || value === null || !Object.prototype.hasOwnProperty.call(value, segments[0])) {
+    return [];
+  }
+  return collectPathValues((value as Record<string, unknown>)[segments[0]], segments.slice(1));
+}
@@ -0,0 +1,189 @@
+import type * as JsYaml from 'js-yaml';
+import { requireOptional } from './optionalModules';
+
+/**
+ * File extensions of static values, highest precedence first.
+ * When one folder holds the same key in several formats, the first extension wins.
+ */
+export const STATIC_VALUE_EXTENSIONS = ['.json', '.yaml', '.yml', '.ndjson', '.csv'] as const;
+
+/**
+ * Get the static value extension of a file name (lowercase), if it has one.
+ */
+export function staticValueExtension(fileName: string): string | undefined {
+  const lower = fileName.toLowerCase();
+  return STATIC_VALUE_EXTENSIONS.find(extension => lower.endsWith(extension) && lower.length > extension.length);
+}
+
+/**
+ * Parse the raw contents of a static value file according to its extension.
+ * - `.json`: any JSON value
+ * - `.yaml` / `.yml`: a single YAML document (YAML 1.2 core schema)
+ * - `.ndjson`: one JSON value per non-empty line, as an array
+ * - `.csv`: an array of row objects keyed by the header row; cells stay strings
+ * @throws Error describing the first syntax error (with its line and column)
+ */
+export function parseStaticValue(raw: string, fileName: string): unknown {
+  switch (staticValueExtension(fileName)) {
+    case '.yaml':
+    case '.yml':
+      return parseYaml(raw);
+    case '.ndjson':
+      return parseNdjson(raw);
+    case '.csv':
+      return parseCsv(raw);
+    default:
+      return JSON.parse(raw);
+  }
+}
+
+/**
+ * Parse newline-delimited JSON. Empty lines are skipped.
+ */
+export function parseNdjson(raw: string): unknown[] {
+  const result: unknown[] = [];
+  stripBom(raw).split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      result.push(JSON.parse(line));
+    } catch (error) {
+      throw new Error(`NDJSON line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return result;
+}
+
+/**
+ * Parse RFC 4180 CSV (comma separated, `"` quoted, `""` escapes, CRLF or LF line breaks).
+ * The first row is the header: names are trimmed and must be unique and non-empty.
+ * Every other non-empty row becomes an object with one string property per header.
+ */
+export function parseCsv(raw: string): Array<Record<string, string>> {
+  const rows = readCsvRows(stripBom(raw));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const [header, ...records] = rows;
+  const names = header.fields.map(name => name.trim());
+  names.forEach((name, index) => {
+    if (!name) {
+      throw new Error(`CSV header column ${index + 1} has no name`);
+    }
+    if (names.indexOf(name) !== index) {
+      throw new Error(`CSV header column '${name}' is duplicated`);
+    }
+  });
+
+  return records.map(record => {
+    if (record.fields.length !== names.length) {
+      throw new Error(`CSV line ${record.line} has ${record.fields.length} field(s); expected ${names.length}`);
+    }
+    const row: Record<string, string> = {};
+    names.forEach((name, index) => setProperty(row, name, record.fields[index]));
+    return row;
+  });
+}
+
+/**
+ * Parse a single YAML document with the YAML 1.2 core schema, so every value is JSON-compatible:
+ * plain scalars resolve to null, booleans, integers and floats, everything else stays a string.
+ * Type tags outside the core schema (e.g. `!!timestamp`, `!!binary`) and multiple documents are rejected.
+ * Duplicate keys are rejected. An empty document is null.
+ */
+export function parseYaml(raw: string): unknown {
+  const { CORE_SCHEMA, load, YAMLException } = requireOptional<typeof JsYaml>('js-yaml', 'YAML static values');
+  try {
+    return load(stripBom(raw), { schema: CORE_SCHEMA }) ?? null;
+  } catch (error) {
+    if (error instanceof YAMLException) {
+      // Stream-level errors (e.g. several documents) have no position
+      const mark = error.mark as JsYaml.YAMLException['mark'] | undefined;
+      throw new Error(mark ? `YAML line ${mark.line + 1}, column ${mark.column + 1}: ${error.reason}` : `YAML: ${error.reason}`);
+    }
+    throw error;
+  }
+}
+
+// ===== CSV =====
+
+function readCsvRows(raw: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let i = 0;
+
+  const endRow = () => {
+    fields.push(field);
+    // Empty lines are skipped
+    if (fields.length > 1 || fields[0] !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  while (i < raw.length) {
+    const char = raw[i];
+    if (quoted) {
+      if (char === '"' && raw[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+        i++;
+        if (i < raw.length && raw[i] !== ',' && raw[i] !== '\n' && raw[i] !== '\r') {
+          throw new Error(`CSV line ${line}: unexpected character after a closing quote`);
+        }
+        continue;
+      }
+      if (char === '\n') {
+        line++;
+      }
+      field += char;
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && raw[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (quoted) {
+    throw new Error(`CSV line ${rowLine}: unterminated quoted field`);
+  }
+  endRow();
+  return rows;
+}
+
+/**
+ * Set an own property (also for keys such as `__proto__`, like JSON.parse does).
+ */
+function setProperty(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+function stripBom(raw: string): string {
+  return raw.replace(/^\uFEFF/, '');
+}
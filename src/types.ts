@@ -1,5 +1,5 @@
 import { FhirClient } from '@outburn/fhir-client';
-import type { FhirPackageIdentifier, Logger, Resource } from '@outburn/types';
+import type { FhirPackageIdentifier, Logger, PackageManifest, Resource } from '@outburn/types';
 import { FhirPackageExplorer } from 'fhir-package-explorer';
 
 /**
@@ -36,6 +36,9 @@ export interface UserMappingMetadata {
   
   /** StructureMap canonical URL (if applicable) */
   url?: string;
+
+  /** Label of the FHIR server that provided the mapping (server mappings only) */
+  server?: string;
 }
 
 /**
@@ -46,33 +49,106 @@ export interface UserMapping extends UserMappingMetadata {
    * The FUME expression.
    */
   expression: string;
+
+  /**
+   * Every FUME rule of the StructureMap, set only when it holds more than one
+   * (`expression` is then the first). Each is addressable as `<key>#<group>.<rule>`.
+   */
+  rules?: FumeRuleExpression[];
+}
+
+/**
+ * One FUME expression of a StructureMap rule
+ */
+export interface FumeRuleExpression {
+  /** Sub-mapping key: `<mapId>#<group>.<rule>` (unnamed groups and rules are addressed by position) */
+  key: string;
+
+  /** Group name */
+  group?: string;
+
+  /** Rule name */
+  rule?: string;
+
+  /** The FUME expression */
+  expression: string;
 }
 
 /**
- * Static JSON value metadata (file-based).
+ * Static JSON value metadata.
  *
- * These are loaded from `*.json` files in the mappings folder (excluding `aliases.json`).
+ * These are loaded from `*.json`, `*.yaml` / `*.yml`, `*.ndjson` and `*.csv` files in the mappings folder
+ * (excluding `aliases.json`, alias overlays `aliases.<env>.json` and JSON Schema sidecars `<key>.schema.json`),
+ * and from FUME-tagged Binary and Basic resources on the FHIR servers. Files override servers.
  * They are intentionally NOT treated as mappings.
  */
 export interface StaticJsonValueMetadata {
-  /** Unique key (derived from the filename without extension) */
+  /** Unique key (the filename without extension, or the resource id) */
   key: string;
 
-  /** Source type (currently only 'file') */
-  sourceType: 'file';
+  /** Source type */
+  sourceType: 'file' | 'server';
 
-  /** Absolute path to the JSON file */
+  /** Absolute path to the value file, or the resource URL */
   source: string;
+
+  /** Label of the FHIR server the value was loaded from (server values only) */
+  server?: string;
+}
+
+/**
+ * FHIR resource types holding server static JSON values
+ */
+export type ServerStaticJsonResourceType = 'Binary' | 'Basic';
+
+/**
+ * Conditional-read metadata of a server static JSON value
+ */
+export interface ServerStaticJsonValueMeta {
+  resourceType: ServerStaticJsonResourceType;
+  versionId?: string;
+  lastUpdated?: string;
 }
 
 /**
  * A complete static JSON value with parsed value and metadata.
  */
 export interface StaticJsonValue extends StaticJsonValueMetadata {
-  /** Parsed JSON value (object/array/string/number/boolean/null) */
+  /** Parsed value (object/array/string/number/boolean/null); CSV files give an array of row objects */
   value: unknown;
 }
 
+/**
+ * One JSON Schema violation
+ */
+export interface JsonSchemaError {
+  /** JSON Pointer to the invalid part of the value ('' for the root) */
+  path: string;
+
+  message: string;
+}
+
+/**
+ * A static JSON value rejected by its schema
+ */
+export interface StaticJsonValidationError {
+  key: string;
+
+  /** Absolute path to the rejected JSON file */
+  source: string;
+
+  /** The schema used: absolute path to the sidecar `<key>.schema.json`, or 'config' */
+  schema: string;
+
+  errors: JsonSchemaError[];
+
+  /** True if the last valid value is still served; false if the key has no value */
+  keptLastValid: boolean;
+
+  /** When the value was rejected (ISO timestamp) */
+  rejectedAt: string;
+}
+
 /**
  * Package mapping metadata
  */
@@ -102,6 +178,9 @@ export interface PackageMappingMetadata {
 export interface PackageMapping extends PackageMappingMetadata {
   /** The FUME expression */
   expression: string;
+
+  /** Every FUME rule of the StructureMap, set only when it holds more than one (see `UserMapping.rules`) */
+  rules?: FumeRuleExpression[];
 }
 
 /**
@@ -166,39 +245,576 @@ export interface StructureMap extends EnrichedResource {
   }>;
 }
 
+/**
+ * FHIR release of generated StructureMap and ConceptMap resources.
+ * R4 and R4B share the same layout; R5 ConceptMap targets use `relationship` instead of
+ * `equivalence` and R5 StructureMap groups have no `typeMode` 'none'.
+ */
+export type SupportedFhirRelease = 'R4' | 'R4B' | 'R5';
+
+/**
+ * How a nested file path (relative to the mappings folder, without extension) becomes a key.
+ * Files directly in the mappings folder always keep their plain file name as key.
+ * - 'camelCase': path segments are joined in camelCase (`lab/hl7v2/oru.fume` -> `labHl7v2Oru`)
+ * - 'basename' : only the file name is used (`lab/hl7v2/oru.fume` -> `oru`)
+ * - function   : custom key builder receiving the path segments (`['lab', 'hl7v2', 'oru']`)
+ */
+export type NamespaceScheme = 'camelCase' | 'basename' | ((segments: string[]) => string);
+
+/**
+ * Options controlling how the mappings folder is scanned.
+ */
+export interface MappingsFolderOptions {
+  /** Scan subfolders recursively (default: false) */
+  recursive?: boolean;
+
+  /** Key scheme for files in subfolders (default: 'camelCase') */
+  namespaceScheme?: NamespaceScheme;
+
+  /** Environment whose alias overlay (`aliases.<env>.json`) is listed with the folder files */
+  aliasEnvironment?: string;
+}
+
+/**
+ * One entry of a layered mappings folder list.
+ */
+export interface MappingsFolderConfig {
+  /** Path to the folder */
+  path: string;
+
+  /** File extension for mapping files in this folder (default: the top-level `fileExtension`, or '.fume') */
+  fileExtension?: string;
+
+  /** Optional label used in logs (e.g. 'base', 'tenant') */
+  label?: string;
+}
+
+/**
+ * How file changes in the mappings folders are detected:
+ * - 'poll'  : stat every file each `filePollingIntervalMs`
+ * - 'watch' : `fs.watch` events (debounced); falls back to 'poll' if a folder cannot be watched
+ * - 'hybrid': both, for shared volumes where watch events are unreliable
+ */
+export type FileWatchMode = 'poll' | 'watch' | 'hybrid';
+
+/**
+ * A FHIR server used as a source of user mappings and aliases
+ */
+export interface FhirServerSource {
+  /** Injected FHIR client instance for this server */
+  fhirClient: FhirClient;
+
+  /** Name used in logs and in `UserMapping.server` (default: the server base URL) */
+  label?: string;
+
+  /** Precedence rank; higher wins on key collisions (default: position in the list, later wins) */
+  precedence?: number;
+
+  /** Polling interval for this server (ms). Default: `serverPollingIntervalMs`. Set <=0 to disable. */
+  pollingIntervalMs?: number;
+
+  /** Optional ConceptMap resource id to use for this server's aliases (skips search) */
+  aliasConceptMapId?: string;
+}
+
+/**
+ * A recognized file in the mappings folder (used for change tracking).
+ */
+export interface MappingsFolderFile {
+  /** Mapping key, static JSON value key, 'aliases' for aliases.json or 'aliases.<env>' for the alias overlay */
+  key: string;
+
+  /** What the file holds */
+  kind: 'mapping' | 'staticJson' | 'aliases';
+
+  /** Absolute path to the file */
+  filePath: string;
+
+  /** Path relative to the mappings folder, using '/' separators */
+  relativePath: string;
+}
+
 /**
  * Configuration options for FumeMappingProvider
  */
 export interface FumeMappingProviderConfig {
-  /** Path to folder containing mapping files */
-  mappingsFolder?: string;
+  /**
+   * Path to folder containing mapping files, or an ordered list of folders.
+   * With a list, later folders override earlier ones key-by-key (mappings, static JSON values and aliases.json).
+   */
+  mappingsFolder?: string | Array<string | MappingsFolderConfig>;
   
   /** File extension for mapping files (default: '.fume') */
   fileExtension?: string;
+
+  /** Also load mappings and static JSON values from subfolders of mappingsFolder (default: false) */
+  recursive?: boolean;
+
+  /** Key scheme for files found in subfolders when `recursive` is enabled (default: 'camelCase') */
+  namespaceScheme?: NamespaceScheme;
   
   /** Injected FHIR package explorer instance */
   packageExplorer?: FhirPackageExplorer;
+
+  /**
+   * Index package mappings in memory by url, id and name (per package context) instead of
+   * resolving through the package explorer on every lookup (default: false).
+   * The index is dropped when the explorer's context packages change.
+   */
+  packageMappingIndex?: boolean;
+
+  /**
+   * Throw `AmbiguousPackageMappingError` when an identifier matches several package mappings
+   * on the same field (url, id or name) instead of picking one (default: false)
+   */
+  strictPackageMappingResolution?: boolean;
   
   /** Injected FHIR client instance */
   fhirClient?: FhirClient;
+
+  /**
+   * Additional FHIR servers for user mappings and aliases.
+   * `fhirClient` (with `aliasConceptMapId`), if set, is treated as the first entry of this list.
+   * Server mappings and aliases from higher-precedence servers override lower ones; files override all servers.
+   */
+  fhirServers?: FhirServerSource[];
   
   /** Optional logger instance for structured logging */
   logger?: Logger;
   
   /** Optional ConceptMap resource id to use for aliases (skips search) */
   aliasConceptMapId?: string;
+
+  /**
+   * Environment name selecting the alias overlay `aliases.<env>.json` in each mappings folder
+   * (letters, digits, '_' and '-'). Default: the `FUME_ALIAS_ENV` environment variable; no overlay if unset.
+   * Overlay aliases override server aliases and are overridden by aliases.json.
+   */
+  aliasEnvironment?: string;
   
   /** Canonical base URL for generated FHIR resources (default: 'http://example.com') */
   canonicalBaseUrl?: string;
 
+  /**
+   * FHIR release of generated StructureMaps and ConceptMaps.
+   * Default: detected per server from its CapabilityStatement `fhirVersion` on `initialize()`, otherwise 'R4'.
+   */
+  fhirVersion?: SupportedFhirRelease;
+
   /** Polling interval for mapping/alias file changes (ms). Default: 5000. Set <=0 to disable. */
   filePollingIntervalMs?: number;
 
+  /** How file changes are detected (default: 'poll') */
+  fileWatchMode?: FileWatchMode;
+
+  /** Debounce delay for filesystem watch events (ms). Default: 100. */
+  fileWatchDebounceMs?: number;
+
   /** Polling interval for FHIR server resources (ms). Default: 30000. Set <=0 to disable. */
   serverPollingIntervalMs?: number;
 
   /** Forced resync interval for full cache reload (ms). Default: 3600000. Set <=0 to disable. */
   forcedResyncIntervalMs?: number;
+
+  /** Reference validation settings (see `validate()`) */
+  validation?: ValidationConfig;
+
+  /**
+   * JSON Schemas by static JSON value key. Takes precedence over a sidecar `<key>.schema.json` file
+   * next to the value file. Values failing their schema are rejected (see `getStaticJsonValidationErrors()`).
+   */
+  staticJsonSchemas?: Record<string, object | boolean>;
+
+  /**
+   * Lookup indexes by static JSON value key, each mapping an index name to a dot-separated path inside
+   * the items of the (array) value, e.g. `{ codes: { bySourceCode: 'source.code' } }`.
+   * Indexes are rebuilt whenever their value changes (see `lookupStaticJsonValue()`).
+   */
+  staticJsonIndexes?: Record<string, Record<string, string>>;
+
+  /** Keep a bounded history per user mapping key (enables `getUserMappingHistory` and `pinUserMapping`) */
+  mappingHistory?: MappingHistoryConfig;
+}
+
+/**
+ * A recorded version of a user mapping
+ */
+export interface UserMappingHistoryEntry {
+  /** Version number, increasing per key (starts at 1) */
+  version: number;
+
+  /** When the change was applied (ISO timestamp) */
+  recordedAt: string;
+
+  /** What detected the change */
+  trigger: ChangeTrigger;
+
+  /** True if this entry records the removal of the mapping */
+  removed?: boolean;
+
+  /** The FUME expression (absent for removals) */
+  expression?: string;
+
+  sourceType: 'file' | 'server';
+  source: string;
+  name?: string;
+  url?: string;
+  server?: string;
+
+  /** Server `meta.versionId` (server mappings, when known) */
+  versionId?: string;
+}
+
+/**
+ * Settings for the user mapping history
+ */
+export interface MappingHistoryConfig {
+  /** Maximum number of entries kept per key (default: 20) */
+  maxEntries?: number;
+
+  /**
+   * Optional folder for persisting history across restarts (one JSON file per key).
+   * Must not be inside a mappings folder.
+   */
+  folder?: string;
+}
+
+/**
+ * Outcome of publishing one resource to a FHIR server
+ */
+export type PublishStatus = 'created' | 'updated' | 'unchanged' | 'conflict' | 'skipped' | 'failed';
+
+/**
+ * Per-key result of a publish operation
+ */
+export interface PublishResult {
+  key: string;
+  status: PublishStatus;
+
+  /** Resource id on the server */
+  resourceId?: string;
+
+  /** Server `meta.versionId` after the operation (current version for unchanged/conflict) */
+  versionId?: string;
+
+  /** Why the key was skipped, conflicted or failed */
+  message?: string;
+}
+
+/**
+ * Report of a publish operation
+ */
+export interface PublishReport {
+  /** Label of the target FHIR server */
+  server: string;
+
+  /** True if nothing was written (statuses show what would happen) */
+  dryRun: boolean;
+
+  results: PublishResult[];
+}
+
+/**
+ * Options for publishing file mappings to a FHIR server
+ */
+export interface PublishUserMappingsOptions {
+  /** Mapping keys to publish (default: all cached file mappings) */
+  keys?: string[];
+
+  /** Compare only, do not write (default: false) */
+  dryRun?: boolean;
+
+  /** Target FHIR server label (default: the highest-precedence server) */
+  server?: string;
+}
+
+/**
+ * Alias layers that can be published to the server alias ConceptMap
+ */
+export type PublishAliasLayer = 'file' | 'builtIn';
+
+/**
+ * Options for publishing aliases to the server alias ConceptMap
+ */
+export interface PublishAliasesOptions {
+  /** Layers the ConceptMap is built from (default: ['file']) */
+  include?: PublishAliasLayer[];
+
+  /** Merge the layers over the server's current aliases instead of replacing them (default: false) */
+  keepServerAliases?: boolean;
+
+  /** Compare only, do not write (default: false) */
+  dryRun?: boolean;
+
+  /** Target FHIR server label (default: the highest-precedence server) */
+  server?: string;
+}
+
+/**
+ * Report of publishing aliases to the server alias ConceptMap
+ */
+export interface PublishAliasesReport {
+  /** Label of the target FHIR server */
+  server: string;
+
+  /** True if nothing was written */
+  dryRun: boolean;
+
+  status: Exclude<PublishStatus, 'skipped'>;
+
+  /** ConceptMap id (absent when it would be created on a dry run) */
+  resourceId?: string;
+
+  /** Server `meta.versionId` after the operation */
+  versionId?: string;
+
+  /** Why the publish conflicted or failed */
+  message?: string;
+
+  /** The aliases in the published (or compared) ConceptMap */
+  aliases: AliasObject;
+}
+
+/**
+ * Options for exporting user mappings, aliases and static JSON values as a Bundle
+ */
+export interface ExportBundleOptions {
+  /** Bundle type (default: 'transaction'); only transaction entries carry a `request` */
+  type?: 'transaction' | 'collection';
+
+  /** Include the merged file and server aliases as a ConceptMap (default: true) */
+  includeAliases?: boolean;
+
+  /** Include static JSON values as Binary resources (default: false) */
+  includeStaticJson?: boolean;
+
+  /** FHIR release of the exported resources (default: `getFhirVersion()`) */
+  fhirVersion?: SupportedFhirRelease;
+}
+
+/**
+ * What to do when an imported mapping or alias key already exists
+ */
+export type ImportCollisionPolicy = 'skip' | 'overwrite' | 'rename';
+
+/**
+ * Outcome of importing one mapping or alias
+ */
+export type ImportStatus = 'created' | 'overwritten' | 'renamed' | 'unchanged' | 'skipped' | 'invalid';
+
+/**
+ * Result of importing one StructureMap or one alias of a FUME alias ConceptMap
+ */
+export interface ImportResult {
+  type: 'mapping' | 'alias';
+
+  /** StructureMap id or alias key in the source */
+  sourceId: string;
+
+  /** Key written (differs from `sourceId` when renamed) */
+  key: string;
+
+  status: ImportStatus;
+
+  /** File written (or that would be written on a dry run) */
+  file?: string;
+
+  /** Where the resource came from (file path or Bundle entry) */
+  origin: string;
+
+  /** Why the entry was skipped or invalid */
+  message?: string;
+}
+
+/**
+ * Report of an import
+ */
+export interface ImportReport {
+  /** Mappings folder written to */
+  targetFolder: string;
+
+  /** True if nothing was written */
+  dryRun: boolean;
+
+  results: ImportResult[];
+}
+
+/**
+ * Options for importing StructureMaps and alias ConceptMaps into the mappings folder
+ */
+export interface ImportMappingsOptions {
+  /** Collision policy for existing keys (default: 'skip'); aliases cannot be renamed and are skipped instead */
+  onCollision?: ImportCollisionPolicy;
+
+  /** Report only, do not write (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Options for building a FHIR NPM package from the user mappings
+ */
+export interface BuildPackageOptions {
+  /** Package name, e.g. 'acme.fume.mappings' */
+  name: string;
+
+  /** Package version, e.g. '1.0.0' */
+  version: string;
+
+  /** Canonical base URL of the package resources (default: the provider's canonical base URL) */
+  canonical?: string;
+
+  /** Package dependencies, e.g. { 'hl7.fhir.r4.core': '4.0.1' } (default: none) */
+  dependencies?: Record<string, string>;
+
+  /**
+   * FHIR version listed in `fhirVersions`, e.g. '4.0.1' (default: the version of `getFhirVersion()`).
+   * Resources are generated in the layout of its release.
+   */
+  fhirVersion?: string;
+
+  /** Package description */
+  description?: string;
+
+  /** Include the merged file and server aliases as a ConceptMap (default: true) */
+  includeAliases?: boolean;
+
+  /** Path of the tarball to write (default: `<name>-<version>.tgz` in the working directory) */
+  outputPath?: string;
+}
+
+/**
+ * Result of building a FHIR NPM package
+ */
+export interface BuildPackageResult {
+  /** Absolute path of the written tarball */
+  path: string;
+
+  /** Contents of `package/package.json` */
+  manifest: PackageManifest;
+
+  /** Paths of the files in the tarball, e.g. 'package/StructureMap-patient.json' */
+  files: string[];
+}
+
+/**
+ * Kind of a node in the mapping dependency graph
+ */
+export type DependencyNodeType = 'mapping' | 'packageMapping' | 'alias' | 'staticJson';
+
+/**
+ * A node in the mapping dependency graph.
+ * `key` is the user mapping key, package mapping id, alias key or static JSON value key.
+ */
+export interface DependencyNode {
+  type: DependencyNodeType;
+  key: string;
+}
+
+/**
+ * A reference from a mapping expression (`from`) to a mapping, alias or static JSON value (`to`)
+ */
+export interface DependencyEdge {
+  from: DependencyNode;
+  to: DependencyNode;
+}
+
+/**
+ * Options for dependency graph lookups
+ */
+export interface DependencyLookupOptions {
+  /** Only match nodes of this type (default: any type with the given key) */
+  type?: DependencyNodeType;
+
+  /** Follow references recursively (default: false) */
+  transitive?: boolean;
+}
+
+/**
+ * Kind of entry covered by validation reports
+ */
+export type ValidationEntryType = 'mapping' | 'alias' | 'staticJson';
+
+/**
+ * A `$name` reference in a cached mapping that matches no mapping, alias or static JSON value
+ */
+export interface MissingReference {
+  /** Key of the referencing mapping (the sub-mapping key for a rule of a multi-rule mapping) */
+  mappingKey: string;
+
+  /** Source of the referencing mapping */
+  mappingSource: string;
+
+  /** Referenced name (without `$`) */
+  name: string;
+}
+
+/**
+ * A key provided by more than one source; only `source` is in effect
+ */
+export interface ShadowedKey {
+  type: ValidationEntryType;
+  key: string;
+
+  /** The winning source */
+  source: string;
+
+  /** The overridden sources, highest precedence first */
+  shadowedSources: string[];
+}
+
+/**
+ * An entry skipped during load because of an invalid key
+ */
+export interface InvalidKey {
+  type: ValidationEntryType;
+  key: string;
+  source: string;
+  reason: string;
+}
+
+/**
+ * An alias whose `${key}` references cannot be resolved (unknown alias or cycle)
+ */
+export interface AliasReferenceError {
+  key: string;
+  source: string;
+  reason: string;
+}
+
+/**
+ * Shadowed and invalid keys recorded by the last full load
+ */
+export interface LoadDiagnostics {
+  shadowedKeys: ShadowedKey[];
+  invalidKeys: InvalidKey[];
+}
+
+/**
+ * Result of `FumeMappingProvider.validate()`
+ */
+export interface ValidationReport extends LoadDiagnostics {
+  /** True when no mapping has missing references and every alias reference resolves */
+  valid: boolean;
+
+  missingReferences: MissingReference[];
+
+  aliasReferenceErrors: AliasReferenceError[];
+}
+
+/**
+ * Options for `FumeMappingProvider.validate()`
+ */
+export interface ValidateOptions {
+  /** Names that are bound at runtime (e.g. custom engine functions) and must not be reported as missing */
+  ignoreReferences?: string[];
+}
+
+/**
+ * Validation settings
+ */
+export interface ValidationConfig extends ValidateOptions {
+  /** Validate after each poll cycle and emit `validationReport` when the report changed (default: false) */
+  afterPoll?: boolean;
 }
 
 /**
@@ -207,6 +823,22 @@ export interface FumeMappingProviderConfig {
 export interface GetPackageMappingOptions {
   /** Filter by package context - supports string or FhirPackageIdentifier */
   packageContext?: string | FhirPackageIdentifier;
+
+  /** Throw on ambiguous identifiers instead of picking one (overrides `strictPackageMappingResolution`) */
+  strict?: boolean;
+}
+
+/**
+ * Field a package mapping identifier matched on
+ */
+export type PackageMappingMatchField = 'url' | 'id' | 'name';
+
+/**
+ * A package mapping matching an identifier
+ */
+export interface PackageMappingCandidate extends PackageMappingMetadata {
+  /** The field that matched the identifier */
+  matchedBy: PackageMappingMatchField;
 }
 
 /**
@@ -217,23 +849,62 @@ export interface AliasObject {
 }
 
 /**
- * Alias source type.
- * - 'file'   : Loaded from aliases.json in mappingsFolder
- * - 'server' : Loaded from ConceptMap on FHIR server
- * - 'builtIn': Bundled defaults
+ * Alias source type, highest precedence first.
+ * - 'file'       : Loaded from aliases.json in mappingsFolder
+ * - 'environment': Loaded from the aliases.<env>.json overlay in mappingsFolder
+ * - 'server'     : Loaded from ConceptMap on FHIR server
+ * - 'builtIn'    : Bundled defaults
  */
-export type AliasSourceType = 'file' | 'server' | 'builtIn';
+export type AliasSourceType = 'file' | 'environment' | 'server' | 'builtIn';
+
+/**
+ * Documentation of an alias, kept on its alias ConceptMap element
+ */
+export interface AliasDetails {
+  /** What the alias stands for (element `display`) */
+  description?: string;
+
+  /** The alias still resolves but should no longer be used */
+  deprecated?: boolean;
+
+  /** Source system of the ConceptMap group holding the alias (omitted for the default group) */
+  group?: string;
+}
+
+/**
+ * An alias value with its documentation
+ */
+export interface AliasDefinition extends AliasDetails {
+  value: string;
+}
+
+/**
+ * Alias definitions by key
+ */
+export interface AliasDefinitionObject {
+  [key: string]: AliasDefinition;
+}
 
 /**
  * Alias entry with metadata.
+ * Server aliases also carry the description, deprecation flag and group of their ConceptMap element.
  */
-export interface AliasWithMetadata {
+export interface AliasWithMetadata extends AliasDetails {
+  /** The resolved value (references to other aliases replaced) */
   value: string;
+
+  /** The value as written, when it references other aliases (`${key}`) */
+  rawValue?: string;
+
+  /** Why the references of `rawValue` could not be resolved (`value` is then the raw value) */
+  referenceError?: string;
+
   sourceType: AliasSourceType;
   /**
    * String pointing to the source.
    * - server: `${baseUrl}/ConceptMap/${id}`
    * - file: absolute path to aliases.json
+   * - environment: absolute path to aliases.<env>.json
    * - builtIn: descriptive identifier
    */
   source: string;
@@ -281,13 +952,92 @@ export interface ConceptMap extends Resource {
     source?: string;
     target?: string;
     element?: Array<{
+      extension?: Array<{
+        url?: string;
+        valueBoolean?: boolean;
+      }>;
       code?: string;
       display?: string;
       target?: Array<{
         code?: string;
         display?: string;
+        /** R4 / R4B */
         equivalence?: string;
+        /** R5 */
+        relationship?: string;
+        comment?: string;
       }>;
     }>;
   }>;
 }
+
+/**
+ * What caused a cache mutation.
+ * - 'initialize': initial load via `initialize()`
+ * - 'manual'    : user-requested reload/refresh
+ * - 'filePoll'  : change detected by file polling
+ * - 'fileWatch' : change detected by filesystem watch events
+ * - 'serverPoll': change detected by server polling
+ * - 'resync'    : scheduled forced resync
+ */
+export type ChangeTrigger = 'initialize' | 'manual' | 'filePoll' | 'fileWatch' | 'serverPoll' | 'resync';
+
+/**
+ * Payload for user mapping change events.
+ * `before` is undefined for additions, `after` is undefined for removals.
+ */
+export interface MappingChangeEvent {
+  key: string;
+  /** Source type of the mapping after the change (or before it, for removals) */
+  sourceType: 'file' | 'server';
+  trigger: ChangeTrigger;
+  before?: UserMapping;
+  after?: UserMapping;
+}
+
+/**
+ * Payload for alias change events (the merged alias cache changed).
+ */
+export interface AliasesChangeEvent {
+  trigger: ChangeTrigger;
+  before: AliasObjectWithMetadata;
+  after: AliasObjectWithMetadata;
+}
+
+/**
+ * Payload for static JSON value change events.
+ * `before` is undefined for additions, `after` is undefined for removals.
+ */
+export interface StaticJsonValueChangeEvent {
+  key: string;
+  /** Source type of the value after the change (or before it, for removals) */
+  sourceType: 'file' | 'server';
+  trigger: ChangeTrigger;
+  before?: StaticJsonValue;
+  after?: StaticJsonValue;
+}
+
+/**
+ * Payload for validation report events (emitted after a poll cycle when the report changed).
+ */
+export interface ValidationReportEvent {
+  trigger: ChangeTrigger;
+  report: ValidationReport;
+}
+
+/**
+ * Events emitted by FumeMappingProvider when its caches change.
+ */
+export interface FumeMappingProviderEventMap {
+  mappingAdded: MappingChangeEvent;
+  mappingUpdated: MappingChangeEvent;
+  mappingRemoved: MappingChangeEvent;
+  aliasesChanged: AliasesChangeEvent;
+  staticJsonValueChanged: StaticJsonValueChangeEvent;
+  validationReport: ValidationReportEvent;
+}
+
+export type FumeMappingProviderEventName = keyof FumeMappingProviderEventMap;
+
+export type FumeMappingProviderEventHandler<E extends FumeMappingProviderEventName> =
+  (event: FumeMappingProviderEventMap[E]) => void;
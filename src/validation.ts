@@ -0,0 +1,44 @@
+import { MissingReference } from './types';
+import { extractExpressionReferences } from './dependencyGraph';
+
+/**
+ * Names bound at runtime by JSONata and the FUME engine (never reported as missing references)
+ */
+export const KNOWN_RUNTIME_NAMES: ReadonlySet<string> = new Set([
+  // JSONata built-in functions
+  'string', 'length', 'substring', 'substringBefore', 'substringAfter', 'uppercase', 'lowercase', 'trim', 'pad',
+  'contains', 'split', 'join', 'match', 'replace', 'eval', 'base64encode', 'base64decode', 'encodeUrlComponent',
+  'encodeUrl', 'decodeUrlComponent', 'decodeUrl', 'formatNumber', 'formatBase', 'formatInteger', 'parseInteger',
+  'number', 'abs', 'floor', 'ceil', 'round', 'power', 'sqrt', 'random', 'sum', 'max', 'min', 'average', 'boolean',
+  'not', 'exists', 'count', 'append', 'sort', 'reverse', 'shuffle', 'distinct', 'zip', 'keys', 'lookup', 'spread',
+  'merge', 'sift', 'each', 'error', 'assert', 'type', 'now', 'millis', 'fromMillis', 'toMillis', 'map', 'filter',
+  'single', 'reduce',
+  // FUME engine functions
+  'translate', 'translateCode', 'translateCoding', 'search', 'searchSingle', 'literal', 'resolve', 'reference',
+  'uuid', 'initCap', 'isNumeric', 'isEmpty', 'startsWith', 'endsWith', 'matches', 'selectKeys', 'omitKeys',
+  'v2parse', 'v2json', 'v2normalizeKey', 'parseCsv', 'wait', 'rightNow', 'registerTable', 'toJsonataString',
+  'base64', 'capabilities'
+]);
+
+/**
+ * Find `$name` references in mapping expressions that match no known name
+ * @param mappings - The mappings to check
+ * @param knownNames - Mapping keys, alias keys, static JSON value keys and ignored names
+ */
+export function findMissingReferences(
+  mappings: Array<{ key: string; source: string; expression: string; rules?: Array<{ key: string; expression: string }> }>,
+  knownNames: Set<string>
+): MissingReference[] {
+  const missing: MissingReference[] = [];
+  for (const mapping of mappings) {
+    // Rules of multi-rule mappings are reported under their sub-mapping key
+    for (const { key, expression } of mapping.rules ?? [mapping]) {
+      for (const name of extractExpressionReferences(expression)) {
+        if (!knownNames.has(name) && !KNOWN_RUNTIME_NAMES.has(name)) {
+          missing.push({ mappingKey: key, mappingSource: mapping.source, name });
+        }
+      }
+    }
+  }
+  return missing;
+}
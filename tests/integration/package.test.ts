@@ -1,5 +1,8 @@
 import { FhirPackageExplorer } from 'fhir-package-explorer';
 import { FumeMappingProvider } from '../../src';
+import { FhirPackageInstaller } from 'fhir-package-installer';
+import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
 
 const CACHE_PATH = path.join(__dirname, '..', 'fixtures');
@@ -198,3 +201,48 @@ describe('Package Integration Tests', () => {
     expect(packageMappings[0]).toHaveProperty('packageVersion');
   });
 });
+
+describe('Built Package Integration Tests', () => {
+  const installedPath = path.join(CACHE_PATH, 'fume.built.pkg#0.2.0');
+
+  afterAll(async () => {
+    await fs.rm(installedPath, { recursive: true, force: true });
+  });
+
+  it('should resolve mappings from a package built with buildPackage', async () => {
+    const builder = new FumeMappingProvider({
+      mappingsFolder: path.join(__dirname, '..', 'fixtures', 'mappings'),
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await builder.initialize();
+
+    const outputFolder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-package-'));
+    const built = await builder.buildPackage({
+      name: 'fume.built.pkg',
+      version: '0.2.0',
+      canonical: 'http://built.fume.health',
+      dependencies: { 'hl7.fhir.r4.core': '4.0.1' },
+      outputPath: path.join(outputFolder, 'fume.built.pkg-0.2.0.tgz')
+    });
+    await new FhirPackageInstaller({ cachePath: CACHE_PATH }).installLocalPackage(built.path, { override: true });
+
+    const provider = new FumeMappingProvider({
+      packageExplorer: await FhirPackageExplorer.create({
+        context: ['fume.built.pkg@0.2.0'],
+        cachePath: CACHE_PATH,
+        fhirVersion: 'R4'
+      }),
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+
+    const byUrl = await provider.getPackageMapping('http://built.fume.health/StructureMap/fileMapping1');
+    expect(byUrl?.packageId).toBe('fume.built.pkg');
+    expect(byUrl?.expression).toBe(builder.getUserMapping('fileMapping1')?.expression);
+    expect((await provider.getPackageMapping('fileMapping2'))?.url).toBe('http://built.fume.health/StructureMap/fileMapping2');
+    expect((await provider.getPackageMapping('serverMappingCollision'))?.id).toBe('serverMappingCollision');
+  });
+});
@@ -16,6 +16,8 @@ describe('Server alias key validation', () => {
     // keep other providers inert
     (UserMappingProvider as unknown as jest.Mock).mockImplementation(() => ({
       loadMappings: jest.fn().mockResolvedValue(new Map()),
+      getServerMappingsMeta: jest.fn().mockReturnValue(new Map()),
+      loadStaticJsonValuesWithRaw: jest.fn().mockResolvedValue({ values: new Map(), rawByKey: new Map() }),
       refreshMapping: jest.fn()
     }));
     (PackageMappingProvider as unknown as jest.Mock).mockImplementation(() => ({
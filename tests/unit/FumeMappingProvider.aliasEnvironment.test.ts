@@ -0,0 +1,118 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import { aliasObjectToConceptMap, conceptMapToAliasObject } from '../../src/converters';
+import type { AliasesChangeEvent, ConceptMap } from '../../src/types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider alias environment overlays', () => {
+  const createTempFolder = async () => fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+
+  const createFhirClient = (aliases: Record<string, string>) => {
+    const conceptMap = { ...aliasObjectToConceptMap(aliases), id: 'cm1' };
+    return {
+      getBaseUrl: () => 'http://server.test/fhir',
+      search: jest.fn(async (resourceType: string) => (resourceType === 'ConceptMap' ? [conceptMap] : [])),
+      read: jest.fn(async () => null),
+      conditionalRead: jest.fn(async () => ({ status: 404 }))
+    };
+  };
+
+  const createProvider = (config: Partial<ConstructorParameters<typeof FumeMappingProvider>[0]>) =>
+    new FumeMappingProvider({
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0,
+      ...config
+    });
+
+  it('should layer the selected overlay between server aliases and aliases.json', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ shared: 'file' }));
+    await fs.writeFile(path.join(folder, 'aliases.staging.json'), JSON.stringify({ endpoint: 'http://staging', shared: 'staging' }));
+    await fs.writeFile(path.join(folder, 'aliases.prod.json'), JSON.stringify({ endpoint: 'http://prod' }));
+
+    const provider = createProvider({
+      mappingsFolder: folder,
+      fhirClient: createFhirClient({ endpoint: 'http://server', shared: 'server', serverOnly: 'server' }) as never,
+      aliasEnvironment: 'staging'
+    });
+    await provider.initialize();
+
+    const overlayPath = path.resolve(folder, 'aliases.staging.json');
+    expect(provider.getAliasEnvironment()).toBe('staging');
+    expect(provider.getAliasesWithMetadata()).toMatchObject({
+      serverOnly: { value: 'server', sourceType: 'server' },
+      endpoint: { value: 'http://staging', sourceType: 'environment', source: overlayPath },
+      shared: { value: 'file', sourceType: 'file', source: path.resolve(folder, 'aliases.json') }
+    });
+
+    // Overlays are neither static JSON values nor invalid keys
+    expect(provider.getStaticJsonValueKeys()).toEqual([]);
+    const report = provider.validate();
+    expect(report.invalidKeys).toEqual([]);
+    expect(report.shadowedKeys.find(entry => entry.key === 'shared')?.shadowedSources).toEqual([
+      overlayPath,
+      'http://server.test/fhir/ConceptMap/cm1'
+    ]);
+  });
+
+  it('should leave the overlay out of exported artifacts', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ shared: 'file' }));
+    await fs.writeFile(path.join(folder, 'aliases.staging.json'), JSON.stringify({ endpoint: 'http://staging', stagingOnly: 'x' }));
+    const provider = createProvider({
+      mappingsFolder: folder,
+      fhirClient: createFhirClient({ endpoint: 'http://server' }) as never,
+      aliasEnvironment: 'staging'
+    });
+    await provider.initialize();
+    expect(provider.getAliases().endpoint).toBe('http://staging');
+
+    const conceptMap = provider.exportBundle().entry?.map(entry => entry.resource).find(r => r?.resourceType === 'ConceptMap');
+    // Overlaid keys fall back to the value they shadow
+    expect(conceptMapToAliasObject(conceptMap as unknown as ConceptMap)).toEqual({ endpoint: 'http://server', shared: 'file' });
+  });
+
+  it('should select the overlay from FUME_ALIAS_ENV and track it on file polls', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ base: 'file' }));
+
+    const previous = process.env.FUME_ALIAS_ENV;
+    process.env.FUME_ALIAS_ENV = 'prod';
+    let provider: FumeMappingProvider;
+    try {
+      provider = createProvider({ mappingsFolder: folder });
+    } finally {
+      if (previous === undefined) {
+        delete process.env.FUME_ALIAS_ENV;
+      } else {
+        process.env.FUME_ALIAS_ENV = previous;
+      }
+    }
+    await provider.initialize();
+    expect(provider.getAliasEnvironment()).toBe('prod');
+
+    const events: AliasesChangeEvent[] = [];
+    provider.on('aliasesChanged', event => events.push(event));
+    const poll = () => (provider as unknown as { pollFileMappings(): Promise<void> }).pollFileMappings();
+    const overlayPath = path.join(folder, 'aliases.prod.json');
+
+    await fs.writeFile(overlayPath, JSON.stringify({ endpoint: 'http://prod' }));
+    await poll();
+    expect(provider.getAliases().endpoint).toBe('http://prod');
+
+    await fs.writeFile(overlayPath, JSON.stringify({ endpoint: 'http://prod-eu' }));
+    await poll();
+    expect(provider.getAliases().endpoint).toBe('http://prod-eu');
+
+    await fs.rm(overlayPath);
+    await poll();
+    expect(provider.getAliases().endpoint).toBeUndefined();
+    expect(events.map(event => event.trigger)).toEqual(['filePoll', 'filePoll', 'filePoll']);
+  });
+
+  it('should reject invalid environment names', () => {
+    expect(() => createProvider({ aliasEnvironment: '../prod' })).toThrow("Invalid aliasEnvironment '../prod'.");
+  });
+});
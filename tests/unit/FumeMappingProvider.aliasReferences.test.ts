@@ -0,0 +1,78 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import { aliasObjectToConceptMap, conceptMapToAliasObject } from '../../src/converters';
+import type { ConceptMap } from '../../src/types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider alias references', () => {
+  const createProvider = async (fileAliases: Record<string, string>, serverAliases: Record<string, string> = {}) => {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify(fileAliases));
+    const conceptMap = { ...aliasObjectToConceptMap(serverAliases), id: 'cm1' };
+    const fhirClient = {
+      getBaseUrl: () => 'http://server.test/fhir',
+      search: jest.fn(async (resourceType: string) => (resourceType === 'ConceptMap' ? [conceptMap] : [])),
+      read: jest.fn(async () => null),
+      conditionalRead: jest.fn(async () => ({ status: 404 }))
+    };
+    const logger = { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      fhirClient: fhirClient as never,
+      logger,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+    return { provider, logger };
+  };
+
+  it('should resolve references against the merged aliases and keep the raw value', async () => {
+    const { provider } = await createProvider(
+      { hl7ext: 'http://hl7.org/fhir/StructureDefinition', labCode: '${loinc}|${street}' },
+      { hl7ext: 'http://server.test/ext', street: '${hl7ext}/iso21090-ADXP-streetName' }
+    );
+
+    // The file alias overrides the server one, also for the server alias referencing it
+    expect(provider.getAliases().street).toBe('http://hl7.org/fhir/StructureDefinition/iso21090-ADXP-streetName');
+    expect(provider.getAliasesWithMetadata().street).toEqual({
+      value: 'http://hl7.org/fhir/StructureDefinition/iso21090-ADXP-streetName',
+      rawValue: '${hl7ext}/iso21090-ADXP-streetName',
+      sourceType: 'server',
+      source: 'http://server.test/fhir/ConceptMap/cm1'
+    });
+    // References are resolved recursively and may target built-in aliases
+    expect(provider.getAliases().labCode).toBe('http://loinc.org|http://hl7.org/fhir/StructureDefinition/iso21090-ADXP-streetName');
+    expect(provider.getAliasesWithMetadata().hl7ext.rawValue).toBeUndefined();
+    expect(provider.validate().aliasReferenceErrors).toEqual([]);
+
+    // Exports keep the references
+    const exported = provider.exportBundle().entry?.[0].resource as unknown as ConceptMap;
+    expect(conceptMapToAliasObject(exported).street).toBe('${hl7ext}/iso21090-ADXP-streetName');
+  });
+
+  it('should report unknown references and cycles and keep the raw value', async () => {
+    const { provider, logger } = await createProvider({
+      a: '${b}/a',
+      b: '${a}/b',
+      unknown: '${nope}',
+      dependent: '${unknown}/x',
+      fine: '${loinc}'
+    });
+
+    expect(provider.getAliases()).toMatchObject({ a: '${b}/a', unknown: '${nope}', dependent: '${unknown}/x', fine: 'http://loinc.org' });
+    expect(provider.getAliasesWithMetadata().a.referenceError).toBe('Circular alias reference: a -> b -> a');
+
+    const report = provider.validate();
+    expect(report.valid).toBe(false);
+    expect(report.aliasReferenceErrors.map(e => [e.key, e.reason])).toEqual([
+      ['a', 'Circular alias reference: a -> b -> a'],
+      ['b', 'Circular alias reference: a -> b -> a'],
+      ['unknown', "Unknown alias 'nope' referenced"],
+      ['dependent', "Referenced alias 'unknown' cannot be resolved"]
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("Alias 'unknown' from "));
+  });
+});
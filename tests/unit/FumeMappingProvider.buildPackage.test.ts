@@ -0,0 +1,107 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import { conceptMapToAliasObject, structureMapToExpression } from '../../src/converters';
+import type { ConceptMap, StructureMap } from '../../src/types';
+import { FhirPackageInstaller } from 'fhir-package-installer';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+
+describe('FumeMappingProvider.buildPackage', () => {
+  // Minimal ustar reader: file name -> content
+  const readTarball = async (file: string): Promise<Map<string, string>> => {
+    const tar = gunzipSync(await fs.readFile(file));
+    const files = new Map<string, string>();
+    let offset = 0;
+    while (offset < tar.length && tar[offset] !== 0) {
+      const name = tar.toString('utf-8', offset, offset + 100).replace(/\0.*$/s, '');
+      const size = parseInt(tar.toString('utf-8', offset + 124, offset + 136), 8);
+      files.set(name, tar.toString('utf-8', offset + 512, offset + 512 + size));
+      offset += 512 + Math.ceil(size / 512) * 512;
+    }
+    return files;
+  };
+
+  const setup = async () => {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+    await fs.writeFile(path.join(folder, 'patient.fume'), 'InstanceOf: Patient');
+    await fs.writeFile(path.join(folder, 'address.fume'), '$x.address');
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ mrn: 'http://mrn' }));
+
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+    return { provider, outputPath: path.join(folder, 'out', 'acme.fume.mappings-1.0.0.tgz') };
+  };
+
+  it('should write a package tarball with manifest, index, StructureMaps and the alias ConceptMap', async () => {
+    const { provider, outputPath } = await setup();
+
+    const result = await provider.buildPackage({
+      name: 'acme.fume.mappings',
+      version: '1.0.0',
+      canonical: 'http://acme.org/fhir/',
+      dependencies: { 'hl7.fhir.r4.core': '4.0.1' },
+      outputPath
+    });
+    expect(result.path).toBe(outputPath);
+    expect(result.files).toEqual([
+      'package/package.json',
+      'package/StructureMap-address.json',
+      'package/StructureMap-patient.json',
+      'package/ConceptMap-fume-global-aliases.json',
+      'package/.index.json'
+    ]);
+
+    const files = await readTarball(outputPath);
+    expect(Array.from(files.keys())).toEqual(result.files);
+    expect(JSON.parse(files.get('package/package.json') as string)).toEqual({
+      name: 'acme.fume.mappings',
+      version: '1.0.0',
+      canonical: 'http://acme.org/fhir',
+      fhirVersions: ['4.0.1'],
+      dependencies: { 'hl7.fhir.r4.core': '4.0.1' }
+    });
+
+    const patient = JSON.parse(files.get('package/StructureMap-patient.json') as string) as StructureMap;
+    expect(structureMapToExpression(patient)).toBe('InstanceOf: Patient');
+    expect(patient.url).toBe('http://acme.org/fhir/StructureMap/patient');
+    expect((patient as unknown as { version: string }).version).toBe('1.0.0');
+
+    const conceptMap = JSON.parse(files.get('package/ConceptMap-fume-global-aliases.json') as string) as ConceptMap;
+    expect(conceptMapToAliasObject(conceptMap)).toEqual({ mrn: 'http://mrn' });
+
+    const index = JSON.parse(files.get('package/.index.json') as string);
+    expect(index.files[1]).toEqual({
+      filename: 'StructureMap-patient.json',
+      resourceType: 'StructureMap',
+      id: 'patient',
+      url: 'http://acme.org/fhir/StructureMap/patient',
+      name: 'patient',
+      version: '1.0.0'
+    });
+  });
+
+  it('should produce a tarball the FHIR package installer can install', async () => {
+    const { provider, outputPath } = await setup();
+    await provider.buildPackage({ name: 'acme.fume.mappings', version: '1.0.0', includeAliases: false, outputPath });
+
+    const cachePath = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-package-cache-'));
+    const fpi = new FhirPackageInstaller({ cachePath, logger: { info: () => {}, warn: () => {}, error: () => {} } });
+    expect(await fpi.installLocalPackage(outputPath)).toBe(true);
+
+    const installed = path.join(cachePath, 'acme.fume.mappings#1.0.0', 'package');
+    expect((await fs.readdir(installed)).sort()).toEqual(
+      expect.arrayContaining(['StructureMap-address.json', 'StructureMap-patient.json', 'package.json'])
+    );
+  });
+
+  it('should reject invalid package names', async () => {
+    const { provider } = await setup();
+    await expect(provider.buildPackage({ name: '../evil', version: '1.0.0' })).rejects.toThrow("Invalid package name '../evil'.");
+  });
+});
@@ -0,0 +1,61 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import { conceptMapToAliasObject, structureMapToExpression } from '../../src/converters';
+import type { ConceptMap, StructureMap } from '../../src/types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider.exportBundle', () => {
+  const setup = async () => {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+    await fs.writeFile(path.join(folder, 'patient.fume'), 'InstanceOf: Patient');
+    await fs.writeFile(path.join(folder, 'address.fume'), '$x.address');
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ mrn: 'http://mrn' }));
+    await fs.writeFile(path.join(folder, 'codes.json'), JSON.stringify({ a: [1, 2] }));
+
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      canonicalBaseUrl: 'http://acme.org',
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+    return provider;
+  };
+
+  it('should export mappings and non-built-in aliases as a transaction with PUT by id', async () => {
+    const provider = await setup();
+
+    const bundle = provider.exportBundle();
+    expect(bundle.type).toBe('transaction');
+    expect(bundle.entry?.map(e => e.request)).toEqual([
+      { method: 'PUT', url: 'StructureMap/address' },
+      { method: 'PUT', url: 'StructureMap/patient' },
+      { method: 'PUT', url: 'ConceptMap/fume-global-aliases' }
+    ]);
+
+    const structureMap = bundle.entry?.[1].resource as unknown as StructureMap;
+    expect(structureMapToExpression(structureMap)).toBe('InstanceOf: Patient');
+    expect(structureMap.url).toBe('http://acme.org/StructureMap/patient');
+    expect(conceptMapToAliasObject(bundle.entry?.[2].resource as unknown as ConceptMap)).toEqual({ mrn: 'http://mrn' });
+  });
+
+  it('should export a collection with static JSON values as Binary resources', async () => {
+    const provider = await setup();
+
+    const bundle = provider.exportBundle({ type: 'collection', includeAliases: false, includeStaticJson: true });
+    expect(bundle.type).toBe('collection');
+    expect(bundle.entry?.every(e => e.request === undefined)).toBe(true);
+    expect(bundle.entry?.map(e => `${e.resource?.resourceType}/${e.resource?.id}`)).toEqual([
+      'StructureMap/address',
+      'StructureMap/patient',
+      'Binary/codes'
+    ]);
+
+    const binary = bundle.entry?.[2].resource as unknown as { contentType: string; data: string; meta: unknown };
+    expect(binary.contentType).toBe('application/json');
+    expect(binary.meta).toEqual({ tag: [{ system: 'http://codes.fume.health', code: 'fume' }] });
+    expect(JSON.parse(Buffer.from(binary.data, 'base64').toString('utf-8'))).toEqual({ a: [1, 2] });
+  });
+});
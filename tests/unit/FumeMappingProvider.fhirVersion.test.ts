@@ -0,0 +1,94 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import type { ConceptMap, FumeMappingProviderConfig, StructureMap } from '../../src/types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider FHIR versions', () => {
+  const readFixture = async <T>(release: string, file: string): Promise<T> =>
+    JSON.parse(await fs.readFile(path.join(__dirname, '..', 'fixtures', 'fhir-versions', release, file), 'utf-8')) as T;
+
+  const createFhirClient = async (release: string) => {
+    const capabilities = await readFixture<{ fhirVersion: string }>(release, 'CapabilityStatement.json');
+    const structureMap = await readFixture<StructureMap>(release, 'StructureMap-patient.json');
+    const conceptMap = await readFixture<ConceptMap>(release, 'ConceptMap-aliases.json');
+    return {
+      getBaseUrl: () => 'http://server.test/fhir',
+      getCapabilities: jest.fn(async () => capabilities),
+      search: jest.fn(async (resourceType: string) => (resourceType === 'StructureMap' ? [structureMap] : [conceptMap])),
+      read: jest.fn(async () => null),
+      conditionalRead: jest.fn(async () => ({ status: 404 })),
+      update: jest.fn(async (resource: ConceptMap) => ({ ...resource, meta: { versionId: '2' } }))
+    };
+  };
+
+  const createProvider = async (fhirClient: object, options?: Pick<FumeMappingProviderConfig, 'fhirVersion' | 'logger'>) => {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ site: 'http://site' }));
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      fhirClient: fhirClient as never,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0,
+      ...options
+    });
+    await provider.initialize();
+    return provider;
+  };
+
+  it.each([
+    ['r4', 'R4'],
+    ['r4b', 'R4B'],
+    ['r5', 'R5']
+  ])('should detect %s servers and read and write resources in their layout', async (release, fhirVersion) => {
+    const fhirClient = await createFhirClient(release);
+    const provider = await createProvider(fhirClient);
+    const isR5 = fhirVersion === 'R5';
+
+    expect(provider.getFhirVersion()).toBe(fhirVersion);
+    expect(provider.getUserMapping('patient')?.expression).toBe('InstanceOf: Patient\n* identifier.system = $mrn');
+    expect(provider.getAliasesWithMetadata().mrn).toMatchObject({ value: 'urn:oid:1.2.3', description: 'Medical record number system' });
+
+    const structureMap = provider.expressionToStructureMap('observation', 'InstanceOf: Observation');
+    expect(structureMap.group?.[0].typeMode).toBe(isR5 ? undefined : 'none');
+
+    const exported = provider.exportBundle().entry?.map(entry => entry.resource) as unknown as Array<StructureMap | ConceptMap>;
+    const exportedTarget = (exported.find(r => r.resourceType === 'ConceptMap') as ConceptMap).group?.[0].element?.[0].target?.[0];
+    expect(exportedTarget).toEqual(isR5 ? { code: 'urn:oid:1.2.3', relationship: 'equivalent' } : { code: 'urn:oid:1.2.3', equivalence: 'equivalent' });
+
+    // Publishing keeps the server's layout for kept and new aliases
+    const report = await provider.publishAliases({ keepServerAliases: true });
+    expect(report.status).toBe('updated');
+    const published = fhirClient.update.mock.calls[0][0] as ConceptMap;
+    for (const element of published.group?.[0].element ?? []) {
+      expect(element.target?.[0]).toEqual(
+        isR5 ? { code: element.target?.[0].code, relationship: 'equivalent' } : { code: element.target?.[0].code, equivalence: 'equivalent' }
+      );
+    }
+    expect(published.group?.[0].element?.map(element => element.code)).toEqual(['mrn', 'site']);
+  });
+
+  it('should prefer the configured fhirVersion over detection', async () => {
+    const fhirClient = await createFhirClient('r4');
+    const provider = await createProvider(fhirClient, { fhirVersion: 'R5' });
+
+    expect(fhirClient.getCapabilities).not.toHaveBeenCalled();
+    expect(provider.getFhirVersion()).toBe('R5');
+    expect(provider.aliasObjectToConceptMap({ a: 'b' }).group?.[0].element?.[0].target).toEqual([{ code: 'b', relationship: 'equivalent' }]);
+  });
+
+  it('should fall back to R4 when the server version cannot be detected', async () => {
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+    const fhirClient = await createFhirClient('r5');
+    fhirClient.getCapabilities.mockRejectedValueOnce(new Error('Unauthorized'));
+    const provider = await createProvider(fhirClient, { logger });
+
+    expect(provider.getFhirVersion()).toBe('R4');
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Failed to read the CapabilityStatement of FHIR server http://server.test/fhir; using R4 resource shapes',
+      expect.any(Error)
+    );
+    expect(new FumeMappingProvider({}).getFhirVersion()).toBe('R4');
+  });
+});
@@ -0,0 +1,140 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import type { MappingChangeEvent } from '../../src/types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider file watch mode', () => {
+  const createTempFolder = async () => fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+
+  const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+    const start = Date.now();
+    while (!condition()) {
+      if (Date.now() - start > timeoutMs) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  type FileSyncSpy = { pollFileMappings(trigger?: string): Promise<void> };
+
+  let provider: FumeMappingProvider | undefined;
+
+  afterEach(() => {
+    provider?.stopAutomaticChangeTracking();
+    provider = undefined;
+  });
+
+  it('should apply changes from watch events without stat polling', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'a.fume'), 'v1');
+
+    provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      fileWatchMode: 'watch',
+      fileWatchDebounceMs: 20,
+      filePollingIntervalMs: 10,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    const sync = jest.spyOn(provider as unknown as FileSyncSpy, 'pollFileMappings');
+    const events: MappingChangeEvent[] = [];
+    provider.on('mappingAdded', e => events.push(e));
+    provider.on('mappingUpdated', e => events.push(e));
+    await provider.initialize();
+
+    await fs.writeFile(path.join(folder, 'a.fume'), 'v2-changed');
+    await fs.writeFile(path.join(folder, 'b.fume'), 'b');
+    await waitFor(() => provider?.getUserMapping('b') !== undefined && provider.getUserMapping('a')?.expression === 'v2-changed');
+
+    expect(events.map(e => [e.key, e.trigger])).toEqual(
+      expect.arrayContaining([['a', 'fileWatch'], ['b', 'fileWatch']])
+    );
+    expect(sync.mock.calls.every(([trigger]) => trigger === 'fileWatch')).toBe(true);
+  });
+
+  it('should debounce bursts of watch events into a single diff', async () => {
+    const folder = await createTempFolder();
+
+    provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      fileWatchMode: 'watch',
+      fileWatchDebounceMs: 200,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    const sync = jest.spyOn(provider as unknown as FileSyncSpy, 'pollFileMappings');
+    await provider.initialize();
+
+    for (let i = 0; i < 5; i++) {
+      await fs.writeFile(path.join(folder, `m${i}.fume`), `expr${i}`);
+    }
+    await waitFor(() => provider?.getUserMappingKeys().length === 5);
+
+    expect(sync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rerun the diff when watch events arrive while a diff is running', async () => {
+    const folder = await createTempFolder();
+    provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      fileWatchMode: 'watch',
+      fileWatchDebounceMs: 10,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+
+    const internal = provider as unknown as FileSyncSpy & { filePollInProgress: boolean };
+    internal.filePollInProgress = true;
+    await fs.writeFile(path.join(folder, 'late.fume'), 'late');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(provider.getUserMapping('late')).toBeUndefined();
+
+    // The running diff finishes (it saw nothing) -> the pending watch sync must run afterwards
+    internal.filePollInProgress = false;
+    await internal.pollFileMappings('filePoll');
+    await waitFor(() => provider?.getUserMapping('late') !== undefined);
+  });
+
+  it('should fall back to stat polling when a folder cannot be watched', async () => {
+    const folder = await createTempFolder();
+    const missing = path.join(folder, 'not-there-yet');
+    const warn = jest.fn();
+
+    provider = new FumeMappingProvider({
+      mappingsFolder: [folder, missing],
+      fileWatchMode: 'watch',
+      filePollingIntervalMs: 20,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0,
+      logger: { info: jest.fn(), debug: jest.fn(), warn, error: jest.fn() }
+    });
+    await provider.initialize();
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`Cannot watch mappings folder '${missing}'`));
+
+    await fs.mkdir(missing);
+    await fs.writeFile(path.join(missing, 'later.fume'), 'later');
+    await waitFor(() => provider?.getUserMapping('later') !== undefined);
+  });
+
+  it('should combine watch events with stat polling in hybrid mode', async () => {
+    const folder = await createTempFolder();
+    provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      fileWatchMode: 'hybrid',
+      fileWatchDebounceMs: 10,
+      filePollingIntervalMs: 30,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    const sync = jest.spyOn(provider as unknown as FileSyncSpy, 'pollFileMappings');
+    await provider.initialize();
+
+    await fs.writeFile(path.join(folder, 'h.fume'), 'h');
+    await waitFor(() => provider?.getUserMapping('h') !== undefined);
+    await waitFor(() => sync.mock.calls.some(([trigger]) => trigger === 'filePoll'));
+  });
+});
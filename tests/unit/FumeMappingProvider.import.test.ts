@@ -0,0 +1,156 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import { aliasObjectToConceptMap, expressionToStructureMap } from '../../src/converters';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider.importMappings', () => {
+  const createTempFolder = async () => fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+
+  const createProvider = (mappingsFolder: string) =>
+    new FumeMappingProvider({
+      mappingsFolder,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+
+  it('should import an exported Bundle into an empty mappings folder', async () => {
+    const devFolder = await createTempFolder();
+    await fs.writeFile(path.join(devFolder, 'patient.fume'), 'InstanceOf: Patient');
+    await fs.writeFile(path.join(devFolder, 'aliases.json'), JSON.stringify({ mrn: 'http://mrn' }));
+    const dev = createProvider(devFolder);
+    await dev.initialize();
+
+    const prodFolder = await createTempFolder();
+    const prod = createProvider(prodFolder);
+    await prod.initialize();
+
+    const report = await prod.importMappings(dev.exportBundle());
+    expect(report.targetFolder).toBe(prodFolder);
+    expect(report.results.map(r => [r.type, r.key, r.status, r.origin])).toEqual([
+      ['mapping', 'patient', 'created', 'Bundle entry[0]'],
+      ['alias', 'mrn', 'created', 'Bundle entry[1]']
+    ]);
+    expect(await fs.readFile(path.join(prodFolder, 'patient.fume'), 'utf-8')).toBe('InstanceOf: Patient');
+
+    // Caches were reloaded
+    expect(prod.getUserMapping('patient')?.expression).toBe('InstanceOf: Patient');
+    expect(prod.getAliases().mrn).toBe('http://mrn');
+  });
+
+  it.each([
+    ['skip', 'skipped', 'existing', 'existing'],
+    ['overwrite', 'overwritten', 'existing', 'imported'],
+    ['rename', 'renamed', 'existing2', 'existing']
+  ] as const)('should apply the %s collision policy', async (onCollision, status, key, existingContent) => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'existing.fume'), 'existing');
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ shared: 'old' }));
+    const provider = createProvider(folder);
+    await provider.initialize();
+
+    const packFolder = await createTempFolder();
+    await fs.writeFile(path.join(packFolder, 'a.json'), JSON.stringify(expressionToStructureMap('existing', 'imported')));
+    await fs.writeFile(path.join(packFolder, 'b.json'), JSON.stringify({ ...aliasObjectToConceptMap({ shared: 'new', constructor: 'c' }), id: 'cm' }));
+
+    const report = await provider.importMappings(packFolder, { onCollision });
+    expect(report.results.map(r => [r.type, r.key, r.status])).toEqual([
+      ['mapping', key, status],
+      ['alias', 'shared', onCollision === 'overwrite' ? 'overwritten' : 'skipped'],
+      ['alias', 'constructor', 'created']
+    ]);
+    expect(await fs.readFile(path.join(folder, 'existing.fume'), 'utf-8')).toBe(existingContent);
+    if (onCollision === 'rename') {
+      expect(provider.getUserMapping('existing2')?.expression).toBe('imported');
+    }
+  });
+
+  it('should overwrite a key in the file that holds it, not shadow it from the target folder', async () => {
+    const baseFolder = await createTempFolder();
+    const topFolder = await createTempFolder();
+    await fs.mkdir(path.join(baseFolder, 'nested'));
+    await fs.writeFile(path.join(baseFolder, 'base.fume'), 'base');
+    await fs.writeFile(path.join(baseFolder, 'nested', 'deep.fume'), 'deep');
+    const provider = new FumeMappingProvider({
+      mappingsFolder: [baseFolder, topFolder],
+      recursive: true,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+
+    const bundle = {
+      resourceType: 'Bundle' as const,
+      type: 'collection',
+      entry: [{ resource: expressionToStructureMap('base', 'imported base') }, { resource: expressionToStructureMap('nestedDeep', 'imported deep') }]
+    };
+    const report = await provider.importMappings(bundle as never, { onCollision: 'overwrite' });
+
+    expect(report.targetFolder).toBe(topFolder);
+    expect(report.results.map(r => [r.key, r.status, r.file])).toEqual([
+      ['base', 'overwritten', path.join(baseFolder, 'base.fume')],
+      ['nestedDeep', 'overwritten', path.join(baseFolder, 'nested', 'deep.fume')]
+    ]);
+    expect(await fs.readdir(topFolder)).toEqual([]);
+    expect(provider.getUserMapping('base')?.expression).toBe('imported base');
+    expect(provider.getUserMapping('nestedDeep')?.expression).toBe('imported deep');
+    expect(provider.validate().shadowedKeys).toEqual([]);
+  });
+
+  it.each([
+    ['malformed', '{ "mrn": ', 'SyntaxError'],
+    ['not an object', '["http://mrn"]', 'it does not hold a JSON object']
+  ])('should report aliases as invalid when aliases.json is %s', async (_case, content, reason) => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'aliases.json'), content);
+    const provider = createProvider(folder);
+    await provider.initialize();
+    const bundle = {
+      resourceType: 'Bundle' as const,
+      type: 'collection',
+      entry: [{ resource: expressionToStructureMap('patient', 'InstanceOf: Patient') }, { resource: aliasObjectToConceptMap({ mrn: 'http://mrn' }) }]
+    };
+
+    for (const dryRun of [true, false]) {
+      const report = await provider.importMappings(bundle as never, { dryRun });
+      expect(report.results.map(r => [r.type, r.key, r.status])).toEqual([
+        ['mapping', 'patient', 'created'],
+        ['alias', 'mrn', 'invalid']
+      ]);
+      expect(report.results[1].message).toContain(`Cannot merge aliases into ${path.join(folder, 'aliases.json')}: `);
+      expect(report.results[1].message).toContain(reason);
+    }
+    expect(await fs.readFile(path.join(folder, 'aliases.json'), 'utf-8')).toBe(content);
+    expect(provider.getUserMapping('patient')?.expression).toBe('InstanceOf: Patient');
+  });
+
+  it('should report invalid resources and write nothing on a dry run', async () => {
+    const folder = await createTempFolder();
+    const provider = createProvider(folder);
+    await provider.initialize();
+
+    const notFume = { resourceType: 'StructureMap', id: 'plain', group: [] };
+    const bundle = {
+      resourceType: 'Bundle' as const,
+      type: 'collection',
+      entry: [
+        { resource: expressionToStructureMap('bad_id', 'x') },
+        { resource: notFume },
+        { resource: expressionToStructureMap('good', 'g') },
+        { resource: { resourceType: 'Patient', id: 'p1' } }
+      ]
+    };
+
+    const report = await provider.importMappings(bundle as never, { dryRun: true });
+    expect(report.dryRun).toBe(true);
+    expect(report.results.map(r => [r.key, r.status, r.message])).toEqual([
+      ['bad_id', 'invalid', "Invalid mapping key 'bad_id' (must start with a letter, alphanumeric only, max 64 characters)"],
+      ['plain', 'invalid', 'Not a FUME mapping'],
+      ['good', 'created', undefined]
+    ]);
+    expect(await fs.readdir(folder)).toEqual([]);
+    expect(provider.getUserMapping('good')).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import type { MappingChangeEvent } from '../../src/types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider mapping history', () => {
+  const createTempFolder = async () => fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+
+  const createProvider = (config: Partial<ConstructorParameters<typeof FumeMappingProvider>[0]>) =>
+    new FumeMappingProvider({
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0,
+      logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+      ...config
+    });
+
+  it('should record a bounded history of changes and removals', async () => {
+    const folder = await createTempFolder();
+    const file = path.join(folder, 'm.fume');
+    await fs.writeFile(file, 'v1');
+
+    const provider = createProvider({ mappingsFolder: folder, mappingHistory: { maxEntries: 3 } });
+    await provider.initialize();
+
+    await fs.writeFile(file, 'v2');
+    await provider.refreshUserMapping('m');
+    await provider.refreshUserMapping('m'); // unchanged: not recorded
+    await fs.writeFile(file, 'v3');
+    await provider.refreshUserMapping('m');
+    await fs.unlink(file);
+    await provider.refreshUserMapping('m');
+
+    const history = provider.getUserMappingHistory('m');
+    expect(history.map(e => [e.version, e.trigger, e.expression, e.removed])).toEqual([
+      [2, 'manual', 'v2', undefined],
+      [3, 'manual', 'v3', undefined],
+      [4, 'manual', undefined, true]
+    ]);
+    expect(history[2].source).toBe(path.resolve(file));
+    expect(provider.getUserMappingHistory('unknown')).toEqual([]);
+  });
+
+  it('should keep serving a pinned version until unpinned', async () => {
+    const folder = await createTempFolder();
+    const file = path.join(folder, 'm.fume');
+    await fs.writeFile(file, 'v1');
+
+    const provider = createProvider({ mappingsFolder: folder, mappingHistory: {} });
+    await provider.initialize();
+    await fs.writeFile(file, 'v2');
+    await provider.refreshUserMapping('m');
+
+    const events: MappingChangeEvent[] = [];
+    provider.on('mappingUpdated', e => events.push(e));
+    provider.on('mappingRemoved', e => events.push(e));
+
+    expect(provider.pinUserMapping('m', 1).expression).toBe('v1');
+    expect(provider.getPinnedUserMappingVersion('m')).toBe(1);
+    expect(provider.getUserMapping('m')?.expression).toBe('v1');
+
+    // Source changes are recorded but not served
+    await fs.writeFile(file, 'v3');
+    await provider.reloadUserMappings();
+    await fs.unlink(file);
+    await provider.reloadUserMappings();
+    expect(provider.getUserMapping('m')?.expression).toBe('v1');
+    expect(provider.getUserMappingHistory('m').map(e => e.expression ?? 'removed')).toEqual(['v1', 'v2', 'v3', 'removed']);
+
+    expect(provider.unpinUserMapping('m')).toBeUndefined();
+    expect(provider.getUserMapping('m')).toBeUndefined();
+    expect(provider.getPinnedUserMappingVersion('m')).toBeUndefined();
+    expect(events.map(e => [e.trigger, e.before?.expression, e.after?.expression])).toEqual([
+      ['manual', 'v2', 'v1'],
+      ['manual', 'v1', undefined]
+    ]);
+  });
+
+  it('should reject pinning versions that are not in the history', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'm.fume'), 'v1');
+
+    const withHistory = createProvider({ mappingsFolder: folder, mappingHistory: {} });
+    await withHistory.initialize();
+    expect(() => withHistory.pinUserMapping('m', 2)).toThrow("Version 2 of user mapping 'm' is not in the history.");
+
+    const withoutHistory = createProvider({ mappingsFolder: folder });
+    await withoutHistory.initialize();
+    expect(withoutHistory.getUserMappingHistory('m')).toEqual([]);
+    expect(() => withoutHistory.pinUserMapping('m', 1)).toThrow();
+  });
+
+  it('should persist history to a folder and continue numbering after a restart', async () => {
+    const folder = await createTempFolder();
+    const historyFolder = await createTempFolder();
+    const file = path.join(folder, 'm.fume');
+    await fs.writeFile(file, 'v1');
+
+    const first = createProvider({ mappingsFolder: folder, mappingHistory: { folder: historyFolder } });
+    await first.initialize();
+    await fs.writeFile(file, 'v2');
+    await first.refreshUserMapping('m');
+    await (first as unknown as { mappingHistory: { flush(): Promise<void> } }).mappingHistory.flush();
+
+    const persisted = JSON.parse(await fs.readFile(path.join(historyFolder, 'm.json'), 'utf-8'));
+    expect(persisted.map((e: { expression: string }) => e.expression)).toEqual(['v1', 'v2']);
+
+    await fs.writeFile(file, 'v3');
+    const second = createProvider({ mappingsFolder: folder, mappingHistory: { folder: historyFolder } });
+    await second.initialize();
+    expect(second.getUserMappingHistory('m').map(e => [e.version, e.expression])).toEqual([
+      [1, 'v1'],
+      [2, 'v2'],
+      [3, 'v3']
+    ]);
+    expect(second.pinUserMapping('m', 2).expression).toBe('v2');
+  });
+});
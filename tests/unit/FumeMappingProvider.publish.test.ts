@@ -0,0 +1,302 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import { aliasObjectToConceptMap, conceptMapToAliasObject, structureMapToExpression } from '../../src/converters';
+import { builtInAliases } from '../../src/builtInAliases';
+import type { ConceptMap, StructureMap } from '../../src/types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider publishing', () => {
+  const fumeStructureMap = (id: string, expression: string, versionId: string): StructureMap => ({
+    resourceType: 'StructureMap',
+    id,
+    meta: { versionId },
+    group: [
+      {
+        rule: [
+          {
+            extension: [
+              {
+                url: 'http://fhir.fume.health/StructureDefinition/mapping-expression',
+                valueExpression: { expression }
+              }
+            ]
+          }
+        ]
+      }
+    ]
+  } as unknown as StructureMap);
+
+  type Resource = { resourceType: string; id?: string; meta?: { versionId?: string } };
+
+  // Minimal in-memory FHIR server honoring If-Match and If-None-Match on update
+  const createFhirClient = () => {
+    const structureMaps = new Map<string, StructureMap>();
+    const conceptMaps = new Map<string, ConceptMap>();
+    const store = (resourceType: string) => (resourceType === 'StructureMap' ? structureMaps : conceptMaps) as unknown as Map<string, Resource>;
+    const save = <T extends Resource>(resource: T): T => {
+      const id = resource.id ?? `generated${conceptMaps.size + 1}`;
+      const current = store(resource.resourceType).get(id);
+      const saved = { ...resource, id, meta: { versionId: String(Number(current?.meta?.versionId ?? 0) + 1) } };
+      store(resource.resourceType).set(id, saved);
+      return saved;
+    };
+    return {
+      structureMaps,
+      conceptMaps,
+      getBaseUrl: () => 'http://server.test/fhir',
+      search: jest.fn(async (resourceType: string) => Array.from(store(resourceType).values())),
+      read: jest.fn(async (resourceType: string, id: string) => store(resourceType).get(id) ?? null),
+      conditionalRead: jest.fn(async (resourceType: string, id: string) => {
+        const resource = store(resourceType).get(id);
+        return resource ? { status: 200, resource } : { status: 404 };
+      }),
+      create: jest.fn(async (_resourceType: string, resource: Resource) => save({ ...resource, id: undefined })),
+      update: jest.fn(async (resource: Resource, options?: { headers?: Record<string, string> }) => {
+        const current = store(resource.resourceType).get(resource.id as string);
+        const ifMatch = options?.headers?.['If-Match'];
+        if (ifMatch && ifMatch !== `W/"${current?.meta?.versionId}"`) {
+          throw Object.assign(new Error('Precondition Failed'), { status: 412 });
+        }
+        if (options?.headers?.['If-None-Match'] === '*' && current) {
+          throw Object.assign(new Error('Precondition Failed'), { status: 412 });
+        }
+        return save(resource);
+      })
+    };
+  };
+
+  const setup = async () => {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+    await fs.writeFile(path.join(folder, 'a.fume'), 'A');
+    await fs.writeFile(path.join(folder, 'b.fume'), 'B2');
+    await fs.writeFile(path.join(folder, 'c.fume'), 'C');
+
+    const fhirClient = createFhirClient();
+    fhirClient.structureMaps.set('b', fumeStructureMap('b', 'B1', '1'));
+    fhirClient.structureMaps.set('c', fumeStructureMap('c', 'C', '3'));
+    fhirClient.structureMaps.set('d', fumeStructureMap('d', 'D', '1'));
+
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      fhirClient: fhirClient as never,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+    return { provider, fhirClient };
+  };
+
+  it('should report what would change on a dry run without writing', async () => {
+    const { provider, fhirClient } = await setup();
+
+    const report = await provider.publishUserMappings({ dryRun: true });
+    expect(report.dryRun).toBe(true);
+    expect(report.server).toBe('http://server.test/fhir');
+    expect(report.results.map(r => [r.key, r.status, r.versionId])).toEqual([
+      ['a', 'created', undefined],
+      ['b', 'updated', '1'],
+      ['c', 'unchanged', '3']
+    ]);
+    expect(fhirClient.update).not.toHaveBeenCalled();
+  });
+
+  it('should create and update StructureMaps with If-Match on the current version', async () => {
+    const { provider, fhirClient } = await setup();
+
+    const report = await provider.publishUserMappings();
+    expect(report.results.map(r => [r.key, r.status, r.versionId])).toEqual([
+      ['a', 'created', '1'],
+      ['b', 'updated', '2'],
+      ['c', 'unchanged', '3']
+    ]);
+    expect(fhirClient.update).toHaveBeenCalledTimes(2);
+    expect(fhirClient.update.mock.calls[0][1]).toEqual({ headers: { 'If-None-Match': '*' } });
+    expect(fhirClient.update.mock.calls[1][1]).toEqual({ headers: { 'If-Match': 'W/"1"' } });
+    expect(structureMapToExpression(fhirClient.structureMaps.get('a') as StructureMap)).toBe('A');
+    expect(fhirClient.structureMaps.get('a')?.url).toBe('http://example.com/StructureMap/a');
+
+    // Publishing again is a no-op
+    const again = await provider.publishUserMappings();
+    expect(again.results.every(r => r.status === 'unchanged')).toBe(true);
+  });
+
+  it('should keep authored elements of existing StructureMaps', async () => {
+    const { provider, fhirClient } = await setup();
+    const authored = { ...fumeStructureMap('b', 'B1', '1'), description: 'Owned by team B', publisher: 'Acme', version: '3.0.0' };
+    fhirClient.structureMaps.set('b', authored);
+
+    await provider.publishUserMappings({ keys: ['b'] });
+    const published = fhirClient.structureMaps.get('b') as StructureMap & Record<string, unknown>;
+    expect(structureMapToExpression(published)).toBe('B2');
+    expect(published).toMatchObject({ description: 'Owned by team B', publisher: 'Acme', version: '3.0.0' });
+    expect(published.url).toBeUndefined();
+    expect(published.date).toBeDefined();
+  });
+
+  it('should report conflicts and skip keys that are not file mappings', async () => {
+    const { provider, fhirClient } = await setup();
+
+    // Someone else updates 'b' between our read and our write
+    fhirClient.structureMaps.set('b', fumeStructureMap('b', 'B-other', '2'));
+    fhirClient.conditionalRead.mockImplementationOnce(async () => ({ status: 200, resource: fumeStructureMap('b', 'B1', '1') }));
+
+    const report = await provider.publishUserMappings({ keys: ['d', 'b', 'missing'] });
+    expect(report.results).toEqual([
+      { key: 'd', status: 'skipped', message: 'Not a file mapping' },
+      { key: 'b', status: 'conflict', resourceId: 'b', versionId: '1', message: 'StructureMap/b was changed on the server since it was read' },
+      { key: 'missing', status: 'skipped', message: 'No such user mapping' }
+    ]);
+    expect(structureMapToExpression(fhirClient.structureMaps.get('b') as StructureMap)).toBe('B-other');
+  });
+
+  it('should not overwrite StructureMaps changed on the server since the last sync', async () => {
+    const { provider, fhirClient } = await setup();
+
+    // Edited on the server after the provider loaded version 1, and created there without being synced
+    fhirClient.structureMaps.set('b', fumeStructureMap('b', 'B-server', '2'));
+    fhirClient.structureMaps.set('a', fumeStructureMap('a', 'A-server', '1'));
+
+    const report = await provider.publishUserMappings({ keys: ['a', 'b'] });
+    expect(report.results).toEqual([
+      { key: 'a', status: 'conflict', resourceId: 'a', versionId: '1', message: 'StructureMap/a was created on the server since the last sync' },
+      { key: 'b', status: 'conflict', resourceId: 'b', versionId: '2', message: 'StructureMap/b is at version 2, not the last synced version 1' }
+    ]);
+    expect(fhirClient.update).not.toHaveBeenCalled();
+
+    // Once synced, the server versions can be overwritten deliberately
+    await provider.reloadUserMappings();
+    const again = await provider.publishUserMappings({ keys: ['a', 'b'] });
+    expect(again.results.map(r => [r.key, r.status, r.versionId])).toEqual([['a', 'updated', '2'], ['b', 'updated', '3']]);
+    expect(fhirClient.update.mock.calls[1][1]).toEqual({ headers: { 'If-Match': 'W/"2"' } });
+  });
+
+  it('should not create over a StructureMap that appeared since the read, nor write without a version', async () => {
+    const { provider, fhirClient } = await setup();
+
+    // The server does not version 'b', and a plain StructureMap uses the id 'c'
+    fhirClient.structureMaps.set('b', { ...fumeStructureMap('b', 'B1', '1'), meta: {} });
+    fhirClient.structureMaps.set('c', { resourceType: 'StructureMap', id: 'c', meta: { versionId: '7' } } as unknown as StructureMap);
+    await provider.reloadUserMappings();
+    // 'a' is created by someone else between our read and our write
+    fhirClient.conditionalRead.mockImplementationOnce(async () => {
+      fhirClient.structureMaps.set('a', fumeStructureMap('a', 'A-other', '1'));
+      return { status: 404 };
+    });
+
+    const report = await provider.publishUserMappings();
+    expect(report.results).toEqual([
+      { key: 'a', status: 'conflict', resourceId: 'a', message: 'StructureMap/a was created on the server since it was read' },
+      { key: 'b', status: 'failed', resourceId: 'b', message: 'StructureMap/b has no meta.versionId, so it cannot be updated with If-Match' },
+      { key: 'c', status: 'conflict', resourceId: 'c', versionId: '7', message: 'StructureMap/c exists but is not a FUME mapping' }
+    ]);
+    expect(structureMapToExpression(fhirClient.structureMaps.get('a') as StructureMap)).toBe('A-other');
+  });
+
+  it('should require a FHIR server', async () => {
+    const provider = new FumeMappingProvider({ filePollingIntervalMs: 0, serverPollingIntervalMs: 0, forcedResyncIntervalMs: 0 });
+    await expect(provider.publishUserMappings()).rejects.toThrow('No FHIR server configured to publish to.');
+  });
+
+  describe('publishAliases', () => {
+    const setupAliases = async (serverAliases?: Record<string, string>) => {
+      const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+      await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ fileOnly: 'f', shared: 'file' }));
+
+      const fhirClient = createFhirClient();
+      if (serverAliases) {
+        fhirClient.conceptMaps.set('cm1', { ...aliasObjectToConceptMap(serverAliases), id: 'cm1', meta: { versionId: '4' } });
+      }
+
+      const provider = new FumeMappingProvider({
+        mappingsFolder: folder,
+        fhirClient: fhirClient as never,
+        filePollingIntervalMs: 0,
+        serverPollingIntervalMs: 0,
+        forcedResyncIntervalMs: 0
+      });
+      await provider.initialize();
+      return { provider, fhirClient };
+    };
+
+    it('should replace the server ConceptMap with the included layers and update it with If-Match', async () => {
+      const { provider, fhirClient } = await setupAliases({ serverOnly: 's', shared: 'server' });
+
+      const dryRun = await provider.publishAliases({ dryRun: true });
+      expect(dryRun).toMatchObject({ status: 'updated', resourceId: 'cm1', versionId: '4', dryRun: true });
+      expect(fhirClient.update).not.toHaveBeenCalled();
+
+      const report = await provider.publishAliases();
+      expect(report).toMatchObject({ status: 'updated', resourceId: 'cm1', versionId: '5' });
+      // The server-only alias is dropped
+      expect(report.aliases).toEqual({ shared: 'file', fileOnly: 'f' });
+      expect(fhirClient.update).toHaveBeenCalledWith(expect.objectContaining({ id: 'cm1' }), { headers: { 'If-Match': 'W/"4"' } });
+      expect(conceptMapToAliasObject(fhirClient.conceptMaps.get('cm1') as ConceptMap)).toEqual(report.aliases);
+      expect(provider.getAliases().serverOnly).toBeUndefined();
+
+      // The provider now tracks the new version, so a second publish is a no-op
+      expect((await provider.publishAliases()).status).toBe('unchanged');
+    });
+
+    it('should merge the included layers over the server aliases with keepServerAliases', async () => {
+      const { provider, fhirClient } = await setupAliases({ serverOnly: 's', shared: 'server' });
+
+      const report = await provider.publishAliases({ keepServerAliases: true });
+      expect(report).toMatchObject({ status: 'updated', versionId: '5' });
+      expect(report.aliases).toEqual({ serverOnly: 's', shared: 'file', fileOnly: 'f' });
+      expect(conceptMapToAliasObject(fhirClient.conceptMaps.get('cm1') as ConceptMap)).toEqual(report.aliases);
+    });
+
+    it('should expose server alias documentation and keep it when publishing', async () => {
+      const { provider, fhirClient } = await setupAliases({ shared: 'server', serverOnly: 's' });
+      const documented = fhirClient.conceptMaps.get('cm1') as ConceptMap;
+      documented.group![0].element![0].display = 'Shared system, owned by the server team';
+      documented.group![0].element![0].target!.push({ code: 'urn:alt', equivalence: 'equal' });
+      documented.group![0].element![1].display = 'Server-only system';
+      await provider.reloadAliases();
+
+      expect(provider.getAliasesWithMetadata().serverOnly).toMatchObject({ value: 's', sourceType: 'server', description: 'Server-only system' });
+      expect(provider.getAliasesWithMetadata().shared).toMatchObject({ value: 'file', sourceType: 'file' });
+      expect(provider.conceptMapToAliasDefinitions(documented).shared).toEqual({
+        value: 'server',
+        description: 'Shared system, owned by the server team'
+      });
+
+      await provider.publishAliases();
+      const element = (fhirClient.conceptMaps.get('cm1') as ConceptMap).group![0].element![0];
+      expect(element).toMatchObject({ code: 'shared', display: 'Shared system, owned by the server team' });
+      expect(element.target?.map(t => t.code)).toEqual(['file', 'urn:alt']);
+    });
+
+    it('should report a conflict when the ConceptMap changed since the last sync', async () => {
+      const { provider, fhirClient } = await setupAliases({ shared: 'server' });
+      fhirClient.conceptMaps.set('cm1', { ...aliasObjectToConceptMap({ shared: 'other' }), id: 'cm1', meta: { versionId: '5' } });
+
+      const report = await provider.publishAliases();
+      expect(report.status).toBe('conflict');
+      expect(report.message).toBe('ConceptMap/cm1 is at version 5, not the last synced version 4');
+      expect(fhirClient.update).not.toHaveBeenCalled();
+    });
+
+    it('should create a FUME alias ConceptMap when none exists', async () => {
+      const { provider, fhirClient } = await setupAliases();
+
+      const report = await provider.publishAliases({ include: ['file', 'builtIn'] });
+      expect(report.status).toBe('created');
+      expect(fhirClient.create).toHaveBeenCalledWith('ConceptMap', expect.anything());
+      expect(report.aliases).toEqual({ ...builtInAliases, fileOnly: 'f', shared: 'file' });
+      expect(provider.getAliasResourceId()).toBe(report.resourceId);
+
+      // The created ConceptMap is found by the regular alias search
+      const reloaded = new FumeMappingProvider({
+        fhirClient: fhirClient as never,
+        filePollingIntervalMs: 0,
+        serverPollingIntervalMs: 0,
+        forcedResyncIntervalMs: 0
+      });
+      await reloaded.initialize();
+      expect(reloaded.getAliasesWithMetadata().fileOnly).toEqual({ value: 'f', sourceType: 'server', source: `http://server.test/fhir/ConceptMap/${report.resourceId}` });
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import type { StaticJsonValueChangeEvent } from '../../src/types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider server static JSON values', () => {
+  const fumeTag = [{ system: 'http://codes.fume.health', code: 'fume' }];
+
+  const binary = (id: string, value: unknown, versionId = '1', lastUpdated = '2024-01-01T00:00:00Z') => ({
+    resourceType: 'Binary',
+    id,
+    meta: { versionId, lastUpdated, tag: fumeTag },
+    contentType: 'application/json',
+    data: Buffer.from(JSON.stringify(value), 'utf-8').toString('base64')
+  });
+
+  const basic = (id: string, value: unknown, versionId = '1') => ({
+    resourceType: 'Basic',
+    id,
+    meta: { versionId, lastUpdated: '2024-01-01T00:00:00Z', tag: fumeTag },
+    code: { coding: [{ system: 'http://codes.fume.health', code: 'static-json' }] },
+    extension: [{ url: 'http://fhir.fume.health/StructureDefinition/static-json-value', valueString: JSON.stringify(value) }]
+  });
+
+  // Minimal in-memory FHIR client (search honours _tag and _lastUpdated=ge...)
+  const createFhirClient = () => {
+    const resources = new Map<string, { resourceType: string; id: string; meta?: { versionId?: string; lastUpdated?: string; tag?: unknown[] } }>();
+    return {
+      resources,
+      put: (resource: { resourceType: string; id: string }) => resources.set(`${resource.resourceType}/${resource.id}`, resource),
+      getBaseUrl: () => 'http://server.test/fhir',
+      search: jest.fn(async (resourceType: string, params: Record<string, string> = {}) =>
+        Array.from(resources.values()).filter(resource =>
+          resource.resourceType === resourceType &&
+          (!params._tag || (resource.meta?.tag ?? []).length > 0) &&
+          (!params._lastUpdated || (resource.meta?.lastUpdated ?? '') >= params._lastUpdated.slice(2))
+        )
+      ),
+      read: jest.fn(async () => null),
+      conditionalRead: jest.fn(async (resourceType: string, id: string, condition: { versionId?: string }) => {
+        const resource = resources.get(`${resourceType}/${id}`);
+        if (!resource) {
+          return { status: 404 };
+        }
+        if (condition.versionId && condition.versionId === resource.meta?.versionId) {
+          return { status: 304 };
+        }
+        return { status: 200, resource };
+      })
+    };
+  };
+
+  const createProvider = async (fhirClient: ReturnType<typeof createFhirClient>, files: Record<string, unknown> = {}) => {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+    for (const [name, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(folder, name), JSON.stringify(content));
+    }
+    const logger = { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      fhirClient: fhirClient as never,
+      fhirVersion: 'R4',
+      logger,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+    const internals = provider as unknown as {
+      pollFileMappings(): Promise<void>;
+      pollServerResources(server: unknown): Promise<void>;
+      fhirServers: unknown[];
+    };
+    return {
+      provider,
+      folder,
+      logger,
+      pollFiles: () => internals.pollFileMappings(),
+      pollServer: () => internals.pollServerResources(internals.fhirServers[0])
+    };
+  };
+
+  it('should load FUME-tagged Binary and Basic resources with file values taking precedence', async () => {
+    const fhirClient = createFhirClient();
+    fhirClient.put(binary('units', ['mg', 'kg']));
+    fhirClient.put(basic('settings', { retries: 3 }));
+    fhirClient.put(binary('shared', 'server'));
+    fhirClient.put({ ...binary('notJson', 1), contentType: 'text/plain' } as never);
+    fhirClient.put({ ...binary('untagged', 1), meta: {} } as never);
+
+    const { provider, folder, logger } = await createProvider(fhirClient, { 'shared.json': 'file' });
+
+    expect(provider.getStaticJsonValue('units')).toEqual({
+      key: 'units',
+      value: ['mg', 'kg'],
+      sourceType: 'server',
+      source: 'http://server.test/fhir/Binary/units',
+      server: 'http://server.test/fhir'
+    });
+    expect(provider.getStaticJsonValuesMetadata()).toContainEqual({
+      key: 'units',
+      sourceType: 'server',
+      source: 'http://server.test/fhir/Binary/units',
+      server: 'http://server.test/fhir'
+    });
+    expect(provider.getStaticJsonValue('settings')?.value).toEqual({ retries: 3 });
+    expect(provider.getStaticJsonValue('shared')).toMatchObject({ value: 'file', sourceType: 'file' });
+    expect(provider.getStaticJsonValueKeys().sort()).toEqual(['settings', 'shared', 'units']);
+    expect(fhirClient.search).toHaveBeenCalledWith('Binary', { _tag: 'http://codes.fume.health|fume' }, { fetchAll: true, noCache: true });
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Ignoring server static JSON value http://server.test/fhir/Binary/notJson: content type 'text/plain' is not JSON."
+    );
+    expect(provider.validate().shadowedKeys).toContainEqual({
+      type: 'staticJson',
+      key: 'shared',
+      source: path.resolve(folder, 'shared.json'),
+      shadowedSources: ['http://server.test/fhir/Binary/shared']
+    });
+  });
+
+  it('should apply server updates found by _lastUpdated polling without overriding files', async () => {
+    const fhirClient = createFhirClient();
+    fhirClient.put(binary('units', ['mg']));
+    fhirClient.put(binary('shared', 'server'));
+    const { provider, pollServer } = await createProvider(fhirClient, { 'shared.json': 'file' });
+    const events: StaticJsonValueChangeEvent[] = [];
+    provider.on('staticJsonValueChanged', event => events.push(event));
+
+    fhirClient.put(binary('units', ['mg', 'g'], '2', '2999-01-01T00:00:00Z'));
+    fhirClient.put(binary('shared', 'server v2', '2', '2999-01-01T00:00:00Z'));
+    fhirClient.search.mockClear();
+    await pollServer();
+
+    expect(fhirClient.search).toHaveBeenCalledWith(
+      'Binary',
+      { _lastUpdated: expect.stringMatching(/^ge/), _tag: 'http://codes.fume.health|fume' },
+      { fetchAll: true, noCache: true }
+    );
+    expect(provider.getStaticJsonValue('units')?.value).toEqual(['mg', 'g']);
+    expect(provider.getStaticJsonValue('shared')?.value).toBe('file');
+    expect(events.map(event => [event.key, event.sourceType, event.trigger])).toEqual([['units', 'server', 'serverPoll']]);
+  });
+
+  it('should refresh with conditional reads and fall back to the server when the file is removed', async () => {
+    const fhirClient = createFhirClient();
+    fhirClient.put(basic('shared', 'server'));
+    const { provider, folder, pollFiles } = await createProvider(fhirClient, { 'shared.json': 'file' });
+
+    await fs.rm(path.join(folder, 'shared.json'));
+    await pollFiles();
+    expect(provider.getStaticJsonValue('shared')).toMatchObject({ value: 'server', sourceType: 'server' });
+
+    // The cached version is sent back: 304, no change
+    fhirClient.conditionalRead.mockClear();
+    expect((await provider.refreshStaticJsonValue('shared'))?.value).toBe('server');
+    expect(fhirClient.conditionalRead).toHaveBeenCalledWith(
+      'Basic',
+      'shared',
+      { versionId: '1', lastUpdated: '2024-01-01T00:00:00Z' },
+      { noCache: true }
+    );
+    await expect(fhirClient.conditionalRead.mock.results[0].value).resolves.toEqual({ status: 304 });
+
+    fhirClient.resources.delete('Basic/shared');
+    expect(await provider.refreshStaticJsonValue('shared')).toBeNull();
+    expect(provider.getStaticJsonValue('shared')).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider static JSON indexes', () => {
+  const codes = [
+    { source: { code: 'M' }, target: { code: 'male' } },
+    { source: { code: 'F' }, target: { code: 'female' } },
+    { source: { code: ['U', 'X'] }, target: { code: 'unknown' } },
+    { source: { code: 1 }, target: { code: 'one' } }
+  ];
+
+  const createProvider = async (config: Partial<ConstructorParameters<typeof FumeMappingProvider>[0]> = {}) => {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+    await fs.writeFile(path.join(folder, 'codes.json'), JSON.stringify(codes));
+    const logger = { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      staticJsonIndexes: { codes: { bySource: 'source.code', byTarget: 'target.code' } },
+      logger,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0,
+      ...config
+    });
+    await provider.initialize();
+    const poll = () => (provider as unknown as { pollFileMappings(): Promise<void> }).pollFileMappings();
+    return { provider, folder, logger, poll };
+  };
+
+  it('should look up items by the declared index paths', async () => {
+    const { provider } = await createProvider();
+
+    expect(provider.lookupStaticJsonValue('codes', 'bySource', 'F')).toEqual(codes[1]);
+    expect(provider.lookupStaticJsonValue('codes', 'byTarget', 'male')).toEqual(codes[0]);
+    // Arrays along the path are flattened; lookup keys compare as strings
+    expect(provider.lookupStaticJsonValue('codes', 'bySource', 'X')).toEqual(codes[2]);
+    expect(provider.lookupStaticJsonValue('codes', 'bySource', '1')).toEqual(codes[3]);
+    expect(provider.lookupStaticJsonValue('codes', 'bySource', 'nope')).toBeUndefined();
+    expect(() => provider.lookupStaticJsonValue('codes', 'byDisplay', 'M')).toThrow(
+      "No index 'byDisplay' is declared for static JSON value 'codes'."
+    );
+  });
+
+  it('should rebuild the indexes when the value changes or is removed', async () => {
+    const { provider, folder, logger, poll } = await createProvider();
+    const file = path.join(folder, 'codes.json');
+
+    await fs.writeFile(file, JSON.stringify([
+      { source: { code: 'M' }, target: { code: 'masculine' } },
+      { source: { code: 'M' }, target: { code: 'other' } }
+    ]));
+    await poll();
+    expect(provider.lookupStaticJsonValue('codes', 'bySource', 'M')).toEqual({ source: { code: 'M' }, target: { code: 'masculine' } });
+    expect(provider.lookupStaticJsonValue('codes', 'bySource', 'F')).toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Index 'bySource' of static JSON value 'codes' has duplicate keys 'M'; the first item wins."
+    );
+
+    await fs.writeFile(file, JSON.stringify({ not: 'an array' }));
+    await poll();
+    expect(provider.lookupStaticJsonValue('codes', 'bySource', 'M')).toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith("Static JSON value 'codes' is not an array; index 'bySource' is empty.");
+
+    await fs.rm(file);
+    await poll();
+    expect(provider.lookupStaticJsonValue('codes', 'bySource', 'M')).toBeUndefined();
+  });
+
+  it('should reject invalid index paths', () => {
+    expect(() => new FumeMappingProvider({ staticJsonIndexes: { codes: { bad: 'source..code' } } })).toThrow(
+      "Invalid path 'source..code' for index 'bad' of static JSON value 'codes'."
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import * as jsonSchema from '../../src/jsonSchema';
+import { validateJsonSchema } from '../../src/jsonSchema';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider static JSON schemas', () => {
+  const countriesSchema = {
+    type: 'array',
+    items: { type: 'object', required: ['code', 'name'], properties: { code: { type: 'string', pattern: '^[A-Z]{2}$' } } }
+  };
+
+  const createProvider = async (files: Record<string, unknown>, staticJsonSchemas?: Record<string, object | boolean>) => {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+    for (const [name, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(folder, name), JSON.stringify(content));
+    }
+    const logger = { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      staticJsonSchemas,
+      logger,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+    const poll = () => (provider as unknown as { pollFileMappings(): Promise<void> }).pollFileMappings();
+    return { provider, folder, logger, poll };
+  };
+
+  it('should not load a value that fails its sidecar schema', async () => {
+    const { provider, folder, logger } = await createProvider({
+      'countries.json': [{ code: 'IL', name: 'Israel' }, { code: 'usa' }],
+      'countries.schema.json': countriesSchema,
+      'units.json': ['mg']
+    });
+
+    expect(provider.getStaticJsonValueKeys()).toEqual(['units']);
+    expect(provider.getStaticJsonValidationErrors()).toEqual([{
+      key: 'countries',
+      source: path.resolve(folder, 'countries.json'),
+      schema: path.resolve(folder, 'countries.schema.json'),
+      errors: [
+        { path: '/1', message: "must have required property 'name'" },
+        { path: '/1/code', message: 'must match pattern "^[A-Z]{2}$"' }
+      ],
+      keptLastValid: false,
+      rejectedAt: expect.any(String)
+    }]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("Static JSON value 'countries'"));
+  });
+
+  it('should keep the last valid value when a poll update fails validation', async () => {
+    const valid = [{ code: 'IL', name: 'Israel' }];
+    const { provider, folder, poll } = await createProvider({ 'countries.json': valid }, { countries: countriesSchema });
+    const changed = jest.fn();
+    provider.on('staticJsonValueChanged', changed);
+    const file = path.join(folder, 'countries.json');
+
+    await fs.writeFile(file, JSON.stringify([{ code: 'IL' }]));
+    await poll();
+    expect(provider.getStaticJsonValue('countries')?.value).toEqual(valid);
+    expect(provider.getStaticJsonValidationErrors()).toMatchObject([{ key: 'countries', schema: 'config', keptLastValid: true }]);
+    expect(changed).not.toHaveBeenCalled();
+
+    // Reverting to the last valid content clears the error
+    await fs.writeFile(file, JSON.stringify(valid));
+    await poll();
+    expect(provider.getStaticJsonValidationErrors()).toEqual([]);
+
+    await fs.writeFile(file, JSON.stringify([{ code: 'FR', name: 'France' }]));
+    await poll();
+    expect(provider.getStaticJsonValue('countries')?.value).toEqual([{ code: 'FR', name: 'France' }]);
+    expect(changed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should compile a schema once and recompile only when it changes', async () => {
+    const compile = jest.spyOn(jsonSchema, 'compileJsonSchema');
+    try {
+      const { provider, folder, poll } = await createProvider({
+        'countries.json': [{ code: 'IL', name: 'Israel' }],
+        'countries.schema.json': countriesSchema
+      });
+      const file = path.join(folder, 'countries.json');
+      expect(compile).toHaveBeenCalledTimes(1);
+
+      await fs.writeFile(file, JSON.stringify([{ code: 'FR', name: 'France' }]));
+      await poll();
+      await fs.writeFile(file, JSON.stringify([{ code: 'DE', name: 'Germany' }]));
+      await poll();
+      expect(provider.getStaticJsonValue('countries')?.value).toEqual([{ code: 'DE', name: 'Germany' }]);
+      expect(compile).toHaveBeenCalledTimes(1);
+
+      await fs.writeFile(path.join(folder, 'countries.schema.json'), JSON.stringify({ type: 'array', maxItems: 1 }));
+      await fs.writeFile(file, JSON.stringify([{ code: 'IT' }, { code: 'ES' }]));
+      await poll();
+      expect(compile).toHaveBeenCalledTimes(2);
+      expect(provider.getStaticJsonValidationErrors()).toMatchObject([{ key: 'countries', keptLastValid: true }]);
+    } finally {
+      compile.mockRestore();
+    }
+  });
+
+  it('should prefer the config schema over the sidecar', async () => {
+    const { provider } = await createProvider(
+      { 'flag.json': true, 'flag.schema.json': { type: 'string' } },
+      { flag: { type: 'boolean' } }
+    );
+
+    expect(provider.getStaticJsonValue('flag')?.value).toBe(true);
+    expect(provider.getStaticJsonValidationErrors()).toEqual([]);
+  });
+
+  it('should support combinators and local references', () => {
+    const schema = {
+      $defs: { code: { type: 'string', minLength: 1 } },
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        code: { $ref: '#/$defs/code' },
+        value: { oneOf: [{ type: 'integer' }, { type: 'string' }] }
+      }
+    };
+
+    expect(validateJsonSchema({ code: 'a', value: 1 }, schema)).toEqual([]);
+    expect(validateJsonSchema({ code: '', value: 1.5, extra: 1 }, schema)).toEqual([
+      { path: '/extra', message: "must NOT have additional properties ('extra')" },
+      { path: '/code', message: 'must NOT have fewer than 1 characters' },
+      { path: '/value', message: 'must be integer' },
+      { path: '/value', message: 'must be string' },
+      { path: '/value', message: 'must match exactly one schema in oneOf' }
+    ]);
+  });
+
+  it('should apply object keywords that constrain property names and counts', () => {
+    const schema = { patternProperties: { '^a$': { type: 'string' } }, minProperties: 5, propertyNames: { maxLength: 0 } };
+
+    expect(validateJsonSchema({ a: 1 }, schema)).toEqual(expect.arrayContaining([
+      { path: '', message: 'must NOT have fewer than 5 properties' },
+      { path: '', message: 'property name must be valid' },
+      { path: '/a', message: 'must be string' }
+    ]));
+    expect(validateJsonSchema({ a: 'x' }, { dependentRequired: { a: ['b'] } })).toEqual([
+      { path: '', message: 'must have property b when property a is present' }
+    ]);
+    expect(validateJsonSchema(['x', 'y'], { prefixItems: [{ type: 'string' }, { type: 'integer' }] })).toEqual([
+      { path: '/1', message: 'must be integer' }
+    ]);
+    expect(validateJsonSchema('not an email', { format: 'email' })).toEqual([{ path: '', message: 'must match format "email"' }]);
+  });
+
+  it('should reject unknown keywords and $ref cycles as invalid schemas', async () => {
+    expect(() => validateJsonSchema('x', { type: 'string', maxLenght: 1 })).toThrow('strict mode: unknown keyword: "maxLenght"');
+    expect(() => validateJsonSchema('x', { format: 'not-a-format' })).toThrow('unknown format "not-a-format"');
+
+    const cyclic = { $defs: { a: { $ref: '#/$defs/b' }, b: { allOf: [{ $ref: '#/$defs/a' }] } }, $ref: '#/$defs/a' };
+    expect(() => validateJsonSchema(1, cyclic)).toThrow('$ref cycle #/$defs/a -> #/$defs/b -> #/$defs/b/allOf/0 -> #/$defs/a');
+    // Recursion that descends into the value is fine
+    const tree = { $defs: { node: { type: 'object', properties: { child: { $ref: '#/$defs/node' } } } }, $ref: '#/$defs/node' };
+    expect(validateJsonSchema({ child: { child: {} } }, tree)).toEqual([]);
+
+    const { provider, folder } = await createProvider({ 'units.json': ['mg'] }, { units: cyclic });
+    expect(provider.getStaticJsonValue('units')).toBeUndefined();
+    expect(provider.getStaticJsonValidationErrors()).toEqual([expect.objectContaining({
+      key: 'units',
+      source: path.resolve(folder, 'units.json'),
+      errors: [{ path: '', message: 'Invalid schema. Error: $ref cycle #/$defs/a -> #/$defs/b -> #/$defs/b/allOf/0 -> #/$defs/a' }]
+    })]);
+  });
+});
@@ -0,0 +1,67 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import { expressionToStructureMap } from '../../src/converters';
+import type { StructureMap } from '../../src/types';
+
+describe('FumeMappingProvider sub-mappings', () => {
+  const multi = expressionToStructureMap('intake', {
+    patient: 'InstanceOf: Patient\n* name.text = $nameAlias',
+    'labs.observation': 'InstanceOf: Observation\n* code = $missingCode'
+  });
+
+  it('should expose every rule of a server StructureMap and resolve sub-mapping keys', async () => {
+    const fhirClient = {
+      getBaseUrl: () => 'http://server.test/fhir',
+      search: jest.fn(async (resourceType: string) => (resourceType === 'StructureMap' ? [multi] : [])),
+      read: jest.fn(async () => null),
+      conditionalRead: jest.fn(async () => ({ status: 404 }))
+    };
+    const provider = new FumeMappingProvider({
+      fhirClient: fhirClient as never,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+
+    const mapping = provider.getUserMapping('intake');
+    expect(mapping?.expression).toBe('InstanceOf: Patient\n* name.text = $nameAlias');
+    expect(mapping?.rules?.map(r => r.key)).toEqual(['intake#fumeMapping.patient', 'intake#labs.observation']);
+
+    const sub = provider.getUserMapping('intake#labs.observation');
+    expect(sub).toMatchObject({ key: 'intake#labs.observation', sourceType: 'server', expression: 'InstanceOf: Observation\n* code = $missingCode' });
+    expect(sub?.rules).toBeUndefined();
+    expect(provider.getUserMapping('intake#labs.missing')).toBeUndefined();
+
+    // References of every rule are validated, reported under the rule's key
+    const report = provider.validate({ ignoreReferences: ['nameAlias'] });
+    expect(report.missingReferences).toEqual([
+      { mappingKey: 'intake#labs.observation', mappingSource: 'http://server.test/fhir/StructureMap/intake', name: 'missingCode' }
+    ]);
+
+    // Exports keep every rule
+    const exported = provider.exportBundle({ includeAliases: false }).entry?.[0].resource as unknown as StructureMap;
+    expect(provider.structureMapToExpressions(exported).map(r => r.key)).toEqual(mapping?.rules?.map(r => r.key));
+  });
+
+  it('should resolve package sub-mappings by url, id or name', async () => {
+    const packaged = { ...multi, url: 'http://pkg/StructureMap/intake', __packageId: 'pkg', __packageVersion: '1.0.0', __filename: 'StructureMap-intake.json' };
+    const matches = (filter: Record<string, unknown>) =>
+      filter.url === packaged.url || filter.id === packaged.id || filter.name === packaged.name;
+    const explorer = {
+      lookup: jest.fn(async (filter: Record<string, unknown>) => (matches(filter) ? [packaged] : [])),
+      resolve: jest.fn(async (filter: Record<string, unknown>) => {
+        if (matches(filter)) {
+          return packaged;
+        }
+        throw new Error('Not found');
+      })
+    };
+    const provider = new FumeMappingProvider({ packageExplorer: explorer as never });
+
+    expect((await provider.getPackageMapping('http://pkg/StructureMap/intake#labs.observation'))?.expression).toBe(
+      'InstanceOf: Observation\n* code = $missingCode'
+    );
+    expect((await provider.getPackageMapping('intake#fumeMapping.patient'))?.id).toBe('intake');
+    expect(await provider.getPackageMapping('intake#labs.missing')).toBeNull();
+  });
+});
@@ -32,7 +32,8 @@ describe('FumeMappingProvider', () => {
         '/test/mappings',
         mockClient,
         undefined,
-        undefined
+        undefined,
+        { recursive: false, namespaceScheme: undefined }
       );
     });
 
@@ -48,7 +49,8 @@ describe('FumeMappingProvider', () => {
 
       expect(PackageMappingProvider).toHaveBeenCalledWith(
         mockExplorer,
-        undefined
+        undefined,
+        { index: false, strict: false }
       );
     });
 
@@ -65,7 +67,8 @@ describe('FumeMappingProvider', () => {
         '/test/mappings',
         undefined,
         undefined,
-        '.txt'
+        '.txt',
+        { recursive: false, namespaceScheme: undefined }
       );
     });
 
@@ -86,11 +89,13 @@ describe('FumeMappingProvider', () => {
         '/test/mappings',
         undefined,
         mockLogger,
-        undefined
+        undefined,
+        { recursive: false, namespaceScheme: undefined }
       );
       expect(PackageMappingProvider).toHaveBeenCalledWith(
         mockExplorer,
-        mockLogger
+        mockLogger,
+        { index: false, strict: false }
       );
     });
   });
@@ -406,6 +411,7 @@ describe('FumeMappingProvider', () => {
     let provider: FumeMappingProvider;
     let mockUserProvider: {
       loadMappings: jest.Mock;
+      getServerMappingsMeta: jest.Mock;
       loadStaticJsonValues: jest.Mock;
       loadStaticJsonValuesWithRaw: jest.Mock;
       loadStaticJsonValue: jest.Mock;
@@ -420,6 +426,7 @@ describe('FumeMappingProvider', () => {
     beforeEach(() => {
       mockUserProvider = {
         loadMappings: jest.fn().mockResolvedValue(new Map()),
+        getServerMappingsMeta: jest.fn().mockReturnValue(new Map()),
         loadStaticJsonValues: jest.fn().mockResolvedValue(new Map()),
         loadStaticJsonValuesWithRaw: jest.fn().mockResolvedValue({ values: new Map(), rawByKey: new Map() }),
         loadStaticJsonValue: jest.fn().mockResolvedValue(null),
@@ -623,6 +630,7 @@ describe('FumeMappingProvider', () => {
       // Ensure user provider is harmless for these tests
       (UserMappingProvider as unknown as jest.Mock).mockImplementation(() => ({
         loadMappings: jest.fn().mockResolvedValue(new Map()),
+        getServerMappingsMeta: jest.fn().mockReturnValue(new Map()),
         refreshMapping: jest.fn(),
         loadFileMapping: jest.fn().mockResolvedValue(null),
         loadStaticJsonValues: jest.fn().mockResolvedValue(new Map()),
@@ -784,6 +792,283 @@ describe('FumeMappingProvider', () => {
     });
   });
 
+  describe('Change Events', () => {
+    let mockUserProvider: {
+      loadMappings: jest.Mock;
+      getServerMappingsMeta: jest.Mock;
+      loadFileMapping: jest.Mock;
+      loadStaticJsonValuesWithRaw: jest.Mock;
+      loadStaticJsonValue: jest.Mock;
+      readStaticJsonValueRaw: jest.Mock;
+      conditionalReadServerMapping: jest.Mock;
+      isValidStaticJsonValueKey: jest.Mock;
+      isValidFileMappingKeyForPolling: jest.Mock;
+      searchServerMappings: jest.Mock;
+      listSourceFiles: jest.Mock;
+    };
+
+    const fileMapping = (key: string, expression: string) => ({
+      key,
+      expression,
+      sourceType: 'file' as const,
+      source: `/test/mappings/${key}.fume`
+    });
+
+    beforeEach(() => {
+      mockUserProvider = {
+        loadMappings: jest.fn().mockResolvedValue(new Map()),
+        getServerMappingsMeta: jest.fn().mockReturnValue(new Map()),
+        loadFileMapping: jest.fn().mockResolvedValue(null),
+        loadStaticJsonValuesWithRaw: jest.fn().mockResolvedValue({ values: new Map(), rawByKey: new Map() }),
+        loadStaticJsonValue: jest.fn().mockResolvedValue(null),
+        readStaticJsonValueRaw: jest.fn().mockResolvedValue(null),
+        conditionalReadServerMapping: jest.fn().mockResolvedValue({ status: 404 }),
+        isValidStaticJsonValueKey: jest.fn().mockReturnValue(true),
+        isValidFileMappingKeyForPolling: jest.fn().mockReturnValue(true),
+        searchServerMappings: jest.fn().mockResolvedValue({ mappings: new Map(), metaByKey: new Map() }),
+        listSourceFiles: jest.fn().mockResolvedValue([])
+      };
+      (UserMappingProvider as unknown as jest.Mock).mockImplementation(() => mockUserProvider);
+    });
+
+    it('should emit added/updated/removed mapping events with before/after and trigger', async () => {
+      const provider = new FumeMappingProvider({
+        mappingsFolder: '/test/mappings',
+        filePollingIntervalMs: 0,
+        serverPollingIntervalMs: 0,
+        forcedResyncIntervalMs: 0
+      });
+
+      const added = jest.fn();
+      const updated = jest.fn();
+      const removed = jest.fn();
+      provider.on('mappingAdded', added);
+      provider.on('mappingUpdated', updated);
+      provider.on('mappingRemoved', removed);
+
+      mockUserProvider.loadMappings
+        .mockResolvedValueOnce(new Map([['map1', fileMapping('map1', 'v1')], ['map2', fileMapping('map2', 'x')]]))
+        .mockResolvedValueOnce(new Map([['map1', fileMapping('map1', 'v2')]]));
+
+      await provider.initialize();
+      provider.stopAutomaticChangeTracking();
+
+      expect(added).toHaveBeenCalledTimes(2);
+      expect(added).toHaveBeenCalledWith({
+        key: 'map1',
+        sourceType: 'file',
+        trigger: 'initialize',
+        before: undefined,
+        after: fileMapping('map1', 'v1')
+      });
+
+      await provider.reloadUserMappings();
+
+      expect(updated).toHaveBeenCalledTimes(1);
+      expect(updated.mock.calls[0][0]).toMatchObject({
+        key: 'map1',
+        trigger: 'manual',
+        before: { expression: 'v1' },
+        after: { expression: 'v2' }
+      });
+      expect(removed).toHaveBeenCalledTimes(1);
+      expect(removed.mock.calls[0][0]).toMatchObject({
+        key: 'map2',
+        sourceType: 'file',
+        trigger: 'manual',
+        before: { expression: 'x' }
+      });
+      expect(removed.mock.calls[0][0].after).toBeUndefined();
+    });
+
+    it('should not emit when reloaded mappings are unchanged', async () => {
+      const provider = new FumeMappingProvider({
+        mappingsFolder: '/test/mappings',
+        filePollingIntervalMs: 0,
+        serverPollingIntervalMs: 0,
+        forcedResyncIntervalMs: 0
+      });
+
+      mockUserProvider.loadMappings.mockImplementation(async () => new Map([['map1', fileMapping('map1', 'v1')]]));
+      await provider.initialize();
+      provider.stopAutomaticChangeTracking();
+
+      const handler = jest.fn();
+      provider.on('mappingAdded', handler);
+      provider.on('mappingUpdated', handler);
+      provider.on('mappingRemoved', handler);
+
+      await provider.reloadUserMappings();
+      await provider.refreshUserMapping('unknownKey');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should stop delivering events after unsubscribe', async () => {
+      const provider = new FumeMappingProvider({
+        mappingsFolder: '/test/mappings',
+        filePollingIntervalMs: 0,
+        serverPollingIntervalMs: 0,
+        forcedResyncIntervalMs: 0
+      });
+
+      const handler = jest.fn();
+      const unsubscribe = provider.on('mappingAdded', handler);
+      unsubscribe();
+
+      mockUserProvider.loadMappings.mockResolvedValue(new Map([['map1', fileMapping('map1', 'v1')]]));
+      await provider.initialize();
+      provider.stopAutomaticChangeTracking();
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should log and swallow errors thrown by handlers', async () => {
+      const logger = { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const provider = new FumeMappingProvider({
+        mappingsFolder: '/test/mappings',
+        logger,
+        filePollingIntervalMs: 0,
+        serverPollingIntervalMs: 0,
+        forcedResyncIntervalMs: 0
+      });
+
+      provider.on('mappingAdded', () => {
+        throw new Error('boom');
+      });
+
+      mockUserProvider.loadMappings.mockResolvedValue(new Map([['map1', fileMapping('map1', 'v1')]]));
+      await expect(provider.initialize()).resolves.toBeUndefined();
+      provider.stopAutomaticChangeTracking();
+
+      expect(provider.getUserMapping('map1')).toBeDefined();
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("'mappingAdded' event handler"), expect.any(Error));
+    });
+
+    it('should emit staticJsonValueChanged only when raw content changes', async () => {
+      const provider = new FumeMappingProvider({
+        mappingsFolder: '/test/mappings',
+        filePollingIntervalMs: 0,
+        serverPollingIntervalMs: 0,
+        forcedResyncIntervalMs: 0
+      });
+
+      const handler = jest.fn();
+      provider.on('staticJsonValueChanged', handler);
+
+      const value = (v: unknown) => ({ key: 'codes', value: v, sourceType: 'file' as const, source: '/test/mappings/codes.json' });
+      mockUserProvider.loadStaticJsonValuesWithRaw
+        .mockResolvedValueOnce({ values: new Map([['codes', value({ a: 1 })]]), rawByKey: new Map([['codes', '{"a":1}']]) })
+        .mockResolvedValueOnce({ values: new Map([['codes', value({ a: 1 })]]), rawByKey: new Map([['codes', '{"a":1}']]) })
+        .mockResolvedValueOnce({ values: new Map([['codes', value({ a: 2 })]]), rawByKey: new Map([['codes', '{"a":2}']]) })
+        .mockResolvedValueOnce({ values: new Map(), rawByKey: new Map() });
+
+      await provider.initialize();
+      provider.stopAutomaticChangeTracking();
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0]).toMatchObject({ key: 'codes', trigger: 'initialize', after: { value: { a: 1 } } });
+
+      await provider.reloadStaticJsonValues();
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      await provider.reloadStaticJsonValues();
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(handler.mock.calls[1][0]).toMatchObject({
+        trigger: 'manual',
+        before: { value: { a: 1 } },
+        after: { value: { a: 2 } }
+      });
+
+      await provider.reloadStaticJsonValues();
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(handler.mock.calls[2][0]).toMatchObject({ key: 'codes', before: { value: { a: 2 } } });
+      expect(handler.mock.calls[2][0].after).toBeUndefined();
+    });
+
+    it('should emit aliasesChanged with before/after snapshots only on real change', async () => {
+      const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+      await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ myAlias: 'one' }), 'utf-8');
+
+      const provider = new FumeMappingProvider({
+        mappingsFolder: folder,
+        filePollingIntervalMs: 0,
+        serverPollingIntervalMs: 0,
+        forcedResyncIntervalMs: 0
+      });
+
+      const handler = jest.fn();
+      provider.on('aliasesChanged', handler);
+
+      await provider.initialize();
+      provider.stopAutomaticChangeTracking();
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].trigger).toBe('initialize');
+      expect(handler.mock.calls[0][0].before.myAlias).toBeUndefined();
+      expect(handler.mock.calls[0][0].after.myAlias.value).toBe('one');
+
+      await provider.reloadAliases();
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ myAlias: 'two' }), 'utf-8');
+      await provider.reloadAliases();
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(handler.mock.calls[1][0]).toMatchObject({
+        trigger: 'manual',
+        before: { myAlias: { value: 'one', sourceType: 'file' } },
+        after: { myAlias: { value: 'two', sourceType: 'file' } }
+      });
+    });
+
+    it('should report filePoll as trigger for changes detected by file polling', async () => {
+      const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+      await fs.writeFile(path.join(folder, 'map1.fume'), 'v1', 'utf-8');
+      await fs.writeFile(path.join(folder, 'codes.json'), '{"a":1}', 'utf-8');
+
+      mockUserProvider.loadMappings.mockResolvedValue(new Map([['map1', fileMapping('map1', 'v1')]]));
+      mockUserProvider.loadStaticJsonValuesWithRaw.mockResolvedValue({
+        values: new Map([['codes', { key: 'codes', value: { a: 1 }, sourceType: 'file' as const, source: path.join(folder, 'codes.json') }]]),
+        rawByKey: new Map([['codes', '{"a":1}']])
+      });
+      mockUserProvider.readStaticJsonValueRaw.mockImplementation(
+        async (key: string) => fs.readFile(path.join(folder, `${key}.json`), 'utf-8')
+      );
+      mockUserProvider.listSourceFiles.mockResolvedValue([
+        { key: 'map1', kind: 'mapping', filePath: path.join(folder, 'map1.fume'), relativePath: 'map1.fume' },
+        { key: 'codes', kind: 'staticJson', filePath: path.join(folder, 'codes.json'), relativePath: 'codes.json' }
+      ]);
+
+      const provider = new FumeMappingProvider({
+        mappingsFolder: folder,
+        filePollingIntervalMs: 0,
+        serverPollingIntervalMs: 0,
+        forcedResyncIntervalMs: 0
+      });
+      await provider.initialize();
+      provider.stopAutomaticChangeTracking();
+
+      const mappingHandler = jest.fn();
+      const jsonHandler = jest.fn();
+      provider.on('mappingUpdated', mappingHandler);
+      provider.on('staticJsonValueChanged', jsonHandler);
+
+      await fs.writeFile(path.join(folder, 'map1.fume'), 'v2-longer', 'utf-8');
+      await fs.writeFile(path.join(folder, 'codes.json'), '{"a":22}', 'utf-8');
+      mockUserProvider.loadFileMapping.mockResolvedValue(fileMapping('map1', 'v2-longer'));
+      mockUserProvider.loadStaticJsonValue.mockResolvedValue({
+        key: 'codes',
+        value: { a: 22 },
+        sourceType: 'file',
+        source: path.join(folder, 'codes.json')
+      });
+
+      await (provider as unknown as { pollFileMappings(): Promise<void> }).pollFileMappings();
+
+      expect(mappingHandler).toHaveBeenCalledWith(expect.objectContaining({ key: 'map1', trigger: 'filePoll' }));
+      expect(jsonHandler).toHaveBeenCalledWith(expect.objectContaining({ key: 'codes', trigger: 'filePoll' }));
+      expect(provider.getStaticJsonValue('codes')?.value).toEqual({ a: 22 });
+    });
+  });
+
   describe('Converters', () => {
     it('should call structureMapToExpression', () => {
       const provider = new FumeMappingProvider({});
@@ -0,0 +1,146 @@
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import { aliasObjectToConceptMap } from '../../src/converters';
+import type { ValidationReportEvent } from '../../src/types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FumeMappingProvider.validate', () => {
+  const createTempFolder = async () => fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+
+  const fumeStructureMap = (id: string, expression: string) => ({
+    resourceType: 'StructureMap',
+    id,
+    group: [
+      {
+        rule: [
+          {
+            extension: [
+              {
+                url: 'http://fhir.fume.health/StructureDefinition/mapping-expression',
+                valueExpression: { expression }
+              }
+            ]
+          }
+        ]
+      }
+    ]
+  });
+
+  const createProvider = (config: Partial<ConstructorParameters<typeof FumeMappingProvider>[0]>) =>
+    new FumeMappingProvider({
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0,
+      logger: { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+      ...config
+    });
+
+  it('should report references to missing mappings, aliases and static JSON values', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'patient.fume'), '$address(x) & $mrn & $codes & $gone & $string(1) & $loinc');
+    await fs.writeFile(path.join(folder, 'address.fume'), '($local := 1; $local & $customFn() & $missingJson)');
+    await fs.writeFile(path.join(folder, 'codes.json'), '[]');
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ mrn: 'http://mrn' }));
+
+    const provider = createProvider({ mappingsFolder: folder, validation: { ignoreReferences: ['customFn'] } });
+    await provider.initialize();
+
+    const report = provider.validate();
+    expect(report.valid).toBe(false);
+    expect(report.missingReferences).toHaveLength(2);
+    expect(report.missingReferences).toEqual(expect.arrayContaining([
+      { mappingKey: 'address', mappingSource: path.resolve(folder, 'address.fume'), name: 'missingJson' },
+      { mappingKey: 'patient', mappingSource: path.resolve(folder, 'patient.fume'), name: 'gone' }
+    ]));
+
+    expect(provider.validate({ ignoreReferences: ['gone', 'missingJson'] }).valid).toBe(true);
+  });
+
+  it('should report file-over-server, layered folder and alias precedence shadowing', async () => {
+    const base = await createTempFolder();
+    const tenant = await createTempFolder();
+    await fs.writeFile(path.join(base, 'shared.fume'), 'base');
+    await fs.writeFile(path.join(tenant, 'shared.fume'), 'tenant');
+    await fs.writeFile(path.join(base, 'aliases.json'), JSON.stringify({ mrn: 'base', loinc: 'base-loinc' }));
+    await fs.writeFile(path.join(tenant, 'aliases.json'), JSON.stringify({ mrn: 'tenant' }));
+
+    const fhirClient = {
+      getBaseUrl: () => 'http://server.test',
+      search: async (resourceType: string) => (resourceType === 'StructureMap' ? [fumeStructureMap('shared', 'server')] : []),
+      read: async () => ({ ...aliasObjectToConceptMap({ mrn: 'server' }, 'http://example.com'), id: 'cm1' })
+    };
+
+    const provider = createProvider({ mappingsFolder: [base, tenant], fhirClient: fhirClient as never, aliasConceptMapId: 'cm1' });
+    await provider.initialize();
+
+    const { shadowedKeys } = provider.validate();
+    expect(shadowedKeys).toEqual(expect.arrayContaining([
+      {
+        type: 'mapping',
+        key: 'shared',
+        source: path.resolve(tenant, 'shared.fume'),
+        shadowedSources: [path.resolve(base, 'shared.fume'), 'http://server.test/StructureMap/shared']
+      },
+      {
+        type: 'alias',
+        key: 'mrn',
+        source: path.resolve(tenant, 'aliases.json'),
+        shadowedSources: [path.resolve(base, 'aliases.json'), 'http://server.test/ConceptMap/cm1']
+      },
+      {
+        type: 'alias',
+        key: 'loinc',
+        source: path.resolve(base, 'aliases.json'),
+        shadowedSources: ['builtIn']
+      }
+    ]));
+
+    // Once the overriding file is gone, its shadowing entry is no longer reported
+    await fs.unlink(path.join(tenant, 'shared.fume'));
+    await provider.refreshUserMapping('shared');
+    expect(provider.validate().shadowedKeys.find(e => e.type === 'mapping')).toBeUndefined();
+  });
+
+  it('should report invalid keys skipped during load', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'bad_name.fume'), 'x');
+    await fs.writeFile(path.join(folder, 'bad-value.json'), '1');
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ 'bad-alias': 'x', ok: 'y' }));
+
+    const provider = createProvider({ mappingsFolder: folder });
+    await provider.initialize();
+
+    const { invalidKeys } = provider.validate();
+    expect(invalidKeys.map(k => [k.type, k.key, k.source])).toEqual([
+      ['mapping', 'bad_name', path.resolve(folder, 'bad_name.fume')],
+      ['staticJson', 'bad-value', path.resolve(folder, 'bad-value.json')],
+      ['alias', 'bad-alias', path.resolve(folder, 'aliases.json')]
+    ]);
+  });
+
+  it('should emit validationReport after poll cycles only when the report changes', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'codes.json'), '[]');
+    await fs.writeFile(path.join(folder, 'm.fume'), '$codes');
+
+    const provider = createProvider({ mappingsFolder: folder, validation: { afterPoll: true } });
+    const events: ValidationReportEvent[] = [];
+    provider.on('validationReport', e => events.push(e));
+    await provider.initialize();
+
+    expect(events.map(e => [e.trigger, e.report.valid])).toEqual([['initialize', true]]);
+
+    const poll = () => (provider as unknown as { pollFileMappings(): Promise<void> }).pollFileMappings();
+    await poll();
+    expect(events).toHaveLength(1);
+
+    await fs.unlink(path.join(folder, 'codes.json'));
+    await poll();
+    expect(events).toHaveLength(2);
+    expect(events[1].trigger).toBe('filePoll');
+    expect(events[1].report.missingReferences).toEqual([
+      { mappingKey: 'm', mappingSource: path.resolve(folder, 'm.fume'), name: 'codes' }
+    ]);
+  });
+});
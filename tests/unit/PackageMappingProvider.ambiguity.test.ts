@@ -0,0 +1,86 @@
+import { PackageMappingProvider } from '../../src/providers';
+import { AmbiguousPackageMappingError } from '../../src/errors';
+import type { StructureMap } from '../../src/types';
+
+describe('PackageMappingProvider ambiguity', () => {
+  const structureMap = (id: string, packageId: string, fields: Partial<StructureMap> = {}): StructureMap => ({
+    resourceType: 'StructureMap',
+    id,
+    __packageId: packageId,
+    __packageVersion: '1.0.0',
+    __filename: `StructureMap-${id}.json`,
+    group: [
+      {
+        rule: [
+          {
+            extension: [
+              {
+                url: 'http://fhir.fume.health/StructureDefinition/mapping-expression',
+                valueExpression: { expression: `${packageId}:${id}` }
+              }
+            ]
+          }
+        ]
+      }
+    ],
+    ...fields
+  } as StructureMap);
+
+  const resources = [
+    structureMap('patient', 'pkg.a', { name: 'PatientMap', url: 'http://a/patient' }),
+    structureMap('patient', 'pkg.b', { name: 'PatientMap', url: 'http://b/patient' }),
+    structureMap('encounter', 'pkg.a', { name: 'EncounterMap', url: 'http://a/encounter' })
+  ];
+
+  const lookup = async (filter: Record<string, unknown>) =>
+    resources.filter(r =>
+      Object.entries(filter).every(([field, value]) =>
+        field === 'resourceType' || (r as Record<string, unknown>)[field] === value
+      )
+    );
+  const explorer = {
+    lookup: jest.fn(lookup),
+    resolve: jest.fn(async (filter: Record<string, unknown>) => {
+      const matches = await lookup(filter);
+      if (matches.length !== 1) {
+        throw new Error('No single match');
+      }
+      return matches[0];
+    })
+  };
+
+  it('should list every candidate with package id, version and filename', async () => {
+    const provider = new PackageMappingProvider(explorer);
+
+    expect(await provider.resolveCandidates('PatientMap')).toEqual([
+      { id: 'patient', packageId: 'pkg.a', packageVersion: '1.0.0', filename: 'StructureMap-patient.json', name: 'PatientMap', url: 'http://a/patient', matchedBy: 'name' },
+      { id: 'patient', packageId: 'pkg.b', packageVersion: '1.0.0', filename: 'StructureMap-patient.json', name: 'PatientMap', url: 'http://b/patient', matchedBy: 'name' }
+    ]);
+    expect((await provider.resolveCandidates('http://a/encounter')).map(c => c.matchedBy)).toEqual(['url']);
+    expect(await provider.resolveCandidates('missing')).toEqual([]);
+  });
+
+  it('should keep picking the first name match outside strict mode', async () => {
+    const provider = new PackageMappingProvider(explorer);
+    expect((await provider.getMapping('PatientMap'))?.packageId).toBe('pkg.a');
+    // A duplicate id is skipped silently
+    expect((await provider.getMapping('patient'))).toBeNull();
+  });
+
+  it.each([false, true])('should throw a typed error listing candidates in strict mode (index: %s)', async index => {
+    const provider = new PackageMappingProvider(explorer, undefined, { index, strict: true });
+
+    const error = await provider.getMapping('patient').catch(e => e);
+    expect(error).toBeInstanceOf(AmbiguousPackageMappingError);
+    expect(error.matchedBy).toBe('id');
+    expect(error.candidates.map((c: { packageId: string }) => c.packageId)).toEqual(['pkg.a', 'pkg.b']);
+    expect(error.message).toContain('pkg.a@1.0.0/StructureMap-patient.json, pkg.b@1.0.0/StructureMap-patient.json');
+
+    await expect(provider.getMapping('PatientMap')).rejects.toThrow(AmbiguousPackageMappingError);
+    expect((await provider.getMapping('http://b/patient'))?.packageId).toBe('pkg.b');
+    expect((await provider.getMapping('EncounterMap'))?.id).toBe('encounter');
+
+    // Per-call override
+    expect((await provider.getMapping('PatientMap', { strict: false }))?.packageId).toBe('pkg.a');
+  });
+});
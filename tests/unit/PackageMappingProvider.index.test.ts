@@ -0,0 +1,107 @@
+import { PackageMappingProvider } from '../../src/providers';
+import type { StructureMap } from '../../src/types';
+
+describe('PackageMappingProvider index', () => {
+  const structureMap = (fields: Partial<StructureMap> & { expression?: string }): StructureMap => {
+    const { expression, ...rest } = fields;
+    return {
+      resourceType: 'StructureMap',
+      id: 'id',
+      __packageId: 'pkg.a',
+      __packageVersion: '1.0.0',
+      __filename: `StructureMap-${fields.id}.json`,
+      group: [
+        {
+          rule: expression === undefined ? [] : [
+            {
+              extension: [
+                {
+                  url: 'http://fhir.fume.health/StructureDefinition/mapping-expression',
+                  valueExpression: { expression }
+                }
+              ]
+            }
+          ]
+        }
+      ],
+      ...rest
+    } as StructureMap;
+  };
+
+  /**
+   * In-memory stand-in for FhirPackageExplorer: lookup filters by fields, resolve prefers pkg.root on duplicates
+   */
+  const createExplorer = (resources: StructureMap[]) => {
+    const context = [{ id: 'pkg.a', version: '1.0.0' }];
+    const lookup = jest.fn(async (filter: Record<string, unknown>) =>
+      resources.filter(r =>
+        Object.entries(filter).every(([field, value]) =>
+          field === 'resourceType' || (field === 'package' ? r.__packageId === value : (r as Record<string, unknown>)[field] === value)
+        )
+      )
+    );
+    const resolve = jest.fn(async (filter: Record<string, unknown>) => {
+      const matches = await lookup(filter);
+      const candidates = matches.length > 1 ? matches.filter(m => m.__packageId === 'pkg.root') : matches;
+      if (candidates.length !== 1) {
+        throw new Error('No single match');
+      }
+      return candidates[0];
+    });
+    return { lookup, resolve, getContextPackages: () => context, context };
+  };
+
+  const resources = [
+    structureMap({ id: 'a', url: 'http://x/a', name: 'shared', expression: 'A' }),
+    structureMap({ id: 'b', url: 'http://x/b', name: 'shared', expression: 'B' }),
+    structureMap({ id: 'http://x/a', url: 'http://x/c', name: 'C', expression: 'C' }),
+    structureMap({ id: 'notFume', url: 'http://x/nf', name: 'nf' }),
+    structureMap({ id: 'dup', url: 'http://x/dup', expression: 'dup-a' }),
+    structureMap({ id: 'dup', url: 'http://x/dup', expression: 'dup-root', __packageId: 'pkg.root' })
+  ];
+
+  it('should resolve identifiers in the same url, id, name order as the explorer', async () => {
+    const direct = new PackageMappingProvider(createExplorer(resources));
+    const indexedExplorer = createExplorer(resources);
+    const indexed = new PackageMappingProvider(indexedExplorer, undefined, { index: true });
+
+    for (const identifier of ['http://x/a', 'a', 'shared', 'C', 'notFume', 'nf', 'dup', 'http://x/dup', 'missing']) {
+      expect(await indexed.getMapping(identifier)).toEqual(await direct.getMapping(identifier));
+    }
+    expect(await indexed.loadMappings()).toEqual(await direct.loadMappings());
+
+    // One lookup builds the index; only ambiguous url/id matches go back to the explorer
+    expect(indexedExplorer.lookup.mock.calls.filter(([filter]) => !('url' in filter) && !('id' in filter))).toHaveLength(1);
+    expect((await indexed.getMapping('dup'))?.expression).toBe('dup-root');
+  });
+
+  it('should keep a separate index per package context', async () => {
+    const explorer = createExplorer(resources);
+    const provider = new PackageMappingProvider(explorer, undefined, { index: true });
+
+    expect(await provider.getMapping('dup', { packageContext: 'pkg.a' })).toMatchObject({ expression: 'dup-a' });
+    expect((await provider.loadMappings({ packageContext: 'pkg.root' })).map(m => m.expression)).toEqual(['dup-root']);
+    expect(await provider.getMapping('a', { packageContext: 'pkg.root' })).toBeNull();
+
+    await provider.getMapping('a', { packageContext: 'pkg.a' });
+    expect(explorer.lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('should rebuild the index when the explorer context changes', async () => {
+    const pool = [...resources];
+    const explorer = createExplorer(pool);
+    const provider = new PackageMappingProvider(explorer, undefined, { index: true });
+    await provider.buildIndex();
+
+    // Same context: the index is reused
+    pool.push(structureMap({ id: 'late', expression: 'L' }));
+    expect(await provider.getMapping('late')).toBeNull();
+
+    explorer.context.push({ id: 'pkg.b', version: '1.0.0' });
+    expect(await provider.getMapping('late')).toMatchObject({ id: 'late', expression: 'L' });
+
+    pool.pop();
+    provider.invalidateIndex();
+    expect(await provider.getMapping('late')).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import { UserMappingProvider } from '../../src/providers';
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { Logger } from '@outburn/types';
+
+describe('UserMappingProvider layered mappings folders', () => {
+  const createTempFolder = async () => fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+
+  const fumeStructureMap = (id: string, expression: string) => ({
+    resourceType: 'StructureMap',
+    id,
+    group: [
+      {
+        rule: [
+          {
+            extension: [
+              {
+                url: 'http://fhir.fume.health/StructureDefinition/mapping-expression',
+                valueExpression: { expression }
+              }
+            ]
+          }
+        ]
+      }
+    ]
+  });
+
+  it('should let later folders override earlier ones key-by-key', async () => {
+    const base = await createTempFolder();
+    const tenant = await createTempFolder();
+    await fs.writeFile(path.join(base, 'shared.fume'), 'base-shared');
+    await fs.writeFile(path.join(base, 'baseOnly.fume'), 'base-only');
+    await fs.writeFile(path.join(tenant, 'shared.fume'), 'tenant-shared');
+
+    const provider = new UserMappingProvider([base, tenant], undefined, undefined, '.fume');
+    const mappings = await provider.loadMappings();
+
+    expect(mappings.get('shared')?.expression).toBe('tenant-shared');
+    expect(mappings.get('shared')?.source).toBe(path.resolve(tenant, 'shared.fume'));
+    expect(mappings.get('baseOnly')?.source).toBe(path.resolve(base, 'baseOnly.fume'));
+  });
+
+  it('should honor a file extension per folder', async () => {
+    const base = await createTempFolder();
+    const tenant = await createTempFolder();
+    await fs.writeFile(path.join(base, 'a.fume'), 'a');
+    await fs.writeFile(path.join(base, 'b.txt'), 'ignored');
+    await fs.writeFile(path.join(tenant, 'b.txt'), 'b');
+
+    const provider = new UserMappingProvider(
+      [base, { path: tenant, fileExtension: 'TXT' }],
+      undefined,
+      undefined,
+      '.fume'
+    );
+    const mappings = await provider.loadMappings();
+
+    expect(Array.from(mappings.keys()).sort()).toEqual(['a', 'b']);
+    expect(mappings.get('b')?.source).toBe(path.resolve(tenant, 'b.txt'));
+    expect(() => new UserMappingProvider([{ path: tenant, fileExtension: '.json' }], undefined)).toThrow(/reserved/);
+  });
+
+  it('should report the full shadowing chain including the server mapping', async () => {
+    const base = await createTempFolder();
+    const tenant = await createTempFolder();
+    await fs.writeFile(path.join(base, 'shared.fume'), 'base');
+    await fs.writeFile(path.join(tenant, 'shared.fume'), 'tenant');
+
+    const fhirClient = {
+      getBaseUrl: () => 'http://test.com',
+      search: async () => [fumeStructureMap('shared', 'server')]
+    };
+
+    const warn = jest.fn();
+    const provider = new UserMappingProvider(
+      [{ path: base, label: 'base' }, { path: tenant, label: 'tenant' }],
+      fhirClient,
+      { warn, debug: jest.fn() } as unknown as Logger
+    );
+    const mappings = await provider.loadMappings();
+
+    expect(mappings.get('shared')?.expression).toBe('tenant');
+    expect(warn).toHaveBeenCalledWith(
+      `File mapping 'shared' from 'tenant' (${path.resolve(tenant, 'shared.fume')}) overrides mapping(s) with same key: ` +
+        `'base' (${path.resolve(base, 'shared.fume')}) > server (http://test.com/StructureMap/shared)`
+    );
+  });
+
+  it('should fall back to a lower folder when the overriding file disappears', async () => {
+    const base = await createTempFolder();
+    const tenant = await createTempFolder();
+    await fs.writeFile(path.join(base, 'shared.fume'), 'base');
+    await fs.writeFile(path.join(tenant, 'shared.fume'), 'tenant');
+    await fs.writeFile(path.join(base, 'codes.json'), '"base"');
+    await fs.writeFile(path.join(tenant, 'codes.json'), '"tenant"');
+
+    const provider = new UserMappingProvider([base, tenant], undefined);
+
+    expect((await provider.loadFileMapping('shared'))?.expression).toBe('tenant');
+    expect((await provider.loadStaticJsonValue('codes'))?.value).toBe('tenant');
+    expect((await provider.loadStaticJsonValues()).get('codes')?.source).toBe(path.resolve(tenant, 'codes.json'));
+
+    await fs.unlink(path.join(tenant, 'shared.fume'));
+    await fs.unlink(path.join(tenant, 'codes.json'));
+
+    expect((await provider.loadFileMapping('shared'))?.source).toBe(path.resolve(base, 'shared.fume'));
+    expect(await provider.readStaticJsonValueRaw('codes')).toBe('"base"');
+  });
+
+  it('should list only winning files for change tracking', async () => {
+    const base = await createTempFolder();
+    const tenant = await createTempFolder();
+    await fs.writeFile(path.join(base, 'aliases.json'), '{}');
+    await fs.writeFile(path.join(tenant, 'aliases.json'), '{}');
+    await fs.writeFile(path.join(base, 'shared.fume'), 'base');
+    await fs.writeFile(path.join(tenant, 'shared.fume'), 'tenant');
+
+    const provider = new UserMappingProvider([base, tenant, path.join(base, 'missing')], undefined);
+    const files = await provider.listSourceFiles();
+
+    expect(files.map(f => [f.kind, f.filePath])).toEqual([
+      ['aliases', path.resolve(base, 'aliases.json')],
+      ['aliases', path.resolve(tenant, 'aliases.json')],
+      ['mapping', path.resolve(tenant, 'shared.fume')]
+    ]);
+  });
+
+  it('should merge aliases.json across folders with per-alias source', async () => {
+    const base = await createTempFolder();
+    const tenant = await createTempFolder();
+    await fs.writeFile(path.join(base, 'aliases.json'), JSON.stringify({ shared: 'base', baseOnly: 'b' }));
+    await fs.writeFile(path.join(tenant, 'aliases.json'), JSON.stringify({ shared: 'tenant' }));
+
+    const provider = new FumeMappingProvider({
+      mappingsFolder: [base, { path: tenant, label: 'tenant' }],
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+
+    const aliases = provider.getAliasesWithMetadata();
+    expect(aliases.shared).toEqual({ value: 'tenant', sourceType: 'file', source: path.resolve(tenant, 'aliases.json') });
+    expect(aliases.baseOnly).toEqual({ value: 'b', sourceType: 'file', source: path.resolve(base, 'aliases.json') });
+  });
+
+  it('should reveal the base mapping when the overlay file is deleted during polling', async () => {
+    const base = await createTempFolder();
+    const tenant = await createTempFolder();
+    await fs.writeFile(path.join(base, 'shared.fume'), 'base');
+    await fs.writeFile(path.join(tenant, 'shared.fume'), 'tenant');
+
+    const provider = new FumeMappingProvider({
+      mappingsFolder: [base, tenant],
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+    expect(provider.getUserMapping('shared')?.expression).toBe('tenant');
+
+    await fs.unlink(path.join(tenant, 'shared.fume'));
+    await (provider as unknown as { pollFileMappings(): Promise<void> }).pollFileMappings();
+
+    expect(provider.getUserMapping('shared')?.expression).toBe('base');
+    expect(provider.getUserMapping('shared')?.source).toBe(path.resolve(base, 'shared.fume'));
+  });
+
+  it('should reject the reserved .json extension on a folder entry', () => {
+    expect(() => new FumeMappingProvider({
+      mappingsFolder: ['/x', { path: '/y', fileExtension: 'json' }],
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    })).toThrow(/fileExtension.*\.json.*reserved/i);
+  });
+});
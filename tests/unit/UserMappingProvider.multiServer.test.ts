@@ -0,0 +1,205 @@
+import { UserMappingProvider } from '../../src/providers';
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import { aliasObjectToConceptMap } from '../../src/converters';
+import type { ConceptMap, StructureMap } from '../../src/types';
+import type { Logger } from '@outburn/types';
+
+describe('UserMappingProvider multiple FHIR servers', () => {
+  const fumeStructureMap = (id: string, expression: string, versionId = '1'): StructureMap => ({
+    resourceType: 'StructureMap',
+    id,
+    meta: { versionId },
+    group: [
+      {
+        rule: [
+          {
+            extension: [
+              {
+                url: 'http://fhir.fume.health/StructureDefinition/mapping-expression',
+                valueExpression: { expression }
+              }
+            ]
+          }
+        ]
+      }
+    ]
+  } as unknown as StructureMap);
+
+  // Minimal in-memory FHIR client
+  const createFhirClient = (baseUrl: string) => {
+    const structureMaps = new Map<string, StructureMap>();
+    const conceptMaps = new Map<string, ConceptMap>();
+    return {
+      structureMaps,
+      conceptMaps,
+      getBaseUrl: () => baseUrl,
+      search: jest.fn(async (resourceType: string) =>
+        resourceType === 'StructureMap' ? Array.from(structureMaps.values()) : []
+      ),
+      read: jest.fn(async (resourceType: string, id: string) =>
+        (resourceType === 'StructureMap' ? structureMaps.get(id) : conceptMaps.get(id)) ?? null
+      ),
+      conditionalRead: jest.fn(async (resourceType: string, id: string, condition: { versionId?: string }) => {
+        const resource = resourceType === 'StructureMap' ? structureMaps.get(id) : conceptMaps.get(id);
+        if (!resource) {
+          return { status: 404 };
+        }
+        if (condition.versionId && condition.versionId === resource.meta?.versionId) {
+          return { status: 304 };
+        }
+        return { status: 200, resource };
+      })
+    };
+  };
+
+  it('should let higher-precedence servers override lower ones and report the winning server', async () => {
+    const central = createFhirClient('http://central.test/fhir/');
+    const site = createFhirClient('http://site.test/fhir');
+    central.structureMaps.set('shared', fumeStructureMap('shared', 'central'));
+    central.structureMaps.set('centralOnly', fumeStructureMap('centralOnly', 'c'));
+    site.structureMaps.set('shared', fumeStructureMap('shared', 'site'));
+
+    const warn = jest.fn();
+    const provider = new UserMappingProvider(
+      undefined,
+      [{ fhirClient: central, label: 'central' }, { fhirClient: site, label: 'site' }],
+      { warn, debug: jest.fn() } as unknown as Logger
+    );
+    const mappings = await provider.loadMappings();
+
+    expect(mappings.get('shared')).toMatchObject({
+      expression: 'site',
+      source: 'http://site.test/fhir/StructureMap/shared',
+      server: 'site'
+    });
+    expect(mappings.get('centralOnly')?.source).toBe('http://central.test/fhir/StructureMap/centralOnly');
+    expect(warn).toHaveBeenCalledWith(
+      "Server mapping 'shared' from 'site' overrides server mapping from 'central' with same key"
+    );
+  });
+
+  it('should order servers by precedence rank rather than list position', async () => {
+    const central = createFhirClient('http://central.test');
+    const site = createFhirClient('http://site.test');
+    central.structureMaps.set('shared', fumeStructureMap('shared', 'central'));
+    site.structureMaps.set('shared', fumeStructureMap('shared', 'site'));
+
+    const provider = new UserMappingProvider(undefined, [
+      { fhirClient: central, precedence: 10 },
+      { fhirClient: site, precedence: 1 }
+    ]);
+
+    expect(provider.getServerLabels()).toEqual(['http://site.test', 'http://central.test']);
+    expect((await provider.loadMappings()).get('shared')?.server).toBe('http://central.test');
+    expect((await provider.refreshMapping('shared'))?.expression).toBe('central');
+  });
+
+  it('should reject duplicate server labels', () => {
+    const client = createFhirClient('http://same.test');
+    expect(() => new FumeMappingProvider({
+      fhirClient: client as never,
+      fhirServers: [{ fhirClient: client as never }],
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    })).toThrow(/Duplicate FHIR server label 'http:\/\/same.test'/);
+  });
+
+  it('should merge aliases from all servers with per-server alias ConceptMap ids', async () => {
+    const central = createFhirClient('http://central.test');
+    const site = createFhirClient('http://site.test');
+    central.conceptMaps.set('central-aliases', { ...aliasObjectToConceptMap({ shared: 'c', centralOnly: 'c' }, 'http://example.com'), id: 'central-aliases' });
+    site.conceptMaps.set('site-aliases', { ...aliasObjectToConceptMap({ shared: 's' }, 'http://example.com'), id: 'site-aliases' });
+
+    const provider = new FumeMappingProvider({
+      fhirClient: central as never,
+      aliasConceptMapId: 'central-aliases',
+      fhirServers: [{ fhirClient: site as never, label: 'site', aliasConceptMapId: 'site-aliases' }],
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+
+    expect(provider.getFhirServerLabels()).toEqual(['http://central.test', 'site']);
+    expect(provider.getAliasesWithMetadata().shared).toEqual({
+      value: 's',
+      sourceType: 'server',
+      source: 'http://site.test/ConceptMap/site-aliases'
+    });
+    expect(provider.getAliasesWithMetadata().centralOnly.source).toBe('http://central.test/ConceptMap/central-aliases');
+    expect(provider.getAliasResourceId()).toBe('site-aliases');
+    expect(provider.getAliasResourceId('http://central.test')).toBe('central-aliases');
+  });
+
+  it('should track conditional-read metadata per server and fall back when the winner disappears', async () => {
+    const central = createFhirClient('http://central.test');
+    const site = createFhirClient('http://site.test');
+    central.structureMaps.set('shared', fumeStructureMap('shared', 'central'));
+    site.structureMaps.set('shared', fumeStructureMap('shared', 'site'));
+
+    const provider = new FumeMappingProvider({
+      fhirServers: [{ fhirClient: central as never, label: 'central' }, { fhirClient: site as never, label: 'site' }],
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+
+    expect((await provider.refreshUserMapping('shared'))?.server).toBe('site');
+    site.conditionalRead.mockClear();
+
+    // Unchanged on the winning server -> 304 with that server's versionId
+    expect((await provider.refreshUserMapping('shared'))?.expression).toBe('site');
+    expect(site.conditionalRead).toHaveBeenCalledWith('StructureMap', 'shared', { versionId: '1' }, { noCache: true });
+
+    site.structureMaps.delete('shared');
+    const fallback = await provider.refreshUserMapping('shared');
+    expect(fallback?.server).toBe('central');
+    expect(provider.getUserMapping('shared')?.source).toBe('http://central.test/StructureMap/shared');
+
+    central.structureMaps.delete('shared');
+    expect(await provider.refreshUserMapping('shared')).toBeNull();
+    expect(provider.getUserMapping('shared')).toBeUndefined();
+  });
+
+  it('should poll each server on its own interval without overriding higher-precedence mappings', async () => {
+    jest.useFakeTimers();
+    try {
+      const central = createFhirClient('http://central.test');
+      const site = createFhirClient('http://site.test');
+      central.structureMaps.set('shared', fumeStructureMap('shared', 'central'));
+      site.structureMaps.set('shared', fumeStructureMap('shared', 'site'));
+
+      const provider = new FumeMappingProvider({
+        fhirServers: [
+          { fhirClient: central as never, label: 'central', pollingIntervalMs: 1000 },
+          { fhirClient: site as never, label: 'site', pollingIntervalMs: 0 }
+        ],
+        filePollingIntervalMs: 0,
+        serverPollingIntervalMs: 60000,
+        forcedResyncIntervalMs: 0
+      });
+      await provider.initialize();
+      central.search.mockClear();
+      site.search.mockClear();
+
+      central.structureMaps.set('shared', fumeStructureMap('shared', 'central-v2', '2'));
+      central.structureMaps.set('newOne', fumeStructureMap('newOne', 'n'));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(central.search).toHaveBeenCalledWith(
+        'StructureMap',
+        { _lastUpdated: expect.stringMatching(/^ge/) },
+        { fetchAll: true, noCache: true }
+      );
+      expect(site.search).not.toHaveBeenCalled();
+      expect(provider.getUserMapping('shared')?.expression).toBe('site');
+      expect(provider.getUserMapping('newOne')?.server).toBe('central');
+
+      provider.stopAutomaticChangeTracking();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,216 @@
+import { UserMappingProvider } from '../../src/providers';
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { Logger } from '@outburn/types';
+
+describe('UserMappingProvider recursive mappings folder', () => {
+  const createTempFolder = async () => fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+
+  const writeFile = async (folder: string, relativePath: string, content: string) => {
+    const filePath = path.join(folder, ...relativePath.split('/'));
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf-8');
+    return filePath;
+  };
+
+  const fumeStructureMap = (id: string, expression: string) => ({
+    resourceType: 'StructureMap',
+    id,
+    group: [
+      {
+        rule: [
+          {
+            extension: [
+              {
+                url: 'http://fhir.fume.health/StructureDefinition/mapping-expression',
+                valueExpression: { expression }
+              }
+            ]
+          }
+        ]
+      }
+    ]
+  });
+
+  it('should ignore subfolders when recursive mode is off', async () => {
+    const folder = await createTempFolder();
+    await writeFile(folder, 'top.fume', 'top');
+    await writeFile(folder, 'lab/nested.fume', 'nested');
+    await writeFile(folder, 'lab/codes.json', '[]');
+
+    const provider = new UserMappingProvider(folder, undefined, undefined, '.fume');
+    const mappings = await provider.loadMappings();
+    const values = await provider.loadStaticJsonValues();
+
+    expect(Array.from(mappings.keys())).toEqual(['top']);
+    expect(values.size).toBe(0);
+  });
+
+  it('should load nested files with camelCase namespaced keys by default', async () => {
+    const folder = await createTempFolder();
+    await writeFile(folder, 'top.fume', 'top');
+    const oruPath = await writeFile(folder, 'lab/hl7v2/oru.fume', 'oru');
+    const codesPath = await writeFile(folder, 'lab/codes.json', '{"a":1}');
+    await writeFile(folder, '.git/ignored.fume', 'hidden');
+
+    const provider = new UserMappingProvider(folder, undefined, undefined, '.fume', { recursive: true });
+    const mappings = await provider.loadMappings();
+    const { values, rawByKey } = await provider.loadStaticJsonValuesWithRaw();
+
+    expect(Array.from(mappings.keys()).sort()).toEqual(['labHl7v2Oru', 'top']);
+    expect(mappings.get('labHl7v2Oru')).toEqual({
+      key: 'labHl7v2Oru',
+      expression: 'oru',
+      sourceType: 'file',
+      source: path.resolve(oruPath)
+    });
+    expect(values.get('labCodes')?.value).toEqual({ a: 1 });
+    expect(values.get('labCodes')?.source).toBe(path.resolve(codesPath));
+    expect(rawByKey.get('labCodes')).toBe('{"a":1}');
+  });
+
+  it('should treat only the top-level aliases.json as reserved aliases file', async () => {
+    const folder = await createTempFolder();
+    await writeFile(folder, 'aliases.json', '{}');
+    await writeFile(folder, 'lab/aliases.json', '{}');
+    await writeFile(folder, 'lab/oru.fume', 'oru');
+
+    const provider = new UserMappingProvider(folder, undefined, undefined, '.fume', { recursive: true });
+    const files = await provider.listSourceFiles();
+    const values = await provider.loadStaticJsonValues();
+
+    expect(files.map(f => [f.kind, f.key, f.relativePath])).toEqual([
+      ['aliases', 'aliases', 'aliases.json'],
+      ['mapping', 'labOru', 'lab/oru.fume']
+    ]);
+    expect(values.size).toBe(0);
+  });
+
+  it('should support basename and custom namespace schemes', async () => {
+    const folder = await createTempFolder();
+    await writeFile(folder, 'lab/hl7v2/oru.fume', 'oru');
+
+    const basename = new UserMappingProvider(folder, undefined, undefined, '.fume', {
+      recursive: true,
+      namespaceScheme: 'basename'
+    });
+    expect(Array.from((await basename.loadMappings()).keys())).toEqual(['oru']);
+
+    const custom = new UserMappingProvider(folder, undefined, undefined, '.fume', {
+      recursive: true,
+      namespaceScheme: segments => segments.map(s => s.toUpperCase()).join('X')
+    });
+    expect(Array.from((await custom.loadMappings()).keys())).toEqual(['LABXHL7V2XORU']);
+  });
+
+  it('should warn+skip namespaced keys that are not valid mapping names', async () => {
+    const folder = await createTempFolder();
+    await writeFile(folder, 'my-lab/oru.fume', 'oru');
+    await writeFile(folder, 'good/oru.fume', 'oru');
+
+    const warn = jest.fn();
+    const provider = new UserMappingProvider(folder, undefined, { warn } as unknown as Logger, '.fume', { recursive: true });
+    const mappings = await provider.loadMappings();
+
+    expect(Array.from(mappings.keys())).toEqual(['goodOru']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Ignoring mapping file 'my-lab/oru.fume'"));
+  });
+
+  it('should let shallower files win when two files resolve to the same key', async () => {
+    const folder = await createTempFolder();
+    await writeFile(folder, 'oru.fume', 'top');
+    await writeFile(folder, 'a/oru.fume', 'a');
+    await writeFile(folder, 'b/oru.fume', 'b');
+
+    const warn = jest.fn();
+    const provider = new UserMappingProvider(folder, undefined, { warn } as unknown as Logger, '.fume', {
+      recursive: true,
+      namespaceScheme: 'basename'
+    });
+    const mappings = await provider.loadMappings();
+
+    expect(mappings.get('oru')?.expression).toBe('top');
+    expect(warn).toHaveBeenCalledWith("Ignoring file 'a/oru.fume': key 'oru' is already provided by 'oru.fume'.");
+    expect(warn).toHaveBeenCalledWith("Ignoring file 'b/oru.fume': key 'oru' is already provided by 'oru.fume'.");
+  });
+
+  it('should let namespaced file mappings override server mappings with the same key', async () => {
+    const folder = await createTempFolder();
+    await writeFile(folder, 'lab/oru.fume', 'from-file');
+
+    const fhirClient = {
+      getBaseUrl: () => 'http://test.com',
+      search: async () => [fumeStructureMap('labOru', 'from-server'), fumeStructureMap('other', 'x')]
+    };
+
+    const warn = jest.fn();
+    const provider = new UserMappingProvider(folder, fhirClient, { warn, debug: jest.fn() } as unknown as Logger, '.fume', {
+      recursive: true
+    });
+    const mappings = await provider.loadMappings();
+
+    expect(mappings.get('labOru')?.sourceType).toBe('file');
+    expect(mappings.get('labOru')?.expression).toBe('from-file');
+    expect(mappings.get('other')?.sourceType).toBe('server');
+    expect(warn).toHaveBeenCalledWith("File mapping 'labOru' overrides server mapping with same key");
+  });
+
+  it('should resolve single nested mappings and static values by key, following moves', async () => {
+    const folder = await createTempFolder();
+    await writeFile(folder, 'lab/oru.fume', 'v1');
+    await writeFile(folder, 'lab/codes.json', '[1]');
+
+    const provider = new UserMappingProvider(folder, undefined, undefined, '.fume', {
+      recursive: true,
+      namespaceScheme: 'basename'
+    });
+    await provider.loadMappings();
+
+    expect((await provider.loadFileMapping('oru'))?.expression).toBe('v1');
+    expect((await provider.loadStaticJsonValue('codes'))?.value).toEqual([1]);
+    expect(await provider.readStaticJsonValueRaw('codes')).toBe('[1]');
+
+    await fs.rm(path.join(folder, 'lab'), { recursive: true });
+    const movedPath = await writeFile(folder, 'micro/oru.fume', 'v2');
+
+    const moved = await provider.loadFileMapping('oru');
+    expect(moved?.expression).toBe('v2');
+    expect(moved?.source).toBe(path.resolve(movedPath));
+    expect(await provider.loadStaticJsonValue('codes')).toBeNull();
+  });
+
+  it('should track nested file changes and deletions during file polling', async () => {
+    const folder = await createTempFolder();
+    await writeFile(folder, 'lab/oru.fume', 'v1');
+
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      recursive: true,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+    expect(provider.getUserMapping('labOru')?.expression).toBe('v1');
+
+    const poll = () => (provider as unknown as { pollFileMappings(): Promise<void> }).pollFileMappings();
+
+    await writeFile(folder, 'lab/oru.fume', 'v2-changed');
+    await writeFile(folder, 'rad/orm.fume', 'orm');
+    await writeFile(folder, 'rad/codes.json', '{"x":1}');
+    await poll();
+
+    expect(provider.getUserMapping('labOru')?.expression).toBe('v2-changed');
+    expect(provider.getUserMapping('radOrm')?.expression).toBe('orm');
+    expect(provider.getStaticJsonValue('radCodes')?.value).toEqual({ x: 1 });
+
+    await fs.rm(path.join(folder, 'rad'), { recursive: true });
+    await poll();
+
+    expect(provider.getUserMapping('radOrm')).toBeUndefined();
+    expect(provider.getStaticJsonValue('radCodes')).toBeUndefined();
+    expect(provider.getUserMappingKeys()).toEqual(['labOru']);
+  });
+});
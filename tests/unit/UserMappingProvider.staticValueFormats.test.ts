@@ -0,0 +1,162 @@
+import { UserMappingProvider } from '../../src/providers';
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import { parseCsv, parseYaml } from '../../src/staticValueFormats';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('UserMappingProvider YAML, NDJSON and CSV static values', () => {
+  const createTempFolder = async () => fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+
+  it('should load YAML, NDJSON and CSV files as static values', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'settings.yaml'), 'system: http://loinc.org\nretries: 3\ncodes:\n  - "001"\n  - 002\n');
+    await fs.writeFile(path.join(folder, 'flags.yml'), '{enabled: true}\n');
+    await fs.writeFile(path.join(folder, 'events.ndjson'), '{"id":1}\n\n{"id":2}\n');
+    await fs.writeFile(path.join(folder, 'genders.csv'), 'code,display\r\nM,"Male"\r\nF,"Female, ""F"""\r\n');
+
+    const provider = new UserMappingProvider(folder, undefined, undefined, '.fume');
+    const values = await provider.loadStaticJsonValues();
+
+    expect(values.get('settings')).toEqual({
+      key: 'settings',
+      value: { system: 'http://loinc.org', retries: 3, codes: ['001', 2] },
+      sourceType: 'file',
+      source: path.resolve(folder, 'settings.yaml')
+    });
+    expect(values.get('flags')?.value).toEqual({ enabled: true });
+    expect(values.get('events')?.value).toEqual([{ id: 1 }, { id: 2 }]);
+    // CSV cells stay strings
+    expect(values.get('genders')?.value).toEqual([
+      { code: 'M', display: 'Male' },
+      { code: 'F', display: 'Female, "F"' }
+    ]);
+    expect(await provider.loadStaticJsonValue('genders')).toEqual(values.get('genders'));
+  });
+
+  it('should resolve a key provided in several formats by extension and report the collision', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'codes.csv'), 'code\nA\n');
+    await fs.writeFile(path.join(folder, 'codes.yaml'), '- B\n');
+    await fs.writeFile(path.join(folder, 'codes.json'), '["C"]');
+    const logger = { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    const provider = new UserMappingProvider(folder, undefined, logger, '.fume');
+    const values = await provider.loadStaticJsonValues();
+
+    expect(values.get('codes')?.value).toEqual(['C']);
+    expect((await provider.loadStaticJsonValue('codes'))?.source).toBe(path.resolve(folder, 'codes.json'));
+    expect(provider.getLoadDiagnostics().shadowedKeys).toEqual(expect.arrayContaining([
+      { type: 'staticJson', key: 'codes', source: path.resolve(folder, 'codes.json'), shadowedSources: [path.resolve(folder, 'codes.yaml')] },
+      { type: 'staticJson', key: 'codes', source: path.resolve(folder, 'codes.json'), shadowedSources: [path.resolve(folder, 'codes.csv')] }
+    ]));
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("key 'codes' is already provided by 'codes.json'"));
+  });
+
+  it('should ignore unparseable files and invalid keys', async () => {
+    const folder = await createTempFolder();
+    await fs.writeFile(path.join(folder, 'broken.yaml'), 'a: 1\n  b: 2\n');
+    await fs.writeFile(path.join(folder, 'ragged.csv'), 'a,b\n1\n');
+    await fs.writeFile(path.join(folder, 'bad-key.yml'), 'x: 1\n');
+    const logger = { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    const provider = new UserMappingProvider(folder, undefined, logger, '.fume');
+    const values = await provider.loadStaticJsonValues();
+
+    expect(values.size).toBe(0);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("Invalid static JSON value file 'broken.yaml'; ignoring. Error: YAML line 2, column 4: bad indentation of a mapping entry"));
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('CSV line 2 has 1 field(s); expected 2'));
+    expect(provider.getLoadDiagnostics().invalidKeys.map(entry => entry.key)).toEqual(['bad-key']);
+  });
+
+  it('should reject static value extensions as mapping file extensions', () => {
+    expect(() => new UserMappingProvider('/tmp', undefined, undefined, '.yaml')).toThrow(
+      "Invalid fileExtension '.yaml'. The '.yaml' extension is reserved for static values."
+    );
+  });
+
+  it('should track changes to non-JSON static values on file polls', async () => {
+    const folder = await createTempFolder();
+    const file = path.join(folder, 'units.csv');
+    await fs.writeFile(file, 'code\nmg\n');
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+    const changed = jest.fn();
+    provider.on('staticJsonValueChanged', changed);
+    const poll = () => (provider as unknown as { pollFileMappings(): Promise<void> }).pollFileMappings();
+
+    await poll();
+    expect(changed).not.toHaveBeenCalled();
+
+    await fs.writeFile(file, 'code\nmg\nkg\n');
+    await poll();
+    expect(provider.getStaticJsonValue('units')?.value).toEqual([{ code: 'mg' }, { code: 'kg' }]);
+    expect(changed).toHaveBeenCalledTimes(1);
+  });
+
+  describe('parsers', () => {
+    it('should parse nested YAML collections, flow collections and block scalars', () => {
+      const yaml = [
+        '# lookup',
+        '---',
+        'rows:',
+        '- code: a',
+        "  label: 'A''s'",
+        '- [1, {x: null}]',
+        'note: |',
+        '  line 1',
+        '  line 2',
+        'summary: >-',
+        '  folded',
+        '  text',
+        'url: http://example.org/x#y # comment'
+      ].join('\n');
+
+      expect(parseYaml(yaml)).toEqual({
+        rows: [{ code: 'a', label: "A's" }, [1, { x: null }]],
+        note: 'line 1\nline 2\n',
+        summary: 'folded text',
+        url: 'http://example.org/x#y'
+      });
+      expect(() => parseYaml('a: 1\na: 2')).toThrow('YAML line 2, column 1: duplicated mapping key');
+      expect(() => parseYaml('a: !!binary aGk=')).toThrow('YAML line 1, column 17: unknown tag');
+      expect(() => parseYaml('--- a\n--- b')).toThrow('YAML: expected a single document in the stream');
+    });
+
+    it('should parse YAML like js-yaml does with the core schema', () => {
+      expect(parseYaml('quoted: "first\n  second"\nplain: first\n  second\n')).toEqual({ quoted: 'first second', plain: 'first second' });
+      expect(parseYaml('? key\n: value\n')).toEqual({ key: 'value' });
+      expect(parseYaml('a: &shared 1\nb: *shared\n')).toEqual({ a: 1, b: 1 });
+      // Not numbers or timestamps in the core schema
+      expect(parseYaml('half: -.5\ndate: 2024-01-01\n')).toEqual({ half: '-.5', date: '2024-01-01' });
+      expect(parseYaml('')).toBeNull();
+      expect(() => parseYaml('key: value with: colon')).toThrow('YAML line 1, column 16: bad indentation of a mapping entry');
+    });
+
+    it('should name the optional package to install when js-yaml is missing', () => {
+      jest.isolateModules(() => {
+        jest.doMock('js-yaml', () => {
+          throw Object.assign(new Error("Cannot find module 'js-yaml'"), { code: 'MODULE_NOT_FOUND' });
+        });
+        const formats = jest.requireActual<typeof import('../../src/staticValueFormats')>('../../src/staticValueFormats');
+        expect(() => formats.parseYaml('a: 1')).toThrow(
+          "Install the optional package 'js-yaml' to use YAML static values (npm install js-yaml)"
+        );
+        // Other formats still load
+        expect(formats.parseStaticValue('[1]', 'list.ndjson')).toEqual([[1]]);
+      });
+      jest.dontMock('js-yaml');
+    });
+
+    it('should parse quoted multi-line CSV fields and reject bad headers', () => {
+      expect(parseCsv(' code , text\n1,"two\nlines"\n')).toEqual([{ code: '1', text: 'two\nlines' }]);
+      expect(() => parseCsv('a,a\n1,2')).toThrow("CSV header column 'a' is duplicated");
+      expect(() => parseCsv('a,\n1,2')).toThrow('CSV header column 2 has no name');
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { structureMapToExpression, expressionToStructureMap, conceptMapToAliasObject, aliasObjectToConceptMap } from '../../src/converters';
+import { structureMapToExpression, structureMapToExpressions, expressionToStructureMap, updateStructureMapExpression, conceptMapToAliasObject, conceptMapToAliasDefinitions, aliasObjectToConceptMap } from '../../src/converters';
 import { StructureMap, ConceptMap, AliasObject } from '../../src/types';
 
 describe('structureMapToExpression', () => {
@@ -165,6 +165,109 @@ describe('round-trip conversion', () => {
   });
 });
 
+describe('structureMapToExpressions', () => {
+  it('should return every FUME rule with its group and rule names', () => {
+    const structureMap = expressionToStructureMap('multi', {
+      patient: 'InstanceOf: Patient',
+      'labs.observation': 'InstanceOf: Observation',
+      'labs.specimen': 'InstanceOf: Specimen'
+    });
+
+    expect(structureMap.group?.map(g => [g.name, g.rule?.map(r => r.name)])).toEqual([
+      ['fumeMapping', ['patient']],
+      ['labs', ['observation', 'specimen']]
+    ]);
+    expect(structureMapToExpression(structureMap)).toBe('InstanceOf: Patient');
+    expect(structureMapToExpressions(structureMap)).toEqual([
+      { key: 'multi#fumeMapping.patient', group: 'fumeMapping', rule: 'patient', expression: 'InstanceOf: Patient' },
+      { key: 'multi#labs.observation', group: 'labs', rule: 'observation', expression: 'InstanceOf: Observation' },
+      { key: 'multi#labs.specimen', group: 'labs', rule: 'specimen', expression: 'InstanceOf: Specimen' }
+    ]);
+  });
+
+  it('should address unnamed groups and rules by position and skip non-FUME rules', () => {
+    const structureMap = {
+      resourceType: 'StructureMap',
+      id: 'legacy',
+      group: [
+        {
+          rule: [
+            { name: 'plain' },
+            { extension: [{ url: 'http://fhir.fume.health/StructureDefinition/mapping-expression', valueExpression: { expression: 'x' } }] }
+          ]
+        }
+      ]
+    } as StructureMap;
+
+    expect(structureMapToExpressions(structureMap)).toEqual([
+      { key: 'legacy#0.1', group: undefined, rule: undefined, expression: 'x' }
+    ]);
+  });
+});
+
+describe('updateStructureMapExpression', () => {
+  // Authored on a server: everything beyond the FUME rule must survive an update
+  const authored = (): StructureMap => ({
+    ...expressionToStructureMap('patient', 'InstanceOf: Patient', 'http://acme.org'),
+    meta: { versionId: '7', lastUpdated: '2024-01-01T00:00:00Z' },
+    extension: [{ url: 'http://acme.org/owner', valueString: 'team-a' }],
+    identifier: [{ system: 'urn:acme', value: 'PM-1' }],
+    version: '2.1.0',
+    title: 'Patient intake',
+    status: 'draft',
+    date: '2024-01-01',
+    publisher: 'Acme',
+    description: 'Maps intake forms to Patient'
+  } as StructureMap);
+
+  it('should return an identical resource when the expression is unchanged', () => {
+    const original = authored();
+    const updated = updateStructureMapExpression(original, 'InstanceOf: Patient', { updateDate: true });
+
+    expect(updated).toEqual(original);
+    expect(JSON.stringify(updated)).toBe(JSON.stringify(original));
+    expect(updated).not.toBe(original);
+  });
+
+  it('should change only the FUME expression and keep element order', () => {
+    const original = authored();
+    const updated = updateStructureMapExpression(original, 'InstanceOf: Patient\n* active = true');
+
+    const expected = authored();
+    expected.group![0].rule![0].extension![0].valueExpression!.expression = 'InstanceOf: Patient\n* active = true';
+    expect(JSON.stringify(updated)).toBe(JSON.stringify(expected));
+    expect(structureMapToExpression(original)).toBe('InstanceOf: Patient');
+  });
+
+  it('should update the date only when asked and the expression changed', () => {
+    const updated = updateStructureMapExpression(authored(), 'changed', { updateDate: true });
+
+    expect(updated.date).not.toBe('2024-01-01');
+    expect({ ...updated, date: '2024-01-01' }).toEqual(updateStructureMapExpression(authored(), 'changed'));
+  });
+
+  it('should survive repeated round-trips', () => {
+    let structureMap = authored();
+    for (const expression of ['a', 'b', 'InstanceOf: Patient']) {
+      structureMap = JSON.parse(JSON.stringify(updateStructureMapExpression(structureMap, expression)));
+    }
+    expect(structureMap).toEqual(authored());
+  });
+
+  it('should update named rules of a multi-rule StructureMap', () => {
+    const original = expressionToStructureMap('intake', { patient: 'p', 'labs.observation': 'o' });
+    const updated = updateStructureMapExpression(original, { 'labs.observation': 'o2' });
+
+    expect(structureMapToExpressions(updated).map(r => r.expression)).toEqual(['p', 'o2']);
+    expect(() => updateStructureMapExpression(original, { 'labs.missing': 'x' })).toThrow(
+      "StructureMap/intake has no FUME rule 'labs.missing'"
+    );
+    expect(() => updateStructureMapExpression({ resourceType: 'StructureMap', id: 'plain' }, 'x')).toThrow(
+      'StructureMap/plain has no FUME rule to update'
+    );
+  });
+});
+
 describe('conceptMapToAliasObject', () => {
   it('should convert a valid ConceptMap to alias object', () => {
     const conceptMap: ConceptMap = {
@@ -394,3 +497,150 @@ describe('alias round-trip conversion', () => {
     expect(extractedAliases).toEqual(originalAliases);
   });
 });
+
+describe('alias definitions', () => {
+  const DEPRECATED = 'http://fhir.fume.health/StructureDefinition/alias-deprecated';
+
+  // As documented by an author on the server
+  const documented = (): ConceptMap => ({
+    resourceType: 'ConceptMap',
+    id: 'aliases',
+    url: 'http://acme.org/ConceptMap/fume-global-aliases',
+    name: 'FumeAliases',
+    description: 'Acme aliases',
+    group: [
+      {
+        source: 'http://acme.org/CodeSystem/fume-global-alias-name',
+        target: 'http://acme.org/CodeSystem/fume-global-alias-value',
+        element: [
+          {
+            code: 'mrn',
+            display: 'Medical record number system',
+            target: [
+              { code: 'http://acme.org/mrn', equivalence: 'equivalent', comment: 'Owned by registration' },
+              { code: 'urn:oid:1.2.3', equivalence: 'equal' }
+            ]
+          },
+          {
+            extension: [{ url: DEPRECATED, valueBoolean: true }],
+            code: 'oldMrn',
+            target: [{ code: 'http://acme.org/old-mrn', equivalence: 'equivalent' }]
+          }
+        ]
+      },
+      {
+        source: 'http://acme.org/CodeSystem/lab-aliases',
+        target: 'http://acme.org/CodeSystem/lab-values',
+        element: [{ code: 'labSystem', display: 'LIS code system', target: [{ code: 'http://acme.org/lis', equivalence: 'equivalent' }] }]
+      }
+    ]
+  });
+
+  it('should read descriptions, deprecation flags and non-default groups', () => {
+    expect(conceptMapToAliasDefinitions(documented())).toEqual({
+      mrn: { value: 'http://acme.org/mrn', description: 'Medical record number system' },
+      oldMrn: { value: 'http://acme.org/old-mrn', deprecated: true },
+      labSystem: { value: 'http://acme.org/lis', description: 'LIS code system', group: 'http://acme.org/CodeSystem/lab-aliases' }
+    });
+    expect(conceptMapToAliasObject(documented())).toEqual({
+      mrn: 'http://acme.org/mrn',
+      oldMrn: 'http://acme.org/old-mrn',
+      labSystem: 'http://acme.org/lis'
+    });
+  });
+
+  it('should keep the documentation of an existing ConceptMap when editing one alias', () => {
+    const aliases = { ...conceptMapToAliasObject(documented()), mrn: 'http://acme.org/mrn2' };
+    const updated = aliasObjectToConceptMap(aliases, 'http://acme.org', documented());
+
+    const expected = documented();
+    expected.group![0].element![0].target![0].code = 'http://acme.org/mrn2';
+    expect({ ...updated, date: undefined }).toEqual({ ...expected, date: undefined });
+  });
+
+  it('should drop removed aliases and add new ones to their group', () => {
+    const updated = aliasObjectToConceptMap(
+      {
+        mrn: 'http://acme.org/mrn',
+        labSystem: { value: 'http://acme.org/lis', deprecated: true },
+        newAlias: { value: 'http://acme.org/new', description: 'New one' },
+        labUnit: { value: 'http://acme.org/units', group: 'http://acme.org/CodeSystem/lab-aliases' }
+      },
+      'http://acme.org',
+      documented()
+    );
+
+    expect(updated.group?.map(g => g.element?.map(e => e.code))).toEqual([
+      ['mrn', 'newAlias'],
+      ['labSystem', 'labUnit']
+    ]);
+    expect(updated.group?.[0].element?.[0].target).toHaveLength(2);
+    expect(updated.group?.[1].element?.[0]).toEqual({
+      code: 'labSystem',
+      display: 'LIS code system',
+      target: [{ code: 'http://acme.org/lis', equivalence: 'equivalent' }],
+      extension: [{ url: DEPRECATED, valueBoolean: true }]
+    });
+  });
+
+  it('should add ungrouped aliases to a new default group rather than to another group', () => {
+    const labOnly = documented();
+    labOnly.group = [labOnly.group![1]];
+    const definitions = {
+      labSystem: { value: 'http://acme.org/lis', description: 'LIS code system', group: 'http://acme.org/CodeSystem/lab-aliases' },
+      mrn: { value: 'http://acme.org/mrn' }
+    };
+
+    const updated = aliasObjectToConceptMap(definitions, 'http://acme.org', labOnly);
+    expect(updated.group?.map(g => [g.source, g.element?.map(e => e.code)])).toEqual([
+      ['http://acme.org/CodeSystem/lab-aliases', ['labSystem']],
+      ['http://acme.org/CodeSystem/fume-global-alias-name', ['mrn']]
+    ]);
+    expect(conceptMapToAliasDefinitions(updated)).toEqual(definitions);
+  });
+
+  it('should round-trip alias definitions through a new ConceptMap', () => {
+    const definitions = {
+      mrn: { value: 'http://mrn', description: 'MRN' },
+      oldMrn: { value: 'http://old', deprecated: true },
+      labSystem: { value: 'http://lis', group: 'http://acme.org/CodeSystem/lab-aliases' }
+    };
+
+    const conceptMap = aliasObjectToConceptMap(definitions, 'http://acme.org');
+    expect(conceptMap.group?.map(g => g.source)).toEqual([
+      'http://acme.org/CodeSystem/fume-global-alias-name',
+      'http://acme.org/CodeSystem/lab-aliases'
+    ]);
+    expect(conceptMapToAliasDefinitions(conceptMap)).toEqual(definitions);
+    expect(conceptMapToAliasDefinitions(aliasObjectToConceptMap(conceptMapToAliasDefinitions(conceptMap), 'http://acme.org', conceptMap))).toEqual(definitions);
+  });
+});
+
+describe('FHIR release layouts', () => {
+  it('should convert kept targets of an existing ConceptMap between R4 equivalence and R5 relationship', () => {
+    const r4 = aliasObjectToConceptMap({ a: 'x', b: 'y' }, 'http://acme.org');
+    const target = r4.group?.[0].element?.[1].target?.[0] as { equivalence?: string };
+    target.equivalence = 'wider';
+
+    const r5 = aliasObjectToConceptMap({ a: 'x', b: 'y', c: 'z' }, 'http://acme.org', structuredClone(r4), 'R5');
+    expect(r5.group?.[0].element?.map(e => e.target)).toEqual([
+      [{ code: 'x', relationship: 'equivalent' }],
+      [{ code: 'y', relationship: 'source-is-narrower-than-target' }],
+      [{ code: 'z', relationship: 'equivalent' }]
+    ]);
+    expect(conceptMapToAliasObject(r5)).toEqual({ a: 'x', b: 'y', c: 'z' });
+
+    const back = aliasObjectToConceptMap({ a: 'x', b: 'y' }, 'http://acme.org', r5, 'R4B');
+    expect(back.group?.[0].element?.map(e => e.target)).toEqual([
+      [{ code: 'x', equivalence: 'equivalent' }],
+      [{ code: 'y', equivalence: 'wider' }]
+    ]);
+  });
+
+  it('should omit the R4 typeMode from R5 StructureMaps', () => {
+    expect(expressionToStructureMap('m', 'x', 'http://acme.org', 'R4B').group?.[0].typeMode).toBe('none');
+    const r5 = expressionToStructureMap('m', 'x', 'http://acme.org', 'R5');
+    expect(r5.group?.[0]).not.toHaveProperty('typeMode');
+    expect(structureMapToExpression(r5)).toBe('x');
+  });
+});
@@ -0,0 +1,106 @@
+import { DependencyGraph, extractExpressionReferences } from '../../src/dependencyGraph';
+import { FumeMappingProvider } from '../../src/FumeMappingProvider';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('extractExpressionReferences', () => {
+  it('should find $name references in order of first appearance', () => {
+    const expression = [
+      'InstanceOf: Patient',
+      '* identifier.system = $mrnSystem',
+      '* extension = $buildExtension(input, $codes)',
+      '* name.given = $buildExtension(x)'
+    ].join('\n');
+
+    expect(extractExpressionReferences(expression)).toEqual(['mrnSystem', 'buildExtension', 'codes']);
+  });
+
+  it('should skip string literals, backtick names and block comments', () => {
+    const expression = `"$inDouble" & 'it\\'s $inSingle' & \`$inBacktick\` /* $inComment */ & $real`;
+    expect(extractExpressionReferences(expression)).toEqual(['real']);
+  });
+
+  it('should skip names assigned inside the expression and the $$ root', () => {
+    const expression = '($local := $$.value; $helper($local, $outer))';
+    expect(extractExpressionReferences(expression)).toEqual(['helper', 'outer']);
+  });
+});
+
+describe('DependencyGraph', () => {
+  const graph = DependencyGraph.build({
+    mappings: [
+      { key: 'patient', expression: '$address(input) & $mrnSystem' },
+      { key: 'address', expression: '$countryCodes[code = $$.country]' },
+      { key: 'unrelated', expression: '$unknownThing' }
+    ],
+    packageMappings: [{ id: 'pkgMap', expression: '$address(x)' }],
+    aliasKeys: ['mrnSystem', 'shared'],
+    staticJsonKeys: ['countryCodes', 'shared']
+  });
+
+  it('should resolve references to mappings, aliases and static JSON values', () => {
+    expect(graph.getDependencies('patient')).toEqual([
+      { type: 'mapping', key: 'address' },
+      { type: 'alias', key: 'mrnSystem' }
+    ]);
+    expect(graph.getDependencies('unrelated')).toEqual([]);
+    expect(graph.getDependencies('pkgMap', { type: 'packageMapping' })).toEqual([{ type: 'mapping', key: 'address' }]);
+  });
+
+  it('should follow references transitively', () => {
+    expect(graph.getDependencies('patient', { transitive: true })).toEqual([
+      { type: 'mapping', key: 'address' },
+      { type: 'alias', key: 'mrnSystem' },
+      { type: 'staticJson', key: 'countryCodes' }
+    ]);
+  });
+
+  it('should list direct and transitive dependents of a static JSON value', () => {
+    expect(graph.getDependents('countryCodes')).toEqual([{ type: 'mapping', key: 'address' }]);
+    expect(graph.getDependents('countryCodes', { transitive: true })).toEqual([
+      { type: 'mapping', key: 'address' },
+      { type: 'mapping', key: 'patient' },
+      { type: 'packageMapping', key: 'pkgMap' }
+    ]);
+    expect(graph.getDependents('countryCodes', { type: 'alias' })).toEqual([]);
+  });
+
+  it('should add an edge to every kind matching an ambiguous name', () => {
+    const ambiguous = DependencyGraph.build({
+      mappings: [{ key: 'm', expression: '$shared' }],
+      aliasKeys: ['shared'],
+      staticJsonKeys: ['shared']
+    });
+
+    expect(ambiguous.getDependencies('m')).toEqual([
+      { type: 'alias', key: 'shared' },
+      { type: 'staticJson', key: 'shared' }
+    ]);
+  });
+});
+
+describe('FumeMappingProvider.getDependencyGraph', () => {
+  it('should build the graph from cached user mappings, aliases and static JSON values', async () => {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'fume-mappings-'));
+    await fs.writeFile(path.join(folder, 'patient.fume'), '* system = $mrn\n* code = $codes[0]\n* x = $loinc');
+    await fs.writeFile(path.join(folder, 'codes.json'), '["a"]');
+    await fs.writeFile(path.join(folder, 'aliases.json'), JSON.stringify({ mrn: 'http://mrn' }));
+
+    const provider = new FumeMappingProvider({
+      mappingsFolder: folder,
+      filePollingIntervalMs: 0,
+      serverPollingIntervalMs: 0,
+      forcedResyncIntervalMs: 0
+    });
+    await provider.initialize();
+
+    const graph = await provider.getDependencyGraph();
+    expect(graph.getDependencies('patient')).toEqual([
+      { type: 'alias', key: 'mrn' },
+      { type: 'staticJson', key: 'codes' },
+      { type: 'alias', key: 'loinc' }
+    ]);
+    expect(graph.getDependents('mrn')).toEqual([{ type: 'mapping', key: 'patient' }]);
+  });
+});